@@ -0,0 +1,557 @@
+// src/api/client.ts
+import type { z } from "zod";
+import { File } from "expo-file-system";
+import { createUploadTask, FileSystemUploadType } from "expo-file-system/legacy";
+import {
+    actionResponseSchema,
+    actionsResponseSchema,
+    analyzeResponseSchema,
+    areaResponseSchema,
+    checklistTemplateResponseSchema,
+    checklistTemplatesResponseSchema,
+    hazardResponseSchema,
+    hazardReviewResponseSchema,
+    inspectionResponseSchema,
+    listResponseSchema,
+    okResponseSchema,
+    siteResponseSchema,
+    sitesResponseSchema,
+    uploadResponseSchema,
+} from "@/api/schemas";
+import { CONFIGURED_BASE_URL } from "@/api/config";
+import {
+    abortError,
+    ApiError,
+    AuthError,
+    errorForStatus,
+    NetworkError,
+    RateLimitedError,
+    ServerError,
+    TimeoutError,
+    ValidationError,
+} from "@/api/errors";
+import { isMockBaseUrl } from "@/api/mock/scenarios";
+import type {
+    ActionStatus,
+    ChecklistAnswerEntry,
+    ChecklistTemplate,
+    CorrectiveAction,
+    FocusRegion,
+    Hazard,
+    HazardReview,
+    PhotoMetadata,
+    Severity,
+    SiteContext,
+    SolutionType,
+} from "@/api/types";
+
+export type TokenProvider = (options?: { skipCache?: boolean }) => Promise<string | null>;
+
+export interface ApiClientOptions {
+    baseUrl?: string;
+    getToken: TokenProvider;
+    /** Called when a fresh token cannot be minted, meaning the session itself is gone */
+    onSessionExpired?: () => void;
+}
+
+export interface UploadProgress {
+    bytesSent: number;
+    totalBytes: number;
+}
+
+export interface RequestOptions {
+    /** Aborts the request, including any pending retries */
+    signal?: AbortSignal;
+    /** Per-attempt timeout in milliseconds */
+    timeoutMs?: number;
+    /** Extra attempts after a network failure, timeout or 5xx response */
+    retries?: number;
+}
+
+export interface AnalyzeInput {
+    /** The photos to analyze; annotated copies where the inspector marked one up */
+    imageUrls: string[];
+    /** Aligned with `imageUrls`; the unannotated original of each marked-up photo */
+    originalImageUrls?: (string | null)[];
+    /** Aligned with `imageUrls`; null for photos whose metadata should not be shared */
+    photoMetadata?: (PhotoMetadata | null)[];
+    /** Aligned with `imageUrls`; areas the inspector marked up, as hints for the analysis */
+    focusRegions?: FocusRegion[][];
+    /** When the capture was made; queued captures are analyzed long after */
+    capturedAt?: string;
+    /** Where the photos were taken and what work was going on, to steer the analysis */
+    siteContext?: SiteContext;
+    /** Site and area the inspection belongs to */
+    siteId?: string;
+    areaId?: string;
+    /** The checklist the inspection was started from; "No" answers become hazards in the report */
+    checklist?: ChecklistSubmission;
+}
+
+export interface ChecklistSubmission {
+    templateId: string;
+    answers: ChecklistAnswerEntry[];
+}
+
+/** A template to save; without an id a new one is created */
+export type ChecklistTemplateInput = Omit<ChecklistTemplate, "id" | "updatedAt"> & { id?: string };
+
+export interface ListInspectionsOptions extends RequestOptions {
+    /** Only inspections attached to this site */
+    siteId?: string;
+}
+
+/** The fields an inspector corrected; anything left out keeps the AI's value */
+export type HazardReviewChanges = Partial<Pick<HazardReview, "severity" | "category" | "description" | "location" | "dismissed" | "dismissReason">>;
+
+/** A hazard the inspector reports by hand; the server assigns its id */
+export type NewHazardInput = Omit<Hazard, "id" | "regions" | "source">;
+
+export interface ListActionsOptions extends RequestOptions {
+    /** Only actions raised from this inspection */
+    inspectionId?: string;
+    /** Only actions in one of these states */
+    statuses?: readonly ActionStatus[];
+}
+
+export interface CorrectiveActionInput {
+    inspectionId: string;
+    hazardId: string;
+    hazardDescription?: string;
+    solution: string;
+    solutionType: SolutionType;
+    owner: string;
+    dueDate: string;
+    priority: Severity;
+    status?: ActionStatus;
+    evidenceUrls?: string[];
+}
+
+export type CorrectiveActionChanges = Partial<Pick<CorrectiveAction, "owner" | "dueDate" | "priority" | "status" | "evidenceUrls">>;
+
+export interface UploadImageOptions extends RequestOptions {
+    filename?: string;
+    onProgress?: (progress: UploadProgress) => void;
+}
+
+// Defaults per kind of call; analysis runs the model server-side and needs the longest
+export const REQUEST_TIMEOUTS = {
+    default: 20_000,
+    upload: 120_000,
+    analyze: 90_000,
+};
+
+const DEFAULT_RETRIES = 2;
+const RETRY_BASE_DELAY = 500;
+
+const isRetryable = (e: unknown) =>
+    e instanceof NetworkError ||
+    e instanceof RateLimitedError ||
+    // 501 means the endpoint does not exist, which retrying will not change
+    (e instanceof ServerError && e.status >= 500 && e.status !== 501);
+
+/** Exponential backoff with jitter before retry number `attempt` (zero-based) */
+export const retryDelay = (attempt: number, baseDelay = RETRY_BASE_DELAY) => {
+    const delay = baseDelay * 2 ** attempt;
+    return delay + Math.random() * delay * 0.5;
+};
+
+/** Resolves after the delay, or rejects as soon as the signal aborts */
+export const wait = (ms: number, signal?: AbortSignal) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener("abort", onAbort);
+    });
+
+/** Runs `attempt` until it succeeds, backing off exponentially between retryable failures */
+async function withRetry<T>(attempt: () => Promise<T>, retries: number, signal?: AbortSignal): Promise<T> {
+    for (let i = 0; ; i++) {
+        try {
+            return await attempt();
+        } catch (e) {
+            if (i >= retries || signal?.aborted || !isRetryable(e)) throw e;
+            await wait(retryDelay(i), signal);
+        }
+    }
+}
+
+/**
+ * Runs `attempt` with a controller that aborts when either the caller's
+ * signal aborts or the timeout elapses, distinguishing the two afterwards.
+ */
+async function withTimeout<T>(
+    attempt: (signal: AbortSignal) => Promise<T>,
+    timeoutMs: number,
+    signal?: AbortSignal,
+): Promise<T> {
+    if (signal?.aborted) throw abortError();
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeoutMs);
+    const onAbort = () => controller.abort();
+    signal?.addEventListener("abort", onAbort);
+
+    try {
+        return await attempt(controller.signal);
+    } catch (e) {
+        if (timedOut) throw new TimeoutError();
+        if (signal?.aborted) throw abortError();
+        // fetch rejects with a TypeError when the network is unreachable
+        if (e instanceof TypeError) throw new NetworkError();
+        throw e;
+    } finally {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", onAbort);
+    }
+}
+
+// Statuses meaning the server has no multipart endpoint, so the base64 endpoint should be used
+const MULTIPART_UNSUPPORTED = new Set([404, 405, 415, 501]);
+
+// Base URLs that rejected multipart, remembered so later uploads skip straight to base64
+const multipartUnsupportedBases = new Set<string>();
+
+const parseBody = <S extends z.ZodType<{ ok: boolean }, z.ZodTypeDef, unknown>>(
+    path: string,
+    schema: S,
+    status: number,
+    text: string,
+): z.output<S> => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        console.warn(`Non-JSON response from ${path}:`, text.slice(0, 300));
+        throw new ValidationError(status, "Response was not JSON");
+    }
+
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+        console.warn(`Invalid response from ${path}:`, parsed.error.issues);
+        throw new ValidationError(status, parsed.error.issues[0]?.message);
+    }
+    if (!parsed.data.ok) {
+        throw new ServerError(status, text);
+    }
+
+    return parsed.data;
+};
+
+/**
+ * The mock backend is required here rather than imported, behind conditions
+ * the bundler can resolve at build time, so production builds leave it and
+ * its fixtures out. Mirrors MOCK_API_AVAILABLE in config.ts.
+ */
+function loadMockFetch(): typeof import("@/api/mock/server").mockFetch | null {
+    if (__DEV__ || process.env.EXPO_PUBLIC_ENABLE_DEV_SETTINGS === "1" || process.env.EXPO_PUBLIC_USE_MOCK_API === "1") {
+        // eslint-disable-next-line @typescript-eslint/no-require-imports
+        const server: typeof import("@/api/mock/server") = require("@/api/mock/server");
+        return server.mockFetch;
+    }
+    return null;
+}
+
+export function createApiClient({ baseUrl = CONFIGURED_BASE_URL, getToken, onSessionExpired }: ApiClientOptions) {
+    const mock = isMockBaseUrl(baseUrl);
+    const send = (mock && loadMockFetch()) || fetch;
+
+    const buildAuthHeaders = async (forceRefresh = false): Promise<Record<string, string>> => {
+        const token = await getToken({ skipCache: forceRefresh });
+        if (!token) {
+            if (forceRefresh) {
+                onSessionExpired?.();
+            }
+            throw new AuthError();
+        }
+
+        return {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${token}`,
+        };
+    };
+
+    /**
+     * Tokens are short-lived and can expire mid-request (long uploads especially),
+     * so a 401 is retried once with a token minted fresh instead of the cached one.
+     */
+    const withTokenRefresh = async <T>(attempt: (forceRefresh: boolean) => Promise<T>): Promise<T> => {
+        try {
+            return await attempt(false);
+        } catch (e) {
+            if (!(e instanceof AuthError && e.status === 401)) throw e;
+            return attempt(true);
+        }
+    };
+
+    const request = async <S extends z.ZodType<{ ok: boolean }, z.ZodTypeDef, unknown>>(
+        path: string,
+        schema: S,
+        init: RequestInit & RequestOptions = {},
+    ): Promise<z.output<S>> => {
+        const {
+            signal,
+            timeoutMs = REQUEST_TIMEOUTS.default,
+            // Only idempotent GETs retry unless the caller opts in
+            retries = (init.method ?? "GET") === "GET" ? DEFAULT_RETRIES : 0,
+            ...rest
+        } = init;
+
+        return withRetry(
+            () => withTokenRefresh((forceRefresh) => withTimeout(async (attemptSignal) => {
+                const headers = await buildAuthHeaders(forceRefresh);
+                const response = await send(`${baseUrl}${path}`, {
+                    ...rest,
+                    signal: attemptSignal,
+                    headers: { ...headers, ...(rest.headers as Record<string, string> | undefined) },
+                });
+
+                const text = await response.text();
+                if (!response.ok) {
+                    throw errorForStatus(response.status, text);
+                }
+
+                return parseBody(path, schema, response.status, text);
+            }, timeoutMs, signal)),
+            retries,
+            signal,
+        );
+    };
+
+    const uploadBase64 = (
+        base64: string,
+        filename = "inspection",
+        { signal, timeoutMs = REQUEST_TIMEOUTS.upload, retries = DEFAULT_RETRIES }: RequestOptions = {},
+    ) =>
+        request("/api/uploads/base64", uploadResponseSchema, {
+            method: "POST",
+            body: JSON.stringify({ base64, filename }),
+            signal,
+            timeoutMs,
+            retries,
+        });
+
+    /** Streams the file from disk as multipart/form-data, reporting bytes sent */
+    const uploadMultipart = (
+        fileUri: string,
+        mimeType: string,
+        {
+            filename = "inspection",
+            onProgress,
+            signal,
+            timeoutMs = REQUEST_TIMEOUTS.upload,
+            retries = DEFAULT_RETRIES,
+        }: UploadImageOptions = {},
+    ) => {
+        const path = "/api/uploads/multipart";
+
+        return withRetry(
+            () => withTokenRefresh((forceRefresh) => withTimeout(async (attemptSignal) => {
+                const { Authorization } = await buildAuthHeaders(forceRefresh);
+                const task = createUploadTask(
+                    `${baseUrl}${path}`,
+                    fileUri,
+                    {
+                        httpMethod: "POST",
+                        uploadType: FileSystemUploadType.MULTIPART,
+                        fieldName: "file",
+                        mimeType,
+                        parameters: { filename },
+                        headers: { Authorization },
+                    },
+                    ({ totalBytesSent, totalBytesExpectedToSend }) =>
+                        onProgress?.({ bytesSent: totalBytesSent, totalBytes: totalBytesExpectedToSend }),
+                );
+
+                // The native task ignores AbortSignal, so cancel it explicitly
+                const cancel = () => task.cancelAsync();
+                attemptSignal.addEventListener("abort", cancel);
+
+                let result;
+                try {
+                    result = await task.uploadAsync();
+                } catch {
+                    throw new NetworkError();
+                } finally {
+                    attemptSignal.removeEventListener("abort", cancel);
+                }
+                if (!result) throw abortError();
+
+                if (result.status < 200 || result.status >= 300) {
+                    throw errorForStatus(result.status, result.body);
+                }
+
+                return parseBody(path, uploadResponseSchema, result.status, result.body);
+            }, timeoutMs, signal)),
+            retries,
+            signal,
+        );
+    };
+
+    return {
+        uploadBase64,
+        uploadMultipart,
+
+        /**
+         * Uploads an image file, preferring the streaming multipart endpoint and
+         * falling back to the base64 endpoint on servers that do not support it.
+         */
+        uploadImage: async (fileUri: string, mimeType: string, options: UploadImageOptions = {}) => {
+            // Native upload tasks bypass the mock backend, so it only takes base64
+            if (!mock && !multipartUnsupportedBases.has(baseUrl)) {
+                try {
+                    return await uploadMultipart(fileUri, mimeType, options);
+                } catch (e) {
+                    if (!(e instanceof ApiError && MULTIPART_UNSUPPORTED.has(e.status))) throw e;
+                    multipartUnsupportedBases.add(baseUrl);
+                }
+            }
+
+            const base64 = await new File(fileUri).base64();
+            const totalBytes = Math.floor(base64.length * 0.75);
+            options.onProgress?.({ bytesSent: 0, totalBytes });
+            const json = await uploadBase64(base64, options.filename, options);
+            options.onProgress?.({ bytesSent: totalBytes, totalBytes });
+            return json;
+        },
+
+        /** Analyzes all photos of one inspection together into a single result */
+        analyze: (input: AnalyzeInput, options: RequestOptions = {}) =>
+            request("/api/inspections/analyze", analyzeResponseSchema, {
+                method: "POST",
+                // `imageUrl` and `originalImageUrl` keep single-photo servers working
+                body: JSON.stringify({
+                    imageUrl: input.imageUrls[0],
+                    originalImageUrl: input.originalImageUrls?.[0] ?? undefined,
+                    ...input,
+                }),
+                ...options,
+                timeoutMs: options.timeoutMs ?? REQUEST_TIMEOUTS.analyze,
+            }),
+
+        listInspections: (page = 1, pageSize = 20, { siteId, ...options }: ListInspectionsOptions = {}) =>
+            request(
+                `/api/inspections/list?page=${page}&pageSize=${pageSize}` +
+                    (siteId ? `&siteId=${encodeURIComponent(siteId)}` : ""),
+                listResponseSchema,
+                options,
+            ),
+
+        getInspection: (id: string, options: RequestOptions = {}) =>
+            request(
+                `/api/inspections/${encodeURIComponent(id)}`,
+                inspectionResponseSchema,
+                options,
+            ),
+
+        /** Saves the inspector's corrections to one AI hazard, replacing any earlier review */
+        reviewHazard: (inspectionId: string, hazardId: string, changes: HazardReviewChanges, options: RequestOptions = {}) =>
+            request(
+                `/api/inspections/${encodeURIComponent(inspectionId)}/hazards/${encodeURIComponent(hazardId)}/review`,
+                hazardReviewResponseSchema,
+                {
+                    method: "PUT",
+                    body: JSON.stringify(changes),
+                    ...options,
+                },
+            ),
+
+        /** Drops the review so the hazard shows the AI's values again */
+        clearHazardReview: (inspectionId: string, hazardId: string, options: RequestOptions = {}) =>
+            request(
+                `/api/inspections/${encodeURIComponent(inspectionId)}/hazards/${encodeURIComponent(hazardId)}/review`,
+                okResponseSchema,
+                { method: "DELETE", ...options },
+            ),
+
+        /** Adds a hazard the AI missed; it is stored as inspector-added */
+        addHazard: (inspectionId: string, hazard: NewHazardInput, options: RequestOptions = {}) =>
+            request(`/api/inspections/${encodeURIComponent(inspectionId)}/hazards`, hazardResponseSchema, {
+                method: "POST",
+                body: JSON.stringify(hazard),
+                ...options,
+            }),
+
+        /** Removes an inspector-added hazard; AI hazards are dismissed through a review instead */
+        removeHazard: (inspectionId: string, hazardId: string, options: RequestOptions = {}) =>
+            request(
+                `/api/inspections/${encodeURIComponent(inspectionId)}/hazards/${encodeURIComponent(hazardId)}`,
+                okResponseSchema,
+                { method: "DELETE", ...options },
+            ),
+
+        listChecklistTemplates: (options: RequestOptions = {}) =>
+            request("/api/checklists/templates", checklistTemplatesResponseSchema, options),
+
+        saveChecklistTemplate: ({ id, ...template }: ChecklistTemplateInput, options: RequestOptions = {}) =>
+            request(
+                id ? `/api/checklists/templates/${encodeURIComponent(id)}` : "/api/checklists/templates",
+                checklistTemplateResponseSchema,
+                {
+                    method: id ? "PUT" : "POST",
+                    body: JSON.stringify(template),
+                    ...options,
+                },
+            ),
+
+        deleteChecklistTemplate: (id: string, options: RequestOptions = {}) =>
+            request(`/api/checklists/templates/${encodeURIComponent(id)}`, okResponseSchema, {
+                method: "DELETE",
+                ...options,
+            }),
+
+        /** Every site the user can file inspections under, with its areas */
+        listSites: (options: RequestOptions = {}) =>
+            request("/api/sites", sitesResponseSchema, options),
+
+        createSite: (name: string, options: RequestOptions = {}) =>
+            request("/api/sites", siteResponseSchema, {
+                method: "POST",
+                body: JSON.stringify({ name }),
+                ...options,
+            }),
+
+        createArea: (siteId: string, name: string, options: RequestOptions = {}) =>
+            request(`/api/sites/${encodeURIComponent(siteId)}/areas`, areaResponseSchema, {
+                method: "POST",
+                body: JSON.stringify({ name }),
+                ...options,
+            }),
+
+        listActions: ({ inspectionId, statuses, ...options }: ListActionsOptions = {}) => {
+            const params = new URLSearchParams();
+            if (inspectionId) params.set("inspectionId", inspectionId);
+            if (statuses?.length) params.set("status", statuses.join(","));
+            const query = params.toString();
+            return request(`/api/actions${query ? `?${query}` : ""}`, actionsResponseSchema, options);
+        },
+
+        /** Turns one of a hazard's solutions into an assigned corrective action */
+        createAction: (input: CorrectiveActionInput, options: RequestOptions = {}) =>
+            request("/api/actions", actionResponseSchema, {
+                method: "POST",
+                body: JSON.stringify(input),
+                ...options,
+            }),
+
+        updateAction: (id: string, changes: CorrectiveActionChanges, options: RequestOptions = {}) =>
+            request(`/api/actions/${encodeURIComponent(id)}`, actionResponseSchema, {
+                method: "PATCH",
+                body: JSON.stringify(changes),
+                ...options,
+            }),
+    };
+}
+
+export type ApiClient = ReturnType<typeof createApiClient>;
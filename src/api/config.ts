@@ -0,0 +1,64 @@
+// src/api/config.ts
+import Constants from "expo-constants";
+import { Platform } from "react-native";
+import { MOCK_SCENARIOS, MOCK_SCHEME } from "@/api/mock/scenarios";
+
+export const DEFAULT_BASE = "https://hseappapi.vercel.app";
+
+export interface ApiEnvironment {
+    key: "configured" | "staging" | "local" | `mock-${string}`;
+    label: string;
+    baseUrl: string;
+}
+
+const extra = (Constants.expoConfig?.extra ?? {}) as {
+    apiBaseUrl?: string;
+    stagingApiBaseUrl?: string;
+    useMockApi?: boolean;
+    uploadByteBudget?: number;
+};
+
+export const MOCK_BASE_URL = `${MOCK_SCHEME}default`;
+
+// The developer panel is only reachable in dev servers and development-profile builds
+export const DEV_SETTINGS_ENABLED =
+    __DEV__ || process.env.EXPO_PUBLIC_ENABLE_DEV_SETTINGS === "1";
+
+// Builds that bundle the mock backend; the same check guards loading it in client.ts
+export const MOCK_API_AVAILABLE = DEV_SETTINGS_ENABLED || process.env.EXPO_PUBLIC_USE_MOCK_API === "1";
+
+// Runs the app against the in-app mock backend instead of any server
+const USE_MOCK_API = process.env.EXPO_PUBLIC_USE_MOCK_API === "1" || (MOCK_API_AVAILABLE && extra.useMockApi === true);
+
+/**
+ * Base URL baked into the build. EAS profiles can override app.json `extra`
+ * through the EXPO_PUBLIC_API_BASE_URL environment variable.
+ */
+export const CONFIGURED_BASE_URL = USE_MOCK_API
+    ? MOCK_BASE_URL
+    : process.env.EXPO_PUBLIC_API_BASE_URL || extra.apiBaseUrl || DEFAULT_BASE;
+
+/**
+ * Size each photo is compressed towards before upload. Well under the server's
+ * body limit, so uploads avoid the 413 path without discarding detail.
+ */
+export const UPLOAD_BYTE_BUDGET =
+    Number(process.env.EXPO_PUBLIC_UPLOAD_BYTE_BUDGET) || extra.uploadByteBudget || 1_500_000;
+
+// Android emulators reach the host machine through 10.0.2.2
+const LOCAL_BASE_URL = Platform.OS === "android" ? "http://10.0.2.2:3000" : "http://localhost:3000";
+
+export const API_ENVIRONMENTS: ApiEnvironment[] = [
+    { key: "configured", label: "Build default", baseUrl: CONFIGURED_BASE_URL },
+    ...(extra.stagingApiBaseUrl
+        ? [{ key: "staging" as const, label: "Staging", baseUrl: extra.stagingApiBaseUrl }]
+        : []),
+    { key: "local", label: "Local server", baseUrl: LOCAL_BASE_URL },
+    ...(MOCK_API_AVAILABLE ? MOCK_SCENARIOS : []).map(({ scenario, label }) => ({
+        key: `mock-${scenario}` as const,
+        label,
+        baseUrl: `${MOCK_SCHEME}${scenario}`,
+    })),
+];
+
+export const normalizeBaseUrl = (url: string) => url.trim().replace(/\/+$/, "");
@@ -0,0 +1,158 @@
+// src/api/errors.ts
+
+export type ErrorKind =
+    | "auth"
+    | "payloadTooLarge"
+    | "notFound"
+    | "rateLimited"
+    | "server"
+    | "network"
+    | "validation";
+
+export type RecoveryAction = "retry" | "compressAndRetry" | "signIn" | "goBack";
+
+// User-facing copy lives here, keyed by kind, so screens never show raw response text
+export const ERROR_MESSAGES: Record<ErrorKind, string> = {
+    auth: "Your session has expired. Please sign in again.",
+    payloadTooLarge: "This photo is too large for the server. Compress it and try again.",
+    notFound: "We couldn't find that inspection. It may have been deleted.",
+    rateLimited: "Too many requests right now. Please wait a moment and try again.",
+    server: "The server ran into a problem. Please try again shortly.",
+    network: "Couldn't reach the server. Check your connection and try again.",
+    validation: "The server sent a response we couldn't read. Please try again.",
+};
+
+export const ACTION_LABELS: Record<RecoveryAction, string> = {
+    retry: "Try Again",
+    compressAndRetry: "Compress & Retry",
+    signIn: "Sign In",
+    goBack: "Go Back",
+};
+
+const DEFAULT_ACTIONS: Record<ErrorKind, RecoveryAction> = {
+    auth: "signIn",
+    payloadTooLarge: "compressAndRetry",
+    notFound: "goBack",
+    rateLimited: "retry",
+    server: "retry",
+    network: "retry",
+    validation: "retry",
+};
+
+/** Base class for every failure the API layer surfaces to screens */
+export class ApiError extends Error {
+    kind: ErrorKind;
+    action: RecoveryAction;
+    /** HTTP status, or 0 when the request never got a response */
+    status: number;
+    /** Raw response text, kept for logging only */
+    body: string;
+
+    constructor(kind: ErrorKind, status = 0, body = "", message = ERROR_MESSAGES[kind]) {
+        super(message);
+        this.name = "ApiError";
+        this.kind = kind;
+        this.action = DEFAULT_ACTIONS[kind];
+        this.status = status;
+        this.body = body;
+    }
+}
+
+export class AuthError extends ApiError {
+    constructor(status = 401, body = "") {
+        super("auth", status, body);
+        this.name = "AuthError";
+    }
+}
+
+export class PayloadTooLargeError extends ApiError {
+    constructor(body = "") {
+        super("payloadTooLarge", 413, body);
+        this.name = "PayloadTooLargeError";
+    }
+}
+
+export class NotFoundError extends ApiError {
+    constructor(body = "") {
+        super("notFound", 404, body);
+        this.name = "NotFoundError";
+    }
+}
+
+export class RateLimitedError extends ApiError {
+    constructor(body = "") {
+        super("rateLimited", 429, body);
+        this.name = "RateLimitedError";
+    }
+}
+
+export class ServerError extends ApiError {
+    constructor(status: number, body = "") {
+        super("server", status, body);
+        this.name = "ServerError";
+    }
+}
+
+/** The request never reached the server, or no response came back */
+export class NetworkError extends ApiError {
+    constructor(message = ERROR_MESSAGES.network) {
+        super("network", 0, "", message);
+        this.name = "NetworkError";
+    }
+}
+
+export class TimeoutError extends NetworkError {
+    constructor() {
+        super("The server took too long to respond. Please try again.");
+        this.name = "TimeoutError";
+    }
+}
+
+/** The response arrived but did not match the expected shape */
+export class ValidationError extends ApiError {
+    /** Developer-facing description of what failed to parse */
+    detail: string;
+
+    constructor(status: number, detail = "") {
+        super("validation", status);
+        this.name = "ValidationError";
+        this.detail = detail;
+    }
+}
+
+/** Maps a non-2xx response onto the matching error class */
+export function errorForStatus(status: number, body: string): ApiError {
+    switch (status) {
+        case 401:
+        case 403:
+            return new AuthError(status, body);
+        case 404:
+            return new NotFoundError(body);
+        case 413:
+            return new PayloadTooLargeError(body);
+        case 429:
+            return new RateLimitedError(body);
+        case 400:
+        case 422:
+            return new ValidationError(status, body.slice(0, 300));
+        default:
+            return new ServerError(status, body);
+    }
+}
+
+/** True when the caller cancelled the request through its AbortSignal */
+export const isAbortError = (e: unknown) => e instanceof Error && e.name === "AbortError";
+
+export const abortError = () => {
+    const error = new Error("Request was cancelled.");
+    error.name = "AbortError";
+    return error;
+};
+
+/** Normalizes anything thrown by the API layer into an ApiError for display */
+export function toApiError(e: unknown): ApiError {
+    if (e instanceof ApiError) return e;
+    // fetch rejects with a TypeError when the network is unreachable
+    if (e instanceof TypeError) return new NetworkError();
+    return new ServerError(0, e instanceof Error ? e.message : String(e));
+}
@@ -0,0 +1,196 @@
+// src/api/mock/fixtures.ts
+import type { HazardCategory, ImageRegion, SafetyGrade, Severity } from "@/api/types";
+import { PRIORITY_BY_SEVERITY } from "@/utils/hazardReview";
+
+// Raw payloads as the backend sends them, before schema parsing
+
+interface RawHazard {
+    id: string;
+    description: string;
+    location: string;
+    category: HazardCategory;
+    severity: Severity;
+    immediateSolutions: string[];
+    longTermSolutions: string[];
+    estimatedCost: string | null;
+    timeToImplement: string | null;
+    priority: number;
+    photoIndex?: number;
+    regions?: ImageRegion[];
+}
+
+export interface RawAnalysis {
+    hazards: RawHazard[];
+    overallAssessment: {
+        riskScore: number;
+        safetyGrade: SafetyGrade;
+        topPriorities: string[];
+        complianceStandards: string[];
+    };
+    metadata: {
+        analysisTime: number;
+        tokensUsed: number;
+        confidence: number;
+    };
+}
+
+const hazard = (
+    id: string,
+    category: HazardCategory,
+    severity: Severity,
+    description: string,
+    location: string,
+    immediate: string,
+    longTerm: string,
+    region?: [x: number, y: number, width: number, height: number],
+): RawHazard => ({
+    id,
+    description,
+    location,
+    category,
+    severity,
+    immediateSolutions: [immediate],
+    longTermSolutions: [longTerm],
+    estimatedCost: severity === "Low" ? null : "$200 - $1,500",
+    timeToImplement: severity === "Critical" ? "Immediately" : "1-2 weeks",
+    priority: PRIORITY_BY_SEVERITY[severity],
+    regions: region ? [{ x: region[0], y: region[1], width: region[2], height: region[3] }] : undefined,
+});
+
+const analysis = (
+    riskScore: number,
+    safetyGrade: SafetyGrade,
+    hazards: RawHazard[],
+): RawAnalysis => ({
+    hazards,
+    overallAssessment: {
+        riskScore,
+        safetyGrade,
+        topPriorities: hazards.slice(0, 3).map((h) => h.description),
+        complianceStandards: ["OSHA 1926", "ISO 45001"],
+    },
+    metadata: {
+        analysisTime: 4200,
+        tokensUsed: 1830,
+        confidence: 0.87,
+    },
+});
+
+/**
+ * One analysis per safety grade. Together they cover every hazard category
+ * and every severity, so each badge and colour in the UI can be checked.
+ */
+export const ANALYSIS_FIXTURES: RawAnalysis[] = [
+    analysis(8, "A", [
+        hazard("a-1", "Other", "Low", "Loose cable cover near site office door", "Site office entrance", "Tape down the cable cover", "Install a recessed cable channel", [0.1, 0.62, 0.3, 0.2]),
+    ]),
+    analysis(31, "B", [
+        hazard("b-1", "PPE", "Medium", "Worker without high-visibility vest near vehicle route", "Delivery gate", "Issue a vest before re-entry", "Add PPE check to the gate induction", [0.55, 0.2, 0.2, 0.55]),
+        hazard("b-2", "Environmental", "Low", "Uncovered skip collecting rainwater", "North yard", "Cover the skip", "Schedule covered waste collection", [0.08, 0.45, 0.35, 0.35]),
+    ]),
+    analysis(54, "C", [
+        hazard("c-1", "Machinery", "High", "Angle grinder used with guard removed", "Workshop bench 2", "Stop work and refit the guard", "Add guard inspection to the daily tool check", [0.4, 0.35, 0.25, 0.25]),
+        hazard("c-2", "Chemical", "Medium", "Unlabelled solvent container on floor", "Paint store", "Label and move the container to the flammables cabinet", "Introduce a decanting and labelling procedure", [0.7, 0.6, 0.18, 0.3]),
+        hazard("c-3", "Electrical", "Low", "Extension lead daisy-chained to a second lead", "Level 1 corridor", "Replace with a single rated lead", "Install additional temporary outlets", [0.05, 0.75, 0.4, 0.15]),
+    ]),
+    analysis(73, "D", [
+        hazard("d-1", "Fire", "Critical", "Fire exit blocked by stacked pallets", "East stairwell exit", "Clear the exit route now", "Mark a no-storage zone in front of exits", [0.3, 0.25, 0.4, 0.6]),
+        hazard("d-2", "Fall", "High", "Scaffold platform missing toe boards", "Scaffold bay 3, level 2", "Restrict access to the bay", "Require scaffold tag sign-off before use", [0.05, 0.1, 0.3, 0.35]),
+        hazard("d-3", "PPE", "Medium", "Hearing protection not worn near concrete saw", "Slab cutting area", "Hand out ear defenders", "Post hearing protection zone signage", [0.72, 0.4, 0.2, 0.45]),
+    ]),
+    analysis(92, "F", [
+        hazard("f-1", "Fall", "Critical", "Unguarded open edge on roof deck", "Roof level, west edge", "Install temporary edge protection before any roof work", "Design permanent guardrails into the roof plan", [0.0, 0.15, 0.25, 0.7]),
+        hazard("f-2", "Electrical", "Critical", "Exposed live conductors in damaged distribution board", "Temporary power board B", "Isolate the board and call an electrician", "Move temporary boards to lockable enclosures", [0.45, 0.3, 0.2, 0.3]),
+        hazard("f-3", "Chemical", "High", "Open drum of concrete admixture with no spill bund", "Batching area", "Close the drum and place it in a bund", "Provide bunded storage for all liquid chemicals", [0.7, 0.55, 0.22, 0.3]),
+        hazard("f-4", "Machinery", "Medium", "Excavator operating without a banksman", "Basement excavation", "Assign a banksman before resuming", "Include banksman in the lift and dig plan", [0.3, 0.6, 0.35, 0.3]),
+        hazard("f-5", "Environmental", "Low", "Dust from cutting drifting across the site boundary", "South boundary fence", "Dampen the cutting area", "Use on-tool water suppression"),
+    ]),
+];
+
+// Checklist templates, with "No" answers raising hazards of the given severity and category
+type RawChecklistItem = [text: string, severity: Severity, category: HazardCategory];
+
+const checklistSection = (templateId: string, index: number, title: string, items: RawChecklistItem[]) => ({
+    id: `${templateId}-s${index + 1}`,
+    title,
+    items: items.map(([text, severity, category], itemIndex) => ({
+        id: `${templateId}-s${index + 1}-i${itemIndex + 1}`,
+        text,
+        severity,
+        category,
+    })),
+});
+
+const checklistTemplate = (
+    id: string,
+    name: string,
+    description: string,
+    sections: [title: string, items: RawChecklistItem[]][],
+) => ({
+    id,
+    name,
+    description,
+    sections: sections.map(([title, items], index) => checklistSection(id, index, title, items)),
+});
+
+export type RawChecklistTemplate = ReturnType<typeof checklistTemplate>;
+
+export const CHECKLIST_TEMPLATE_FIXTURES: RawChecklistTemplate[] = [
+    checklistTemplate("tpl-scaffolding", "Scaffolding", "Before first use and weekly after that", [
+        ["Tagging", [
+            ["Scaffold tag is present, signed and in date", "High", "Fall"],
+            ["Load rating on the tag suits the planned work", "Medium", "Fall"],
+        ]],
+        ["Platforms", [
+            ["Platforms are fully boarded with no gaps", "High", "Fall"],
+            ["Guardrails and mid-rails are fitted on open sides", "Critical", "Fall"],
+            ["Toe boards are fitted", "Medium", "Fall"],
+        ]],
+        ["Structure", [
+            ["Base plates and sole boards are on firm ground", "High", "Fall"],
+            ["Ties and bracing are in place as designed", "High", "Fall"],
+        ]],
+    ]),
+    checklistTemplate("tpl-forklift", "Forklift pre-use", "Operator check at the start of each shift", [
+        ["Visual", [
+            ["Forks, chains and mast are free of damage", "High", "Machinery"],
+            ["No hydraulic or fuel leaks", "Medium", "Machinery"],
+            ["Tyres are in good condition", "Medium", "Machinery"],
+        ]],
+        ["Operational", [
+            ["Brakes and parking brake work", "Critical", "Machinery"],
+            ["Horn, lights and reversing alarm work", "Medium", "Machinery"],
+            ["Seat belt is fitted and works", "High", "PPE"],
+        ]],
+    ]),
+    checklistTemplate("tpl-hot-work", "Hot work", "Before welding, cutting or grinding outside a workshop", [
+        ["Permit", [
+            ["Hot work permit is issued and in date", "High", "Fire"],
+            ["Fire watch is assigned for the work and 60 minutes after", "High", "Fire"],
+        ]],
+        ["Area", [
+            ["Combustibles within 11 m are removed or covered", "Critical", "Fire"],
+            ["Gas cylinders are upright and secured", "High", "Chemical"],
+            ["Fire extinguisher is within reach", "High", "Fire"],
+        ]],
+        ["Operator", [
+            ["Welding screen and face shield are in use", "Medium", "PPE"],
+        ]],
+    ]),
+    checklistTemplate("tpl-extinguishers", "Fire extinguishers", "Monthly check of every extinguisher on site", [
+        ["Access", [
+            ["Extinguisher is in its marked location", "Medium", "Fire"],
+            ["Nothing blocks access to it", "High", "Fire"],
+            ["Sign is visible above it", "Low", "Fire"],
+        ]],
+        ["Condition", [
+            ["Pressure gauge reads in the green", "High", "Fire"],
+            ["Safety pin and tamper seal are intact", "Medium", "Fire"],
+            ["Service label is within 12 months", "Medium", "Fire"],
+        ]],
+    ]),
+];
+
+export const MOCK_IMAGE_URL = (seed: string) => `https://picsum.photos/seed/${seed}/1200/900`;
+
+export const MOCK_LOCATION = { latitude: 51.50722, longitude: -0.1275, accuracy: 12 };
@@ -0,0 +1,18 @@
+// src/api/mock/scenarios.ts
+
+/**
+ * Base URLs that select the in-app mock backend. Kept apart from the mock
+ * server so listing them does not bundle the server and its fixtures.
+ */
+export const MOCK_SCHEME = "mock://";
+
+export type MockScenario = "default" | "slow" | "unauthorized" | "payload-too-large";
+
+export const MOCK_SCENARIOS: { scenario: MockScenario; label: string }[] = [
+    { scenario: "default", label: "Mock backend" },
+    { scenario: "slow", label: "Mock: slow responses" },
+    { scenario: "unauthorized", label: "Mock: always 401" },
+    { scenario: "payload-too-large", label: "Mock: uploads 413" },
+];
+
+export const isMockBaseUrl = (url: string) => url.startsWith(MOCK_SCHEME);
@@ -0,0 +1,630 @@
+// src/api/mock/server.ts
+import { abortError } from "@/api/errors";
+import { z } from "zod";
+import {
+    actionStatusSchema,
+    checklistAnswerEntrySchema,
+    checklistSectionSchema,
+    correctiveActionSchema,
+    hazardReviewSchema,
+    hazardSchema,
+    photoMetadataSchema,
+    siteContextSchema,
+} from "@/api/schemas";
+import type { ActionStatus, Checklist, Hazard, HazardReview, ProcessingStatus, Severity } from "@/api/types";
+import { checklistHazards, checklistItems } from "@/utils/checklist";
+import { adjustScore, combineHazards } from "@/utils/hazardReview";
+import {
+    ANALYSIS_FIXTURES,
+    CHECKLIST_TEMPLATE_FIXTURES,
+    MOCK_IMAGE_URL,
+    MOCK_LOCATION,
+    RawAnalysis,
+    RawChecklistTemplate,
+} from "@/api/mock/fixtures";
+import { MOCK_SCENARIOS, MOCK_SCHEME, MockScenario } from "@/api/mock/scenarios";
+
+/**
+ * In-app stand-in for the inspections backend. Selecting a `mock://<scenario>`
+ * base URL routes every request here instead of the network.
+ */
+
+// Splits `mock://slow/api/inspections/list?page=1` into its scenario, path and query
+const parseMockUrl = (url: string) => {
+    const host = url.slice(MOCK_SCHEME.length).split("/")[0];
+    const [path, search = ""] = url.slice(MOCK_SCHEME.length + host.length).split("?");
+    const scenario = MOCK_SCENARIOS.some((entry) => entry.scenario === host) ? (host as MockScenario) : "default";
+    return { scenario, path, query: new URLSearchParams(search) };
+};
+
+// How long a new inspection spends in each state before reaching its final status
+const PENDING_MS = 3000;
+const PROCESSING_MS = 8000;
+
+interface MockInspection {
+    id: string;
+    createdAt: string;
+    imageUrls: string[];
+    photoMetadata: unknown[] | null;
+    originalImageUrls: (string | null)[] | null;
+    siteContext: unknown | null;
+    siteId: string | null;
+    areaId: string | null;
+    analysis: RawAnalysis;
+    hazardReviews: HazardReview[];
+    inspectorHazards: Hazard[];
+    checklist: Checklist | null;
+    finalStatus: "completed" | "failed";
+    /** When the status timeline started; null for inspections that are already final */
+    startedAt: number | null;
+}
+
+interface MockSite {
+    id: string;
+    name: string;
+    areas: { id: string; siteId: string; name: string }[];
+}
+
+interface MockAction {
+    id: string;
+    inspectionId: string;
+    hazardId: string;
+    hazardDescription: string | null;
+    solution: string;
+    solutionType: "immediate" | "longTerm";
+    owner: string;
+    dueDate: string;
+    priority: Severity;
+    status: ActionStatus;
+    evidenceUrls: string[];
+    createdAt: string;
+    updatedAt: string;
+}
+
+type MockTemplate = RawChecklistTemplate & { updatedAt: string };
+
+// Request bodies, checked the way the backend checks them before anything is stored
+const uploadBodySchema = z.object({ base64: z.string().min(1) });
+
+const analyzeBodySchema = z.object({
+    imageUrls: z.array(z.string()).optional(),
+    imageUrl: z.string().optional(),
+    originalImageUrls: z.array(z.string().nullable()).nullish(),
+    photoMetadata: z.array(photoMetadataSchema.nullable()).nullish(),
+    siteContext: siteContextSchema.nullish(),
+    siteId: z.string().nullish(),
+    areaId: z.string().nullish(),
+    checklist: z.unknown(),
+});
+
+const checklistSubmissionSchema = z.object({
+    templateId: z.string(),
+    answers: z.array(checklistAnswerEntrySchema),
+});
+
+const nameBodySchema = z.object({ name: z.string().trim().min(1) });
+
+const templateBodySchema = z.object({
+    name: z.string().trim().min(1),
+    description: z.string().nullish(),
+    sections: z.array(checklistSectionSchema),
+});
+
+const actionChangesSchema = correctiveActionSchema
+    .pick({ owner: true, dueDate: true, priority: true, status: true })
+    .extend({ evidenceUrls: z.array(z.string()) })
+    .partial();
+
+const newActionBodySchema = correctiveActionSchema
+    .pick({
+        inspectionId: true,
+        hazardId: true,
+        hazardDescription: true,
+        solution: true,
+        solutionType: true,
+        owner: true,
+        dueDate: true,
+        priority: true,
+    })
+    .extend({
+        status: actionStatusSchema.default("open"),
+        evidenceUrls: z.array(z.string()).default([]),
+    });
+
+const newHazardBodySchema = hazardSchema.omit({ id: true, source: true });
+
+const reviewBodySchema = hazardReviewSchema.omit({ hazardId: true, reviewedAt: true });
+
+const store = new Map<string, MockInspection>();
+const sites = new Map<string, MockSite>();
+const actions = new Map<string, MockAction>();
+const templates = new Map<string, MockTemplate>();
+let nextFixture = 0;
+
+const createId = () => `mock-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const SEED_SITES: { id: string; name: string; areas: string[] }[] = [
+    { id: "site-riverside", name: "Riverside Distribution Centre", areas: ["Loading bay", "Racking aisles"] },
+    { id: "site-north", name: "North Refinery", areas: ["Tank farm", "Process unit 4"] },
+];
+
+function seed() {
+    if (store.size > 0) return;
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+
+    for (const { id, name, areas } of SEED_SITES) {
+        sites.set(id, {
+            id,
+            name,
+            areas: areas.map((area, index) => ({ id: `${id}-area-${index + 1}`, siteId: id, name: area })),
+        });
+    }
+    for (const template of CHECKLIST_TEMPLATE_FIXTURES) {
+        templates.set(template.id, { ...template, updatedAt: new Date(now - 30 * day).toISOString() });
+    }
+    // Cycles the seeded inspections through the areas, leaving the last ones unfiled
+    const seedPlaces = Array.from(sites.values()).flatMap((site) =>
+        site.areas.map((area) => ({ siteId: site.id, areaId: area.id })),
+    );
+
+    ANALYSIS_FIXTURES.forEach((analysis, index) => {
+        const id = `mock-seed-${analysis.overallAssessment.safetyGrade.toLowerCase()}`;
+        store.set(id, {
+            id,
+            createdAt: new Date(now - (index + 1) * day).toISOString(),
+            imageUrls: [MOCK_IMAGE_URL(id)],
+            photoMetadata: [{ capturedAt: new Date(now - (index + 1) * day).toISOString(), location: MOCK_LOCATION }],
+            originalImageUrls: null,
+            siteContext: null,
+            siteId: seedPlaces[index]?.siteId ?? null,
+            areaId: seedPlaces[index]?.areaId ?? null,
+            analysis,
+            hazardReviews: [],
+            inspectorHazards: [],
+            checklist: null,
+            finalStatus: "completed",
+            startedAt: null,
+        });
+    });
+
+    store.set("mock-seed-failed", {
+        id: "mock-seed-failed",
+        createdAt: new Date(now - 7 * day).toISOString(),
+        imageUrls: [MOCK_IMAGE_URL("mock-seed-failed")],
+        photoMetadata: null,
+        originalImageUrls: null,
+        siteContext: null,
+        siteId: null,
+        areaId: null,
+        analysis: ANALYSIS_FIXTURES[0],
+        hazardReviews: [],
+        inspectorHazards: [],
+        checklist: null,
+        finalStatus: "failed",
+        startedAt: null,
+    });
+
+    // Walks through pending → processing → completed while the app polls it
+    store.set("mock-seed-pending", {
+        id: "mock-seed-pending",
+        createdAt: new Date(now).toISOString(),
+        imageUrls: [1, 2, 3].map((n) => MOCK_IMAGE_URL(`mock-seed-pending-${n}`)),
+        // The middle photo shows an inspector opting out
+        photoMetadata: [{ capturedAt: new Date(now).toISOString(), location: MOCK_LOCATION }, null, { capturedAt: new Date(now).toISOString() }],
+        originalImageUrls: [null, MOCK_IMAGE_URL("mock-seed-pending-2-original"), null],
+        siteContext: {
+            site: "Riverside Distribution Centre",
+            activity: "Racking installation",
+            industry: "Warehousing",
+            regulations: "OSHA 1910 Subpart D",
+        },
+        siteId: "site-riverside",
+        areaId: "site-riverside-area-2",
+        analysis: withPhotoIndexes(ANALYSIS_FIXTURES[2], 3),
+        hazardReviews: [],
+        inspectorHazards: [],
+        checklist: null,
+        finalStatus: "completed",
+        startedAt: now,
+    });
+
+    // One overdue and one upcoming action, both from the first seeded inspection
+    const [first] = ANALYSIS_FIXTURES;
+    const firstId = `mock-seed-${first.overallAssessment.safetyGrade.toLowerCase()}`;
+    const seedActions: Pick<MockAction, "hazardId" | "hazardDescription" | "solution" | "solutionType" | "dueDate" | "status" | "priority">[] = [
+        {
+            hazardId: first.hazards[0].id,
+            hazardDescription: first.hazards[0].description,
+            solution: first.hazards[0].immediateSolutions[0],
+            solutionType: "immediate",
+            dueDate: new Date(now - 2 * day).toISOString().slice(0, 10),
+            status: "open",
+            priority: first.hazards[0].severity,
+        },
+        {
+            hazardId: first.hazards[0].id,
+            hazardDescription: first.hazards[0].description,
+            solution: first.hazards[0].longTermSolutions[0],
+            solutionType: "longTerm",
+            dueDate: new Date(now + 14 * day).toISOString().slice(0, 10),
+            status: "in_progress",
+            priority: "Medium",
+        },
+    ];
+    seedActions.forEach((action, index) => {
+        const id = `mock-action-${index + 1}`;
+        const createdAt = new Date(now - day).toISOString();
+        actions.set(id, {
+            ...action,
+            id,
+            inspectionId: firstId,
+            owner: "Site supervisor",
+            evidenceUrls: [],
+            createdAt,
+            updatedAt: createdAt,
+        });
+    });
+}
+
+// Spreads the hazards across the photos the way the backend attributes them
+function withPhotoIndexes(analysis: RawAnalysis, photoCount: number): RawAnalysis {
+    if (photoCount < 2) return analysis;
+    return {
+        ...analysis,
+        hazards: analysis.hazards.map((hazard, index) => ({ ...hazard, photoIndex: index % photoCount })),
+    };
+}
+
+const statusOf = (item: MockInspection): ProcessingStatus => {
+    if (item.startedAt === null) return item.finalStatus;
+    const elapsed = Date.now() - item.startedAt;
+    if (elapsed < PENDING_MS) return "pending";
+    if (elapsed < PROCESSING_MS) return "processing";
+    return item.finalStatus;
+};
+
+// Resolves the stored ids to the `{ id, name }` refs the API embeds
+const placesOf = (item: MockInspection) => {
+    const site = item.siteId ? sites.get(item.siteId) : undefined;
+    const area = site?.areas.find((entry) => entry.id === item.areaId);
+    return {
+        site: site ? { id: site.id, name: site.name } : null,
+        area: area ? { id: area.id, name: area.name } : null,
+    };
+};
+
+// The AI's figures, adjusted once an inspector changes a severity, dismisses a hazard,
+// adds one or fails a checklist item
+const scoreOf = (item: MockInspection) => {
+    const { overallAssessment, hazards } = item.analysis;
+    const failedItems = item.checklist ? checklistHazards(item.checklist.sections, item.checklist.answers) : [];
+    const combined = combineHazards(hazards, item.hazardReviews, item.inspectorHazards, failedItems);
+    return adjustScore(overallAssessment.riskScore, combined) ?? {
+        hazardCount: hazards.length,
+        riskScore: overallAssessment.riskScore,
+        safetyGrade: overallAssessment.safetyGrade,
+    };
+};
+
+// Snapshots the template with the answers given, so later edits to it leave the inspection alone
+const checklistFrom = (submission: unknown): Checklist | null => {
+    const parsed = checklistSubmissionSchema.safeParse(submission);
+    const template = parsed.success ? templates.get(parsed.data.templateId) : undefined;
+    if (!parsed.success || !template) return null;
+    const itemIds = new Set(checklistItems(template.sections).map(({ item }) => item.id));
+    return {
+        templateId: template.id,
+        templateName: template.name,
+        sections: template.sections,
+        answers: parsed.data.answers.filter((answer) => itemIds.has(answer.itemId)),
+    };
+};
+
+const summarize = (item: MockInspection) => {
+    const processingStatus = statusOf(item);
+    const done = processingStatus === "completed";
+    const score = scoreOf(item);
+    return {
+        id: item.id,
+        createdAt: item.createdAt,
+        imageUrl: item.imageUrls[0],
+        ...placesOf(item),
+        hazardCount: done ? score.hazardCount : null,
+        riskScore: done ? score.riskScore : null,
+        safetyGrade: done ? score.safetyGrade : null,
+        processingStatus,
+    };
+};
+
+const detail = (item: MockInspection) => {
+    const summary = summarize(item);
+    return {
+        ...summary,
+        updatedAt: new Date().toISOString(),
+        imageUrls: item.imageUrls,
+        photoMetadata: item.photoMetadata,
+        userId: "mock-user",
+        originalImageUrl: item.originalImageUrls?.[0] ?? null,
+        originalImageUrls: item.originalImageUrls,
+        siteContext: item.siteContext,
+        hazardReviews: item.hazardReviews,
+        inspectorHazards: item.inspectorHazards,
+        checklist: item.checklist,
+        analysisResults: summary.processingStatus === "completed" ? item.analysis : null,
+    };
+};
+
+const json = (status: number, body: unknown) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { "Content-Type": "application/json" },
+    });
+
+const delay = (ms: number, signal?: AbortSignal | null) =>
+    new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) return reject(abortError());
+        const timer = setTimeout(() => {
+            signal?.removeEventListener("abort", onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener("abort", onAbort);
+    });
+
+// Analysis takes noticeably longer than the other endpoints, as it does for real
+const latencyFor = (scenario: MockScenario, path: string) => {
+    const analyze = path === "/api/inspections/analyze";
+    if (scenario === "slow") return analyze ? 45_000 : 8000;
+    return analyze ? 2500 : 300 + Math.random() * 500;
+};
+
+function route(method: string, path: string, query: URLSearchParams, body: unknown, scenario: MockScenario): Response {
+    if (scenario === "unauthorized") {
+        return json(401, { ok: false, error: "Unauthorized" });
+    }
+
+    if (method === "POST" && path === "/api/uploads/base64") {
+        if (scenario === "payload-too-large") return json(413, { ok: false, error: "Payload too large" });
+        const upload = uploadBodySchema.safeParse(body);
+        if (!upload.success) return json(400, { ok: false, error: "Missing image" });
+        return json(200, { ok: true, url: `data:image/jpeg;base64,${upload.data.base64}` });
+    }
+
+    if (method === "POST" && path === "/api/inspections/analyze") {
+        const parsed = analyzeBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Invalid analysis request" });
+        const input = parsed.data;
+        const imageUrls = input.imageUrls ?? (input.imageUrl ? [input.imageUrl] : []);
+        if (imageUrls.length === 0) return json(400, { ok: false, error: "Missing imageUrl" });
+
+        const analysis = withPhotoIndexes(
+            ANALYSIS_FIXTURES[nextFixture++ % ANALYSIS_FIXTURES.length],
+            imageUrls.length,
+        );
+        const site = input.siteId ? sites.get(input.siteId) : undefined;
+        const checklist = checklistFrom(input.checklist);
+        if (input.checklist && !checklist) return json(400, { ok: false, error: "Invalid checklist" });
+        const item: MockInspection = {
+            id: createId(),
+            createdAt: new Date().toISOString(),
+            imageUrls,
+            photoMetadata: input.photoMetadata ?? null,
+            originalImageUrls: input.originalImageUrls ?? null,
+            siteContext: input.siteContext ?? null,
+            siteId: site?.id ?? null,
+            areaId: site?.areas.find((area) => area.id === input.areaId)?.id ?? null,
+            analysis,
+            hazardReviews: [],
+            inspectorHazards: [],
+            checklist,
+            finalStatus: "completed",
+            startedAt: Date.now(),
+        };
+        store.set(item.id, item);
+
+        return json(200, {
+            ok: true,
+            inspection: {
+                id: item.id,
+                createdAt: item.createdAt,
+                imageUrl: imageUrls[0],
+                imageUrls,
+                ...scoreOf(item),
+            },
+            analysis,
+        });
+    }
+
+    if (method === "GET" && path === "/api/inspections/list") {
+        const page = Math.max(Number(query.get("page")) || 1, 1);
+        const pageSize = Math.max(Number(query.get("pageSize")) || 20, 1);
+        const siteId = query.get("siteId");
+        const all = Array.from(store.values())
+            .filter((item) => !siteId || item.siteId === siteId)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+        return json(200, {
+            ok: true,
+            inspections: all.slice((page - 1) * pageSize, page * pageSize).map(summarize),
+            page,
+            pageSize,
+            totalCount: all.length,
+        });
+    }
+
+    if (method === "GET" && path === "/api/sites") {
+        return json(200, { ok: true, sites: Array.from(sites.values()) });
+    }
+
+    if (method === "POST" && path === "/api/sites") {
+        const parsed = nameBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Site name is required" });
+        const site: MockSite = { id: createId(), name: parsed.data.name, areas: [] };
+        sites.set(site.id, site);
+        return json(200, { ok: true, site });
+    }
+
+    const areaMatch = path.match(/^\/api\/sites\/([^/]+)\/areas$/);
+    if (method === "POST" && areaMatch) {
+        const site = sites.get(decodeURIComponent(areaMatch[1]));
+        if (!site) return json(404, { ok: false, error: "Site not found" });
+        const parsed = nameBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Area name is required" });
+        const area = { id: createId(), siteId: site.id, name: parsed.data.name };
+        site.areas.push(area);
+        return json(200, { ok: true, area });
+    }
+
+    if (method === "GET" && path === "/api/checklists/templates") {
+        const all = Array.from(templates.values()).sort((a, b) => a.name.localeCompare(b.name));
+        // The mock user manages templates so the editor can be tried out
+        return json(200, { ok: true, templates: all, canManage: true });
+    }
+
+    const templateMatch = path.match(/^\/api\/checklists\/templates(?:\/([^/]+))?$/);
+    if ((method === "POST" && templateMatch && !templateMatch[1]) || (method === "PUT" && templateMatch?.[1])) {
+        const id = templateMatch[1] ? decodeURIComponent(templateMatch[1]) : createId();
+        if (method === "PUT" && !templates.has(id)) return json(404, { ok: false, error: "Template not found" });
+        const parsed = templateBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Template name and sections are required" });
+        if (checklistItems(parsed.data.sections).length === 0) {
+            return json(400, { ok: false, error: "A template needs at least one item" });
+        }
+        const template: MockTemplate = {
+            id,
+            name: parsed.data.name,
+            description: parsed.data.description ?? "",
+            sections: parsed.data.sections,
+            updatedAt: new Date().toISOString(),
+        };
+        templates.set(id, template);
+        return json(200, { ok: true, template });
+    }
+
+    if (method === "DELETE" && templateMatch?.[1]) {
+        if (!templates.delete(decodeURIComponent(templateMatch[1]))) {
+            return json(404, { ok: false, error: "Template not found" });
+        }
+        return json(200, { ok: true });
+    }
+
+    if (method === "GET" && path === "/api/actions") {
+        const inspectionId = query.get("inspectionId");
+        const statuses = query.get("status")?.split(",").filter(Boolean) ?? [];
+        const matching = Array.from(actions.values())
+            .filter((action) => !inspectionId || action.inspectionId === inspectionId)
+            .filter((action) => statuses.length === 0 || statuses.includes(action.status))
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
+        return json(200, { ok: true, actions: matching });
+    }
+
+    if (method === "POST" && path === "/api/actions") {
+        const parsed = newActionBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Solution, owner and due date are required" });
+        if (!store.has(parsed.data.inspectionId)) return json(404, { ok: false, error: "Inspection not found" });
+        const createdAt = new Date().toISOString();
+        const action: MockAction = {
+            ...parsed.data,
+            id: createId(),
+            hazardDescription: parsed.data.hazardDescription ?? null,
+            createdAt,
+            updatedAt: createdAt,
+        };
+        actions.set(action.id, action);
+        return json(200, { ok: true, action });
+    }
+
+    const actionMatch = path.match(/^\/api\/actions\/([^/]+)$/);
+    if (method === "PATCH" && actionMatch) {
+        const action = actions.get(decodeURIComponent(actionMatch[1]));
+        if (!action) return json(404, { ok: false, error: "Action not found" });
+        const changes = actionChangesSchema.safeParse(body);
+        if (!changes.success) return json(400, { ok: false, error: "Invalid action changes" });
+        const updated: MockAction = { ...action, ...changes.data, updatedAt: new Date().toISOString() };
+        actions.set(updated.id, updated);
+        return json(200, { ok: true, action: updated });
+    }
+
+    const hazardsMatch = path.match(/^\/api\/inspections\/([^/]+)\/hazards$/);
+    if (method === "POST" && hazardsMatch) {
+        const item = store.get(decodeURIComponent(hazardsMatch[1]));
+        if (!item) return json(404, { ok: false, error: "Not found" });
+        const parsed = newHazardBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Invalid hazard" });
+        const hazard: Hazard = { ...parsed.data, id: createId(), source: "inspector" };
+        item.inspectorHazards = [...item.inspectorHazards, hazard];
+        return json(200, { ok: true, hazard });
+    }
+
+    const hazardMatch = path.match(/^\/api\/inspections\/([^/]+)\/hazards\/([^/]+)$/);
+    if (method === "DELETE" && hazardMatch) {
+        const item = store.get(decodeURIComponent(hazardMatch[1]));
+        const hazardId = decodeURIComponent(hazardMatch[2]);
+        if (!item || !item.inspectorHazards.some((hazard) => hazard.id === hazardId)) {
+            return json(404, { ok: false, error: "Hazard not found" });
+        }
+        item.inspectorHazards = item.inspectorHazards.filter((hazard) => hazard.id !== hazardId);
+        return json(200, { ok: true });
+    }
+
+    const reviewMatch = path.match(/^\/api\/inspections\/([^/]+)\/hazards\/([^/]+)\/review$/);
+    if ((method === "PUT" || method === "DELETE") && reviewMatch) {
+        const item = store.get(decodeURIComponent(reviewMatch[1]));
+        const hazardId = decodeURIComponent(reviewMatch[2]);
+        if (!item || !item.analysis.hazards.some((hazard) => hazard.id === hazardId)) {
+            return json(404, { ok: false, error: "Hazard not found" });
+        }
+        const others = item.hazardReviews.filter((review) => review.hazardId !== hazardId);
+        if (method === "DELETE") {
+            item.hazardReviews = others;
+            return json(200, { ok: true });
+        }
+
+        const parsed = reviewBodySchema.safeParse(body);
+        if (!parsed.success) return json(400, { ok: false, error: "Invalid review" });
+        if (parsed.data.dismissed && !parsed.data.dismissReason?.trim()) {
+            return json(400, { ok: false, error: "A reason is required to dismiss a hazard" });
+        }
+        const review: HazardReview = { ...parsed.data, hazardId, reviewedAt: new Date().toISOString() };
+        item.hazardReviews = [...others, review];
+        return json(200, { ok: true, review });
+    }
+
+    const match = path.match(/^\/api\/inspections\/([^/]+)$/);
+    if (method === "GET" && match) {
+        const item = store.get(decodeURIComponent(match[1]));
+        if (!item) return json(404, { ok: false, error: "Not found" });
+        return json(200, { ok: true, inspection: detail(item) });
+    }
+
+    return json(404, { ok: false, error: `No mock route for ${method} ${path}` });
+}
+
+/** Drop-in replacement for `fetch` that answers from the in-memory store */
+export async function mockFetch(url: string, init: RequestInit = {}): Promise<Response> {
+    seed();
+
+    const { scenario, path, query } = parseMockUrl(url);
+    const method = (init.method ?? "GET").toUpperCase();
+
+    await delay(latencyFor(scenario, path), init.signal);
+
+    const headers = (init.headers ?? {}) as Record<string, string>;
+    if (!headers.Authorization) {
+        return json(401, { ok: false, error: "Missing bearer token" });
+    }
+
+    let body: unknown = null;
+    if (typeof init.body === "string") {
+        try {
+            body = JSON.parse(init.body);
+        } catch {
+            return json(400, { ok: false, error: "Invalid JSON body" });
+        }
+    }
+
+    return route(method, path, query, body, scenario);
+}
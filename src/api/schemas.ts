@@ -0,0 +1,398 @@
+// src/api/schemas.ts
+import { z } from "zod";
+
+// Enums
+export const hazardCategorySchema = z.enum([
+    "PPE", "Fall", "Fire", "Electrical", "Chemical", "Machinery", "Environmental", "Other",
+]);
+export const severitySchema = z.enum(["Critical", "High", "Medium", "Low"]);
+export const safetyGradeSchema = z.enum(["A", "B", "C", "D", "F"]);
+export const processingStatusSchema = z.enum(["pending", "processing", "completed", "failed"]);
+export const hazardSourceSchema = z.enum(["ai", "inspector", "checklist"]);
+
+export const isFinalStatus = (status: z.infer<typeof processingStatusSchema>) =>
+    status === "completed" || status === "failed";
+
+// Photo evidence
+export const photoLocationSchema = z.object({
+    latitude: z.number(),
+    longitude: z.number(),
+    /** Horizontal accuracy in metres, when the device reported one */
+    accuracy: z.number().nullish(),
+});
+
+export const photoMetadataSchema = z.object({
+    capturedAt: z.string().nullish(),
+    location: photoLocationSchema.nullish(),
+});
+
+/** Rectangle on a photo, in fractions of the image size measured from the top left */
+export const imageRegionSchema = z.object({
+    x: z.number(),
+    y: z.number(),
+    width: z.number(),
+    height: z.number(),
+});
+
+/** Area of a photo the inspector marked up */
+export const focusRegionSchema = imageRegionSchema.extend({
+    label: z.string().nullish(),
+});
+
+// Sites
+export const areaSchema = z.object({
+    id: z.string(),
+    siteId: z.string(),
+    name: z.string(),
+});
+
+export const siteSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    areas: z.array(areaSchema).catch([]),
+});
+
+/** Site or area as embedded in an inspection, by id and display name */
+export const placeRefSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+});
+
+// Site context
+/** What the inspector told the analysis about the site; every field is optional */
+export const siteContextSchema = z.object({
+    site: z.string().nullish(),
+    activity: z.string().nullish(),
+    industry: z.string().nullish(),
+    regulations: z.string().nullish(),
+    notes: z.string().nullish(),
+});
+
+// Checklists
+export const checklistAnswerSchema = z.enum(["yes", "no", "na"]);
+
+export const checklistItemSchema = z.object({
+    id: z.string(),
+    text: z.string(),
+    /** Severity and category of the hazard raised when the item is answered "No" */
+    severity: severitySchema.catch("Medium"),
+    category: hazardCategorySchema.catch("Other"),
+});
+
+export const checklistSectionSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    items: z.array(checklistItemSchema),
+});
+
+export const checklistTemplateSchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    description: z.string().nullish(),
+    sections: z.array(checklistSectionSchema),
+    updatedAt: z.string(),
+});
+
+export const checklistAnswerEntrySchema = z.object({
+    itemId: z.string(),
+    answer: checklistAnswerSchema,
+    /** What was wrong, for items answered "No" */
+    note: z.string().nullish(),
+});
+
+/** A template as answered on one inspection; its sections are copied so later template edits leave it alone */
+export const checklistSchema = z.object({
+    templateId: z.string(),
+    templateName: z.string(),
+    sections: z.array(checklistSectionSchema),
+    answers: z.array(checklistAnswerEntrySchema),
+});
+
+// Corrective actions
+export const actionStatusSchema = z.enum(["open", "in_progress", "done", "verified"]);
+export const solutionTypeSchema = z.enum(["immediate", "longTerm"]);
+
+/** Open and in-progress actions still need someone to act on them */
+export const isOpenActionStatus = (status: z.infer<typeof actionStatusSchema>) =>
+    status === "open" || status === "in_progress";
+
+/** A hazard's suggested solution, assigned to someone to carry out */
+export const correctiveActionSchema = z.object({
+    id: z.string(),
+    inspectionId: z.string(),
+    hazardId: z.string(),
+    /** Copied from the hazard so the action can be listed without its inspection */
+    hazardDescription: z.string().nullish(),
+    solution: z.string(),
+    solutionType: solutionTypeSchema,
+    owner: z.string(),
+    /** Calendar date, YYYY-MM-DD */
+    dueDate: z.string(),
+    /** Uses the severity scale so it can default to the hazard's */
+    priority: severitySchema,
+    status: actionStatusSchema,
+    /** Photos showing the fix; malformed lists are dropped rather than the action */
+    evidenceUrls: z.array(z.string()).catch([]),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+});
+
+// Analysis payload
+export const hazardSchema = z.object({
+    id: z.string(),
+    description: z.string(),
+    location: z.string(),
+    category: hazardCategorySchema,
+    severity: severitySchema,
+    immediateSolutions: z.array(z.string()),
+    longTermSolutions: z.array(z.string()),
+    estimatedCost: z.string().nullish(),
+    timeToImplement: z.string().nullish(),
+    priority: z.number(),
+    /** Zero-based index into the inspection's photos; absent for single-photo inspections */
+    photoIndex: z.number().int().nonnegative().nullish(),
+    /** Where the hazard appears on its photo; malformed regions are dropped rather than the hazard */
+    regions: z.array(imageRegionSchema).nullish().catch(null),
+    /** Who reported it; absent means the AI */
+    source: hazardSourceSchema.nullish().catch(null),
+});
+
+/**
+ * An inspector's correction to one AI hazard. Only the fields they changed are
+ * set; the hazard in `analysisResults` keeps the AI's original values.
+ */
+export const hazardReviewSchema = z.object({
+    hazardId: z.string(),
+    severity: severitySchema.nullish(),
+    category: hazardCategorySchema.nullish(),
+    description: z.string().nullish(),
+    location: z.string().nullish(),
+    /** Not a hazard at all; left out of the count and score */
+    dismissed: z.boolean().default(false),
+    dismissReason: z.string().nullish(),
+    reviewedAt: z.string(),
+});
+
+export const overallSchema = z.object({
+    riskScore: z.number(),
+    safetyGrade: safetyGradeSchema,
+    topPriorities: z.array(z.string()),
+    complianceStandards: z.array(z.string()).nullish(),
+});
+
+export const analysisMetadataSchema = z.object({
+    analysisTime: z.number(),
+    tokensUsed: z.number(),
+    confidence: z.number(),
+});
+
+type Hazard = z.infer<typeof hazardSchema>;
+type Overall = z.infer<typeof overallSchema>;
+type AnalysisMetadata = z.infer<typeof analysisMetadataSchema>;
+
+export interface AnalysisResult {
+    hazards: Hazard[];
+    overallAssessment: Overall | null;
+    metadata: AnalysisMetadata | null;
+    /** True when parts of the payload failed validation and were dropped */
+    partial: boolean;
+    issues: string[];
+}
+
+const describeIssue = (label: string, error: z.ZodError) => {
+    const first = error.issues[0];
+    const path = first?.path.length ? `.${first.path.join(".")}` : "";
+    return `${label}${path}: ${first?.message ?? "invalid"}`;
+};
+
+/**
+ * Validates an analysis payload piece by piece, keeping every valid hazard
+ * instead of rejecting the whole result when one part is malformed.
+ */
+export function parseAnalysisResult(raw: unknown): AnalysisResult {
+    const source = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+    const issues: string[] = [];
+
+    const hazards: Hazard[] = [];
+    if (Array.isArray(source.hazards)) {
+        source.hazards.forEach((item, index) => {
+            const parsed = hazardSchema.safeParse(item);
+            if (parsed.success) {
+                hazards.push(parsed.data);
+            } else {
+                issues.push(describeIssue(`hazards[${index}]`, parsed.error));
+            }
+        });
+    } else {
+        issues.push("hazards: missing or not a list");
+    }
+
+    const overall = overallSchema.safeParse(source.overallAssessment);
+    if (!overall.success) issues.push(describeIssue("overallAssessment", overall.error));
+
+    const metadata = analysisMetadataSchema.safeParse(source.metadata);
+    if (!metadata.success) issues.push(describeIssue("metadata", metadata.error));
+
+    if (issues.length > 0) {
+        console.warn("Analysis payload failed validation:", issues);
+    }
+
+    return {
+        hazards,
+        overallAssessment: overall.success ? overall.data : null,
+        metadata: metadata.success ? metadata.data : null,
+        partial: issues.length > 0,
+        issues,
+    };
+}
+
+const analysisResultSchema = z.unknown().transform(parseAnalysisResult);
+
+// Inspections
+export const inspectionSchema = z.object({
+    id: z.string(),
+    createdAt: z.string(),
+    updatedAt: z.string(),
+    userId: z.string(),
+    imageUrl: z.string(),
+    imageUrls: z.array(z.string()).nullish(),
+    /** Aligned with `imageUrls`; null where the inspector opted out for that photo */
+    photoMetadata: z.array(photoMetadataSchema.nullable()).nullish(),
+    originalImageUrl: z.string().nullish(),
+    /** Unannotated originals aligned with `imageUrls`; null where the photo was not marked up */
+    originalImageUrls: z.array(z.string().nullable()).nullish(),
+    /** Malformed context is dropped rather than the inspection */
+    siteContext: siteContextSchema.nullish().catch(null),
+    site: placeRefSchema.nullish().catch(null),
+    area: placeRefSchema.nullish().catch(null),
+    hazardCount: z.number().nullable(),
+    riskScore: z.number().nullable(),
+    safetyGrade: safetyGradeSchema.nullable(),
+    /** Inspector corrections to the AI hazards; malformed entries are dropped rather than the inspection */
+    hazardReviews: z.array(hazardReviewSchema).nullish().catch(null),
+    /** Hazards the inspector added by hand; kept apart from the AI's result */
+    inspectorHazards: z.array(hazardSchema).nullish().catch(null),
+    /** The checklist the inspection was started from, with its answers */
+    checklist: checklistSchema.nullish().catch(null),
+    analysisResults: z.unknown().transform((value) => (value == null ? null : parseAnalysisResult(value))),
+    processingStatus: processingStatusSchema,
+});
+
+/** Every photo of an inspection; older single-photo inspections only have `imageUrl` */
+export const inspectionImageUrls = (inspection: { imageUrl: string; imageUrls?: string[] | null }) =>
+    inspection.imageUrls?.length ? inspection.imageUrls : [inspection.imageUrl];
+
+/** The unannotated original of each photo, or null where the photo was not marked up */
+export const inspectionOriginalUrls = (inspection: {
+    imageUrl: string;
+    imageUrls?: string[] | null;
+    originalImageUrl?: string | null;
+    originalImageUrls?: (string | null)[] | null;
+}) =>
+    inspectionImageUrls(inspection).map((_, i) =>
+        inspection.originalImageUrls?.[i] ?? (i === 0 ? inspection.originalImageUrl ?? null : null),
+    );
+
+export const inspectionSummarySchema = z.object({
+    id: z.string(),
+    createdAt: z.string(),
+    imageUrl: z.string(),
+    site: placeRefSchema.nullish().catch(null),
+    area: placeRefSchema.nullish().catch(null),
+    hazardCount: z.number().nullable(),
+    riskScore: z.number().nullable(),
+    safetyGrade: safetyGradeSchema.nullable(),
+    processingStatus: processingStatusSchema,
+});
+
+// Response payloads
+export const uploadResponseSchema = z.object({
+    ok: z.boolean(),
+    url: z.string().min(1, "Upload response missing URL."),
+});
+
+export const analyzeResponseSchema = z.object({
+    ok: z.boolean(),
+    inspection: z.object({
+        id: z.string(),
+        createdAt: z.string(),
+        imageUrl: z.string(),
+        imageUrls: z.array(z.string()).nullish(),
+        hazardCount: z.number(),
+        riskScore: z.number(),
+        safetyGrade: safetyGradeSchema,
+    }),
+    analysis: analysisResultSchema,
+    usage: z.any().optional(),
+});
+
+export const listResponseSchema = z.object({
+    ok: z.boolean(),
+    // Rows that fail validation are skipped rather than failing the whole list
+    inspections: z.array(z.unknown()).transform((items) =>
+        items.flatMap((item) => {
+            const parsed = inspectionSummarySchema.safeParse(item);
+            if (!parsed.success) console.warn("Skipping invalid inspection row:", parsed.error.issues[0]);
+            return parsed.success ? [parsed.data] : [];
+        }),
+    ),
+    page: z.number(),
+    pageSize: z.number(),
+    totalCount: z.number().optional(),
+});
+
+export const inspectionResponseSchema = z.object({
+    ok: z.boolean(),
+    inspection: inspectionSchema,
+});
+
+export const sitesResponseSchema = z.object({
+    ok: z.boolean(),
+    sites: z.array(siteSchema),
+});
+
+export const siteResponseSchema = z.object({
+    ok: z.boolean(),
+    site: siteSchema,
+});
+
+export const areaResponseSchema = z.object({
+    ok: z.boolean(),
+    area: areaSchema,
+});
+
+export const actionsResponseSchema = z.object({
+    ok: z.boolean(),
+    actions: z.array(correctiveActionSchema),
+});
+
+export const actionResponseSchema = z.object({
+    ok: z.boolean(),
+    action: correctiveActionSchema,
+});
+
+export const hazardReviewResponseSchema = z.object({
+    ok: z.boolean(),
+    review: hazardReviewSchema,
+});
+
+export const okResponseSchema = z.object({
+    ok: z.boolean(),
+});
+
+export const hazardResponseSchema = z.object({
+    ok: z.boolean(),
+    hazard: hazardSchema,
+});
+
+export const checklistTemplatesResponseSchema = z.object({
+    ok: z.boolean(),
+    templates: z.array(checklistTemplateSchema),
+    /** Whether this user may create, edit and delete templates */
+    canManage: z.boolean().catch(false),
+});
+
+export const checklistTemplateResponseSchema = z.object({
+    ok: z.boolean(),
+    template: checklistTemplateSchema,
+});
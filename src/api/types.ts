@@ -0,0 +1,94 @@
+// src/api/types.ts
+import type { z } from "zod";
+import type {
+    actionResponseSchema,
+    actionsResponseSchema,
+    actionStatusSchema,
+    analysisMetadataSchema,
+    analyzeResponseSchema,
+    areaResponseSchema,
+    areaSchema,
+    checklistAnswerEntrySchema,
+    checklistAnswerSchema,
+    checklistItemSchema,
+    checklistSchema,
+    checklistSectionSchema,
+    checklistTemplateResponseSchema,
+    checklistTemplateSchema,
+    checklistTemplatesResponseSchema,
+    correctiveActionSchema,
+    focusRegionSchema,
+    hazardCategorySchema,
+    hazardResponseSchema,
+    hazardReviewResponseSchema,
+    hazardReviewSchema,
+    hazardSchema,
+    hazardSourceSchema,
+    imageRegionSchema,
+    inspectionResponseSchema,
+    inspectionSchema,
+    inspectionSummarySchema,
+    listResponseSchema,
+    overallSchema,
+    photoLocationSchema,
+    photoMetadataSchema,
+    placeRefSchema,
+    processingStatusSchema,
+    safetyGradeSchema,
+    severitySchema,
+    siteContextSchema,
+    siteResponseSchema,
+    siteSchema,
+    sitesResponseSchema,
+    solutionTypeSchema,
+    uploadResponseSchema,
+} from "@/api/schemas";
+
+export type { AnalysisResult } from "@/api/schemas";
+
+// Domain types
+export type HazardCategory = z.infer<typeof hazardCategorySchema>;
+export type Severity = z.infer<typeof severitySchema>;
+export type SafetyGrade = z.infer<typeof safetyGradeSchema>;
+export type ProcessingStatus = z.infer<typeof processingStatusSchema>;
+export type HazardSource = z.infer<typeof hazardSourceSchema>;
+
+export type Hazard = z.infer<typeof hazardSchema>;
+export type HazardReview = z.output<typeof hazardReviewSchema>;
+export type Overall = z.infer<typeof overallSchema>;
+export type AnalysisMetadata = z.infer<typeof analysisMetadataSchema>;
+export type PhotoLocation = z.infer<typeof photoLocationSchema>;
+export type PhotoMetadata = z.infer<typeof photoMetadataSchema>;
+export type ImageRegion = z.infer<typeof imageRegionSchema>;
+export type FocusRegion = z.infer<typeof focusRegionSchema>;
+export type SiteContext = z.infer<typeof siteContextSchema>;
+export type Site = z.infer<typeof siteSchema>;
+export type Area = z.infer<typeof areaSchema>;
+export type PlaceRef = z.infer<typeof placeRefSchema>;
+export type ActionStatus = z.infer<typeof actionStatusSchema>;
+export type SolutionType = z.infer<typeof solutionTypeSchema>;
+export type CorrectiveAction = z.output<typeof correctiveActionSchema>;
+export type ChecklistAnswer = z.infer<typeof checklistAnswerSchema>;
+export type ChecklistAnswerEntry = z.infer<typeof checklistAnswerEntrySchema>;
+export type ChecklistItem = z.output<typeof checklistItemSchema>;
+export type ChecklistSection = z.output<typeof checklistSectionSchema>;
+export type ChecklistTemplate = z.output<typeof checklistTemplateSchema>;
+export type Checklist = z.output<typeof checklistSchema>;
+
+export type Inspection = z.output<typeof inspectionSchema>;
+export type InspectionSummary = z.output<typeof inspectionSummarySchema>;
+
+// Response payloads
+export type UploadResponse = z.output<typeof uploadResponseSchema>;
+export type AnalyzeResponse = z.output<typeof analyzeResponseSchema>;
+export type ListResponse = z.output<typeof listResponseSchema>;
+export type InspectionResponse = z.output<typeof inspectionResponseSchema>;
+export type SitesResponse = z.output<typeof sitesResponseSchema>;
+export type SiteResponse = z.output<typeof siteResponseSchema>;
+export type AreaResponse = z.output<typeof areaResponseSchema>;
+export type ActionsResponse = z.output<typeof actionsResponseSchema>;
+export type ActionResponse = z.output<typeof actionResponseSchema>;
+export type HazardReviewResponse = z.output<typeof hazardReviewResponseSchema>;
+export type HazardResponse = z.output<typeof hazardResponseSchema>;
+export type ChecklistTemplatesResponse = z.output<typeof checklistTemplatesResponseSchema>;
+export type ChecklistTemplateResponse = z.output<typeof checklistTemplateResponseSchema>;
@@ -56,6 +56,15 @@ export default function TabsLayout() {
                     ),
                 }}
             />
+            <Tabs.Screen
+                name="actions"
+                options={{
+                    title: "Actions",
+                    tabBarIcon: ({ color, size }) => (
+                        <Ionicons name="checkmark-done-outline" size={size} color={color} />
+                    ),
+                }}
+            />
             <Tabs.Screen
                 name="reports"
                 options={{
@@ -0,0 +1,296 @@
+// src/app/(protected)/(tabs)/actions.tsx
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+    ActivityIndicator,
+    FlatList,
+    Platform,
+    RefreshControl,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { router, useFocusEffect } from 'expo-router';
+import { useSession } from '@clerk/clerk-expo';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useCorrectiveActions } from '@/hooks/useCorrectiveActions';
+import CorrectiveActionForm, {
+    ACTION_STATUS_LABELS,
+    actionStatusColor,
+    CorrectiveActionFields,
+    isOverdue,
+} from '@/components/CorrectiveActionForm';
+import { isOpenActionStatus } from '@/api/schemas';
+import type { CorrectiveAction } from '@/api/types';
+
+const formatDueDate = (dueDate: string) =>
+    new Date(`${dueDate}T00:00:00`).toLocaleDateString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        year: 'numeric',
+    });
+
+/** Open and in-progress corrective actions across every inspection, soonest due first */
+export default function ActionsScreen() {
+    const { colors } = useTheme();
+    const { session } = useSession();
+    const api = useApiClient();
+    const [refreshing, setRefreshing] = useState(false);
+    const [editing, setEditing] = useState<CorrectiveAction | null>(null);
+    const { actions, loading, error, refresh, updateAction, uploadEvidence } = useCorrectiveActions(api, {
+        openOnly: true,
+        enabled: false,
+    });
+
+    // Actions are raised from inspection screens, so reload whenever the tab comes back into view
+    useFocusEffect(useCallback(() => {
+        if (session) refresh();
+    }, [session, refresh]));
+
+    // Actions marked done here stay loaded until the next refresh, so filter them out
+    const openActions = useMemo(
+        () => actions
+            .filter((action) => isOpenActionStatus(action.status))
+            .sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+        [actions],
+    );
+    const overdueCount = openActions.filter((action) => isOverdue(action)).length;
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        await refresh();
+        setRefreshing(false);
+    };
+
+    const saveAction = async (fields: CorrectiveActionFields) => {
+        if (editing) await updateAction(editing.id, fields);
+    };
+
+    const containerStyle: ViewStyle = {
+        flex: 1,
+        backgroundColor: colors.background,
+    };
+
+    const listContentStyle: ViewStyle = {
+        padding: 16,
+        paddingTop: Platform.select({ ios: 0, android: 16 }),
+        flexGrow: 1,
+    };
+
+    const headerTitleStyle: TextStyle = {
+        fontSize: 28,
+        fontWeight: '800',
+        color: colors.text,
+    };
+
+    const headerSubtitleStyle: TextStyle = {
+        fontSize: 14,
+        color: colors.textSecondary,
+        marginTop: 4,
+        marginBottom: 16,
+    };
+
+    const itemStyle = (overdue: boolean): ViewStyle => ({
+        backgroundColor: colors.surface,
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 12,
+        shadowColor: colors.shadow,
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+        elevation: 3,
+        borderWidth: overdue ? 2 : 1,
+        borderColor: overdue ? colors.error : colors.border,
+    });
+
+    const solutionStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '600',
+        color: colors.text,
+        lineHeight: 21,
+    };
+
+    const hazardStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 4,
+    };
+
+    const metaRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        alignItems: 'center',
+        gap: 12,
+        marginTop: 12,
+    };
+
+    const metaStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 4,
+    };
+
+    const metaTextStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+    };
+
+    const badgeStyle = (color: string): ViewStyle => ({
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 6,
+        backgroundColor: color + '15',
+    });
+
+    const badgeTextStyle = (color: string): TextStyle => ({
+        fontSize: 11,
+        fontWeight: '600',
+        color,
+    });
+
+    const linkStyle: TextStyle = {
+        fontSize: 13,
+        fontWeight: '600',
+        color: colors.primary,
+    };
+
+    const emptyStateStyle: ViewStyle = {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+        paddingHorizontal: 32,
+        minHeight: 400,
+    };
+
+    const emptyTitleStyle: TextStyle = {
+        fontSize: 20,
+        fontWeight: '700',
+        color: colors.text,
+        marginTop: 16,
+        marginBottom: 8,
+    };
+
+    const emptySubtitleStyle: TextStyle = {
+        fontSize: 16,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        lineHeight: 22,
+    };
+
+    const renderAction = ({ item }: { item: CorrectiveAction }) => {
+        const overdue = isOverdue(item);
+        const statusColor = actionStatusColor(item, colors);
+
+        return (
+            <TouchableOpacity style={itemStyle(overdue)} onPress={() => setEditing(item)}>
+                <Text style={solutionStyle}>{item.solution}</Text>
+                {item.hazardDescription && (
+                    <Text style={hazardStyle} numberOfLines={2}>{item.hazardDescription}</Text>
+                )}
+
+                <View style={metaRowStyle}>
+                    <View style={badgeStyle(statusColor)}>
+                        <Text style={badgeTextStyle(statusColor)}>
+                            {overdue ? 'Overdue' : ACTION_STATUS_LABELS[item.status]}
+                        </Text>
+                    </View>
+                    <View style={metaStyle}>
+                        <Ionicons name="calendar-outline" size={14} color={overdue ? colors.error : colors.textSecondary} />
+                        <Text style={[metaTextStyle, overdue && { color: colors.error, fontWeight: '600' }]}>
+                            {formatDueDate(item.dueDate)}
+                        </Text>
+                    </View>
+                    <View style={metaStyle}>
+                        <Ionicons name="person-outline" size={14} color={colors.textSecondary} />
+                        <Text style={metaTextStyle}>{item.owner}</Text>
+                    </View>
+                    <View style={metaStyle}>
+                        <Ionicons name="flag-outline" size={14} color={colors.textSecondary} />
+                        <Text style={metaTextStyle}>{item.priority}</Text>
+                    </View>
+                    {item.evidenceUrls.length > 0 && (
+                        <View style={metaStyle}>
+                            <Ionicons name="image-outline" size={14} color={colors.textSecondary} />
+                            <Text style={metaTextStyle}>{item.evidenceUrls.length}</Text>
+                        </View>
+                    )}
+                </View>
+
+                <TouchableOpacity
+                    style={{ marginTop: 12, alignSelf: 'flex-start' }}
+                    onPress={() => router.push(`/inspection/${item.inspectionId}`)}
+                >
+                    <Text style={linkStyle}>Inspection #{item.inspectionId.slice(-8)} ›</Text>
+                </TouchableOpacity>
+            </TouchableOpacity>
+        );
+    };
+
+    if (loading && actions.length === 0 && !refreshing) {
+        return (
+            <View style={[containerStyle, { justifyContent: 'center', alignItems: 'center' }]}>
+                <ActivityIndicator size="large" color={colors.primary} />
+                <Text style={{ color: colors.textSecondary, marginTop: 16 }}>
+                    Loading actions...
+                </Text>
+            </View>
+        );
+    }
+
+    return (
+        <View style={containerStyle}>
+            <FlatList
+                data={openActions}
+                keyExtractor={(item) => item.id}
+                renderItem={renderAction}
+                contentContainerStyle={listContentStyle}
+                ListHeaderComponent={
+                    <View>
+                        <Text style={headerTitleStyle}>Actions</Text>
+                        <Text style={[headerSubtitleStyle, overdueCount > 0 && { color: colors.error }]}>
+                            {error
+                                ? error
+                                : overdueCount > 0
+                                    ? `${openActions.length} open · ${overdueCount} overdue`
+                                    : `${openActions.length} open`}
+                        </Text>
+                    </View>
+                }
+                ListEmptyComponent={error ? null : (
+                    <View style={emptyStateStyle}>
+                        <Ionicons name="checkmark-done-outline" size={64} color={colors.textTertiary} />
+                        <Text style={emptyTitleStyle}>No Open Actions</Text>
+                        <Text style={emptySubtitleStyle}>
+                            Turn a hazard&apos;s solution into a corrective action from its inspection.
+                        </Text>
+                    </View>
+                )}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={refreshing}
+                        onRefresh={handleRefresh}
+                        tintColor={colors.primary}
+                        colors={[colors.primary]}
+                    />
+                }
+                showsVerticalScrollIndicator={false}
+            />
+
+            {editing && (
+                <CorrectiveActionForm
+                    solution={editing.solution}
+                    hazardDescription={editing.hazardDescription ?? undefined}
+                    defaultPriority={editing.priority}
+                    action={editing}
+                    onSubmit={saveAction}
+                    onUploadEvidence={uploadEvidence}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+        </View>
+    );
+}
@@ -4,7 +4,6 @@ import AnalyzePhotoScreen from "@/components/AnalyzePhotoScreen";
 export default function TabIndex() {
     return (
         <AnalyzePhotoScreen
-            apiBaseUrl="https://hseappapi.vercel.app"
             // tokenTemplate="backend" // optional
         />
     );
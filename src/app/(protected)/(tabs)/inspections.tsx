@@ -1,9 +1,11 @@
 // src/app/(protected)/(tabs)/inspections.tsx
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import {
     View,
     Text,
-    FlatList,
+    SectionList,
+    ScrollView,
+    TouchableOpacity,
     Image,
     RefreshControl,
     ActivityIndicator,
@@ -14,92 +16,103 @@ import {
 import { useSession } from '@clerk/clerk-expo';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
+import { useApiClient } from '@/hooks/useApiClient';
+import { usePolling } from '@/hooks/usePolling';
+import { useAbortController } from '@/hooks/useAbortController';
+import { useSites } from '@/hooks/useSites';
+import { isAbortError, toApiError } from '@/api/errors';
+import { isFinalStatus } from '@/api/schemas';
+import type { InspectionSummary, SafetyGrade } from '@/api/types';
 
-type SafetyGrade = "A" | "B" | "C" | "D" | "F";
-
-interface Inspection {
-    id: string;
-    createdAt: string;
-    imageUrl: string;
-    hazardCount: number | null;
-    riskScore: number | null;
-    safetyGrade: SafetyGrade | null;
-    processingStatus: string;
-}
+const PAGE_SIZE = 20;
 
-interface ListResponse {
-    ok: boolean;
-    inspections: Inspection[];
-    page: number;
-    pageSize: number;
-    totalCount: number;
+type InspectionSection = { key: string; title: string; data: InspectionSummary[] };
+
+/**
+ * Groups by site, or by area once the list is filtered to one site. Groups keep
+ * the order of their newest inspection, with unfiled inspections last.
+ */
+function groupInspections(inspections: InspectionSummary[], byArea: boolean): InspectionSection[] {
+    const groups = new Map<string, InspectionSection>();
+    for (const item of inspections) {
+        const place = byArea ? item.area : item.site;
+        const key = place?.id ?? '';
+        const group = groups.get(key) ?? {
+            key,
+            title: place?.name ?? (byArea ? 'No area' : 'No site'),
+            data: [],
+        };
+        group.data.push(item);
+        groups.set(key, group);
+    }
+    return Array.from(groups.values()).sort((a, b) => Number(a.key === '') - Number(b.key === ''));
 }
 
-const DEFAULT_BASE = "https://hseappapi.vercel.app";
-const PAGE_SIZE = 20;
-
 export default function InspectionsScreen() {
     const { colors } = useTheme();
     const { session } = useSession();
-    const [inspections, setInspections] = useState<Inspection[]>([]);
+    const [inspections, setInspections] = useState<InspectionSummary[]>([]);
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
     const [error, setError] = useState<string | null>(null);
-
-    const buildAuthHeaders = useCallback(async () => {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-        };
-
-        if (session) {
-            try {
-                const token = await session.getToken();
-                if (token) {
-                    headers["Authorization"] = `Bearer ${token}`;
-                }
-            } catch (error) {
-                console.error("Error getting token:", error);
-            }
-        }
-
-        return headers;
-    }, [session]);
+    const [siteFilter, setSiteFilter] = useState<string | null>(null);
+    const api = useApiClient();
+    const { renew } = useAbortController();
+    const { sites } = useSites(api, Boolean(session));
+    const sections = useMemo(() => groupInspections(inspections, siteFilter !== null), [inspections, siteFilter]);
 
     const fetchInspections = useCallback(async (isRefresh = false) => {
         if (!session) return;
 
+        const signal = renew();
         try {
             if (!isRefresh) setLoading(true);
             setError(null);
 
-            const headers = await buildAuthHeaders();
-            const response = await fetch(
-                `${DEFAULT_BASE}/api/inspections/list?page=1&pageSize=${PAGE_SIZE}`,
-                { headers }
-            );
-
-            if (!response.ok) {
-                throw new Error(`Failed to fetch inspections: ${response.status}`);
-            }
-
-            const data: ListResponse = await response.json();
-            if (data.ok) {
-                setInspections(data.inspections);
-            } else {
-                throw new Error('Invalid response format');
-            }
-        } catch (err: any) {
-            setError(err.message || 'Failed to load inspections');
+            const data = await api.listInspections(1, PAGE_SIZE, { signal, siteId: siteFilter ?? undefined });
+            setInspections(data.inspections);
+        } catch (err) {
+            if (!isAbortError(err)) setError(toApiError(err).message);
         } finally {
-            setLoading(false);
-            setRefreshing(false);
+            // A newer request owns the loading state once this one is superseded
+            if (!signal.aborted) {
+                setLoading(false);
+                setRefreshing(false);
+            }
         }
-    }, [session, buildAuthHeaders]);
+    }, [session, api, renew, siteFilter]);
 
     useEffect(() => {
         fetchInspections();
     }, [fetchInspections]);
 
+    // Refresh rows that are still being analyzed until they reach a final state
+    const pollPendingRows = useCallback(async (signal: AbortSignal) => {
+        const pending = inspections.filter((item) => !isFinalStatus(item.processingStatus));
+        const updates = await Promise.all(
+            pending.map((item) =>
+                api.getInspection(item.id, { signal, retries: 0 }).then((json) => json.inspection, () => null)
+            )
+        );
+        if (signal.aborted) return;
+
+        setInspections((current) => current.map((item) => {
+            const latest = updates.find((update) => update?.id === item.id);
+            if (!latest) return item;
+            return {
+                ...item,
+                processingStatus: latest.processingStatus,
+                hazardCount: latest.hazardCount,
+                riskScore: latest.riskScore,
+                safetyGrade: latest.safetyGrade,
+            };
+        }));
+    }, [inspections, api]);
+
+    usePolling(pollPendingRows, {
+        enabled: inspections.some((item) => !isFinalStatus(item.processingStatus)),
+    });
+
     const handleRefresh = () => {
         setRefreshing(true);
         fetchInspections(true);
@@ -136,7 +149,7 @@ export default function InspectionsScreen() {
         });
     };
 
-    const renderInspectionItem = ({ item }: { item: Inspection }) => {
+    const renderInspectionItem = ({ item }: { item: InspectionSummary }) => {
         const itemStyle: ViewStyle = {
             backgroundColor: colors.surface,
             borderRadius: 16,
@@ -231,6 +244,7 @@ export default function InspectionsScreen() {
                         </Text>
                         <Text style={dateStyle}>
                             {formatDate(item.createdAt)}
+                            {siteFilter === null && item.area ? ` · ${item.area.name}` : ''}
                         </Text>
                         <View style={statusBadgeStyle}>
                             <Text style={statusTextStyle}>{item.processingStatus}</Text>
@@ -328,6 +342,61 @@ export default function InspectionsScreen() {
         );
     }
 
+    const filterBarStyle: ViewStyle = {
+        gap: 8,
+        paddingBottom: 12,
+    };
+
+    const chipStyle = (selected: boolean): ViewStyle => ({
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary : colors.surface,
+    });
+
+    const chipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const sectionHeaderStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        paddingTop: 8,
+        paddingBottom: 10,
+        backgroundColor: colors.background,
+    };
+
+    const sectionTitleStyle: TextStyle = {
+        flex: 1,
+        fontSize: 15,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const sectionCountStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+    };
+
+    const siteFilterBar = sites.length > 0 ? (
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={filterBarStyle}>
+            {[{ id: null, name: 'All sites' }, ...sites].map((site) => (
+                <TouchableOpacity
+                    key={site.id ?? 'all'}
+                    style={chipStyle(siteFilter === site.id)}
+                    onPress={() => setSiteFilter(site.id)}
+                >
+                    <Text style={chipTextStyle(siteFilter === site.id)}>{site.name}</Text>
+                </TouchableOpacity>
+            ))}
+        </ScrollView>
+    ) : null;
+
     if (error) {
         return (
             <View style={[containerStyle, errorStateStyle]}>
@@ -340,10 +409,23 @@ export default function InspectionsScreen() {
 
     return (
         <View style={containerStyle}>
-            <FlatList
-                data={inspections}
+            <SectionList
+                sections={sections}
                 keyExtractor={(item) => item.id}
                 renderItem={renderInspectionItem}
+                renderSectionHeader={({ section }) => (
+                    <View style={sectionHeaderStyle}>
+                        <Ionicons
+                            name={siteFilter === null ? 'business-outline' : 'map-outline'}
+                            size={16}
+                            color={section.key ? colors.primary : colors.textTertiary}
+                        />
+                        <Text style={sectionTitleStyle} numberOfLines={1}>{section.title}</Text>
+                        <Text style={sectionCountStyle}>{section.data.length}</Text>
+                    </View>
+                )}
+                ListHeaderComponent={siteFilterBar}
+                stickySectionHeadersEnabled={false}
                 contentContainerStyle={listContentStyle}
                 refreshControl={
                     <RefreshControl
@@ -356,9 +438,13 @@ export default function InspectionsScreen() {
                 ListEmptyComponent={
                     <View style={emptyStateStyle}>
                         <Ionicons name="document-outline" size={64} color={colors.textTertiary} />
-                        <Text style={emptyTitleStyle}>No Inspections Yet</Text>
+                        <Text style={emptyTitleStyle}>
+                            {siteFilter === null ? 'No Inspections Yet' : 'No Inspections at This Site'}
+                        </Text>
                         <Text style={emptySubtitleStyle}>
-                            Start by taking a photo and running your first safety analysis.
+                            {siteFilter === null
+                                ? 'Start by taking a photo and running your first safety analysis.'
+                                : 'Inspections filed under this site will appear here.'}
                         </Text>
                     </View>
                 }
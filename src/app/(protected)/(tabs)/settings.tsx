@@ -14,6 +14,8 @@ import {
 import { router } from 'expo-router';
 import { useAuth } from '@clerk/clerk-expo';
 import { useTheme, ThemeMode } from '@/contexts/ThemeContext';
+import { useApiConfig } from '@/contexts/ApiConfigContext';
+import DeveloperSettings from '@/components/DeveloperSettings';
 import { Ionicons } from '@expo/vector-icons';
 
 interface SettingItemProps {
@@ -21,6 +23,7 @@ interface SettingItemProps {
     title: string;
     subtitle?: string;
     onPress?: () => void;
+    onLongPress?: () => void;
     rightElement?: React.ReactNode;
     danger?: boolean;
 }
@@ -30,6 +33,7 @@ const SettingItem: React.FC<SettingItemProps> = ({
                                                      title,
                                                      subtitle,
                                                      onPress,
+                                                     onLongPress,
                                                      rightElement,
                                                      danger = false,
                                                  }) => {
@@ -81,6 +85,7 @@ const SettingItem: React.FC<SettingItemProps> = ({
         <TouchableOpacity
             style={itemStyle}
             onPress={onPress}
+            onLongPress={onLongPress}
             activeOpacity={onPress ? 0.7 : 1}
         >
             <View style={iconContainerStyle}>
@@ -138,6 +143,8 @@ export default function SettingsScreen() {
     const { signOut, user } = useAuth();
     const [notificationsEnabled, setNotificationsEnabled] = useState(true);
     const [analyticsEnabled, setAnalyticsEnabled] = useState(true);
+    const [showDeveloper, setShowDeveloper] = useState(false);
+    const { devSettingsEnabled } = useApiConfig();
 
     const containerStyle: ViewStyle = {
         flex: 1,
@@ -360,6 +367,8 @@ export default function SettingsScreen() {
                             [{ text: 'OK' }]
                         );
                     }}
+                    // Hidden entry point to the developer panel
+                    onLongPress={devSettingsEnabled ? () => setShowDeveloper((v) => !v) : undefined}
                 />
 
                 <SettingItem
@@ -372,6 +381,13 @@ export default function SettingsScreen() {
                 />
             </Section>
 
+            {/* Developer Section (development builds only) */}
+            {devSettingsEnabled && showDeveloper && (
+                <Section title="Developer">
+                    <DeveloperSettings />
+                </Section>
+            )}
+
             {/* Account Actions */}
             <Section title="Account Actions">
                 <SettingItem
@@ -11,6 +11,7 @@ import {
 } from "react-native";
 import { SafeAreaView } from "react-native-safe-area-context";
 import { useTheme } from "@/contexts/ThemeContext";
+import { CaptureQueueProvider } from "@/contexts/CaptureQueueContext";
 
 /** --------------------------
  *  Loading screen
@@ -77,16 +78,18 @@ function AuthGate({ children }: { children: React.ReactNode }) {
 export default function RootLayout() {
     return (
         <AuthGate>
-            <Stack
-                screenOptions={{
-                    headerShown: false, // Remove all headers globally
-                    presentation: "card",
-                    animation: "slide_from_right",
-                }}
-            >
-                {/* Tab stack host - no header */}
-                <Stack.Screen name="(tabs)" />
-            </Stack>
+            <CaptureQueueProvider>
+                <Stack
+                    screenOptions={{
+                        headerShown: false, // Remove all headers globally
+                        presentation: "card",
+                        animation: "slide_from_right",
+                    }}
+                >
+                    {/* Tab stack host - no header */}
+                    <Stack.Screen name="(tabs)" />
+                </Stack>
+            </CaptureQueueProvider>
         </AuthGate>
     );
 }
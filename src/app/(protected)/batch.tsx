@@ -0,0 +1,416 @@
+// src/app/(protected)/batch.tsx
+import React, { useEffect, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Image,
+    ImageStyle,
+    ScrollView,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import { router } from 'expo-router';
+import { useSession } from '@clerk/clerk-expo';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import CustomButton from '@/components/CustomButton';
+import SitePicker, { NO_SITE, SiteSelection } from '@/components/SitePicker';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useSites } from '@/hooks/useSites';
+import { BATCH_CONCURRENCY, BatchItem, BatchItemStatus, useBatchAnalysis } from '@/hooks/useBatchAnalysis';
+import { loadSiteContext } from '@/storage/siteContext';
+import type { SafetyGrade, SiteContext } from '@/api/types';
+
+const MAX_BATCH_PHOTOS = 100;
+
+const GRADE_COLORS: Record<SafetyGrade, string> = {
+    A: '#10b981',
+    B: '#3b82f6',
+    C: '#f59e0b',
+    D: '#f97316',
+    F: '#ef4444',
+};
+
+const STATUS_LABELS: Record<BatchItemStatus, string> = {
+    queued: 'Waiting',
+    preparing: 'Preparing',
+    uploading: 'Uploading',
+    analyzing: 'Analyzing',
+    done: 'Done',
+    failed: 'Failed',
+};
+
+export default function BatchAnalysisScreen() {
+    const { colors } = useTheme();
+    const { session } = useSession();
+    const api = useApiClient();
+    const [siteContext, setSiteContext] = useState<SiteContext | null>(null);
+    const [siteSelection, setSiteSelection] = useState<SiteSelection>(NO_SITE);
+    const sitesState = useSites(api);
+    const { items, running, add, remove, clear, run, cancel } = useBatchAnalysis(api, { siteContext, ...siteSelection });
+
+    // Batches go out with the context last used on the analyze screen
+    const userId = session?.user.id;
+    useEffect(() => {
+        if (userId) loadSiteContext(userId).then(setSiteContext);
+    }, [userId]);
+
+    const pending = items.filter((item) => item.status === 'queued' || item.status === 'failed').length;
+    const done = items.filter((item) => item.status === 'done');
+    const failed = items.filter((item) => item.status === 'failed');
+    const finished = items.length > 0 && !running && done.length + failed.length === items.length;
+
+    const pickPhotos = async () => {
+        const lib = await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (lib.status !== 'granted') {
+            Alert.alert('Permission needed', 'Photo library permission is required.');
+            return;
+        }
+
+        const res = await ImagePicker.launchImageLibraryAsync({
+            quality: 0.9,
+            base64: false,
+            exif: true,
+            mediaTypes: ImagePicker.MediaTypeOptions.Images,
+            allowsMultipleSelection: true,
+            selectionLimit: MAX_BATCH_PHOTOS - items.length,
+            orderedSelection: true,
+        });
+        if (res.canceled) return;
+        add(res.assets ?? []);
+    };
+
+    const confirmClear = () => {
+        Alert.alert('Clear batch?', 'Photos are removed from this list. Inspections already created are kept.', [
+            { text: 'Cancel', style: 'cancel' },
+            { text: 'Clear', style: 'destructive', onPress: clear },
+        ]);
+    };
+
+    const containerStyle: ViewStyle = {
+        flex: 1,
+        backgroundColor: colors.background,
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 20,
+        backgroundColor: colors.surface,
+        borderRadius: 20,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const backButtonStyle: ViewStyle = {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: colors.backgroundTertiary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 22,
+        fontWeight: '800',
+        color: colors.text,
+    };
+
+    const subtitleStyle: TextStyle = {
+        fontSize: 14,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const cardStyle: ViewStyle = {
+        backgroundColor: colors.surface,
+        borderRadius: 20,
+        padding: 16,
+        marginBottom: 20,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const contextStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginBottom: 16,
+    };
+
+    const tableHeaderStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingBottom: 8,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.border,
+    };
+
+    const columnLabelStyle: TextStyle = {
+        fontSize: 11,
+        fontWeight: '600',
+        color: colors.textSecondary,
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+    };
+
+    return (
+        <ScrollView style={containerStyle} contentContainerStyle={{ padding: 20, paddingBottom: 40 }}>
+            <View style={headerStyle}>
+                <TouchableOpacity onPress={() => router.back()} style={backButtonStyle}>
+                    <Ionicons name="arrow-back" size={24} color={colors.text} />
+                </TouchableOpacity>
+                <View style={{ flex: 1, marginHorizontal: 16 }}>
+                    <Text style={titleStyle}>Batch Analysis</Text>
+                    <Text style={subtitleStyle}>Each photo becomes its own inspection</Text>
+                </View>
+            </View>
+
+            <View style={cardStyle}>
+                <SitePicker
+                    sites={sitesState.sites}
+                    loading={sitesState.loading}
+                    value={siteSelection}
+                    onChange={setSiteSelection}
+                    onCreateSite={sitesState.createSite}
+                    onCreateArea={sitesState.createArea}
+                    disabled={running}
+                />
+                {siteContext?.site && (
+                    <Text style={contextStyle}>
+                        <Ionicons name="business-outline" size={13} color={colors.textSecondary} /> Site context: {siteContext.site}
+                    </Text>
+                )}
+                <View style={{ gap: 12 }}>
+                    <CustomButton
+                        text={items.length > 0 ? 'Add More Photos' : 'Choose Photos'}
+                        variant="outline"
+                        onPress={pickPhotos}
+                        disabled={running || items.length >= MAX_BATCH_PHOTOS}
+                        icon={<Ionicons name="images-outline" size={20} color={colors.primary} />}
+                    />
+                    {running ? (
+                        <CustomButton
+                            text="Cancel"
+                            variant="outline"
+                            onPress={cancel}
+                            icon={<Ionicons name="close-circle-outline" size={20} color={colors.primary} />}
+                        />
+                    ) : pending > 0 && (
+                        <CustomButton
+                            text={failed.length === pending ? `Retry ${pending} Failed` : `Analyze ${pending} ${pending === 1 ? 'Photo' : 'Photos'}`}
+                            onPress={run}
+                            icon={<Ionicons name="flash" size={20} color="#fff" />}
+                        />
+                    )}
+                </View>
+                {running && (
+                    <Text style={[subtitleStyle, { marginTop: 12, textAlign: 'center' }]}>
+                        {done.length + failed.length} of {items.length} finished · {BATCH_CONCURRENCY} at a time
+                    </Text>
+                )}
+            </View>
+
+            {finished && <BatchSummary items={items} />}
+
+            {items.length > 0 && (
+                <View style={cardStyle}>
+                    <View style={tableHeaderStyle}>
+                        <Text style={[columnLabelStyle, { flex: 1 }]}>Photo</Text>
+                        <Text style={[columnLabelStyle, { width: 56, textAlign: 'center' }]}>Grade</Text>
+                        <Text style={[columnLabelStyle, { width: 64, textAlign: 'center' }]}>Hazards</Text>
+                        <View style={{ width: 28 }} />
+                    </View>
+                    {items.map((item, index) => (
+                        <BatchRow
+                            key={item.id}
+                            item={item}
+                            index={index}
+                            onRemove={running ? undefined : () => remove(item.id)}
+                        />
+                    ))}
+                    {!running && (
+                        <TouchableOpacity onPress={confirmClear} style={{ paddingTop: 16, alignSelf: 'center' }}>
+                            <Text style={{ fontSize: 14, fontWeight: '600', color: colors.textSecondary }}>Clear List</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
+        </ScrollView>
+    );
+}
+
+function BatchRow({ item, index, onRemove }: { item: BatchItem; index: number; onRemove?: () => void }) {
+    const { colors } = useTheme();
+    const busy = item.status === 'preparing' || item.status === 'uploading' || item.status === 'analyzing';
+    const statusColor = item.status === 'done'
+        ? colors.success
+        : item.status === 'failed' ? colors.error : busy ? colors.primary : colors.textSecondary;
+
+    const rowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    };
+
+    const thumbStyle: ImageStyle = {
+        width: 44,
+        height: 44,
+        borderRadius: 8,
+        marginRight: 12,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const trackStyle: ViewStyle = {
+        height: 4,
+        borderRadius: 2,
+        marginTop: 6,
+        backgroundColor: colors.border,
+        overflow: 'hidden',
+    };
+
+    const cellStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '700',
+        textAlign: 'center',
+        color: colors.text,
+    };
+
+    return (
+        <TouchableOpacity
+            style={rowStyle}
+            onPress={item.inspectionId ? () => router.push(`/inspection/${item.inspectionId}`) : undefined}
+            disabled={!item.inspectionId}
+        >
+            <Image source={{ uri: item.uri }} style={thumbStyle} resizeMode="cover" />
+            <View style={{ flex: 1 }}>
+                <Text style={{ fontSize: 14, fontWeight: '600', color: colors.text }}>Photo {index + 1}</Text>
+                <View style={{ flexDirection: 'row', alignItems: 'center', gap: 6, marginTop: 2 }}>
+                    {busy && <ActivityIndicator size="small" color={statusColor} />}
+                    <Text style={{ fontSize: 12, color: statusColor }} numberOfLines={1}>
+                        {item.status === 'uploading'
+                            ? `${STATUS_LABELS.uploading} ${Math.round(item.progress * 100)}%`
+                            : STATUS_LABELS[item.status]}
+                    </Text>
+                </View>
+                {item.status === 'uploading' && (
+                    <View style={trackStyle}>
+                        <View style={{ width: `${Math.round(item.progress * 100)}%`, height: '100%', backgroundColor: colors.primary }} />
+                    </View>
+                )}
+                {item.error && (
+                    <Text style={{ fontSize: 12, color: colors.error, marginTop: 2 }} numberOfLines={2}>{item.error}</Text>
+                )}
+            </View>
+            <Text style={[cellStyle, { width: 56, color: item.safetyGrade ? GRADE_COLORS[item.safetyGrade] : colors.textTertiary }]}>
+                {item.safetyGrade ?? '–'}
+            </Text>
+            <Text style={[cellStyle, { width: 64 }]}>{item.hazardCount ?? '–'}</Text>
+            <View style={{ width: 28, alignItems: 'flex-end' }}>
+                {item.inspectionId ? (
+                    <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+                ) : onRemove && !busy && (
+                    <TouchableOpacity onPress={onRemove} hitSlop={8}>
+                        <Ionicons name="close" size={18} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                )}
+            </View>
+        </TouchableOpacity>
+    );
+}
+
+function BatchSummary({ items }: { items: BatchItem[] }) {
+    const { colors } = useTheme();
+    const done = items.filter((item) => item.status === 'done');
+    const failedCount = items.length - done.length;
+    const hazards = done.reduce((sum, item) => sum + (item.hazardCount ?? 0), 0);
+    const averageRisk = done.length > 0
+        ? Math.round(done.reduce((sum, item) => sum + (item.riskScore ?? 0), 0) / done.length)
+        : null;
+    const grades = (Object.keys(GRADE_COLORS) as SafetyGrade[])
+        .map((grade) => ({ grade, count: done.filter((item) => item.safetyGrade === grade).length }))
+        .filter(({ count }) => count > 0);
+
+    const cardStyle: ViewStyle = {
+        backgroundColor: colors.surface,
+        borderRadius: 20,
+        padding: 20,
+        marginBottom: 20,
+        borderWidth: 1,
+        borderColor: failedCount > 0 ? colors.warning : colors.success,
+    };
+
+    const statStyle: ViewStyle = {
+        flex: 1,
+        alignItems: 'center',
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: colors.backgroundSecondary,
+    };
+
+    const statValueStyle: TextStyle = {
+        fontSize: 22,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const statLabelStyle: TextStyle = {
+        fontSize: 11,
+        color: colors.textSecondary,
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginTop: 4,
+    };
+
+    return (
+        <View style={cardStyle}>
+            <Text style={{ fontSize: 18, fontWeight: '700', color: colors.text, marginBottom: 4 }}>Batch Complete</Text>
+            <Text style={{ fontSize: 14, color: colors.textSecondary, marginBottom: 16 }}>
+                {done.length} of {items.length} analyzed{failedCount > 0 ? ` · ${failedCount} failed` : ''}
+            </Text>
+            <View style={{ flexDirection: 'row', gap: 12 }}>
+                <View style={statStyle}>
+                    <Text style={statValueStyle}>{hazards}</Text>
+                    <Text style={statLabelStyle}>Hazards</Text>
+                </View>
+                <View style={statStyle}>
+                    <Text style={statValueStyle}>{averageRisk ?? '–'}</Text>
+                    <Text style={statLabelStyle}>Avg Risk</Text>
+                </View>
+                <View style={statStyle}>
+                    <Text style={[statValueStyle, { color: failedCount > 0 ? colors.error : colors.text }]}>{failedCount}</Text>
+                    <Text style={statLabelStyle}>Failed</Text>
+                </View>
+            </View>
+            {grades.length > 0 && (
+                <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 8, marginTop: 16 }}>
+                    {grades.map(({ grade, count }) => (
+                        <View
+                            key={grade}
+                            style={{
+                                paddingHorizontal: 12,
+                                paddingVertical: 6,
+                                borderRadius: 12,
+                                backgroundColor: GRADE_COLORS[grade],
+                            }}
+                        >
+                            <Text style={{ color: '#fff', fontSize: 13, fontWeight: '700' }}>
+                                Grade {grade} × {count}
+                            </Text>
+                        </View>
+                    ))}
+                </View>
+            )}
+            <Text style={{ fontSize: 12, color: colors.textSecondary, marginTop: 16 }}>
+                Tap a photo below to open its inspection.
+            </Text>
+        </View>
+    );
+}
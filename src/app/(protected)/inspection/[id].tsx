@@ -2,7 +2,7 @@
 import React, { useEffect, useState, useRef, useCallback, useMemo } from "react";
 import {
     ActivityIndicator,
-    Image,
+    Alert,
     Platform,
     ScrollView,
     Text,
@@ -10,8 +10,12 @@ import {
     View,
     Share,
     Animated,
+    FlatList,
+    NativeScrollEvent,
+    NativeSyntheticEvent,
     Dimensions,
     Modal,
+    Pressable,
     TouchableWithoutFeedback,
     RefreshControl,
     ViewStyle,
@@ -23,154 +27,91 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '@/contexts/ThemeContext';
 import CustomButton from '@/components/CustomButton';
 import FloatingActions from '@/components/FloatingActions';
+import PartialResultBanner from '@/components/PartialResultBanner';
+import HazardImage from '@/components/HazardImage';
+import CorrectiveActionForm, { ACTION_STATUS_LABELS, actionStatusColor, CorrectiveActionFields } from '@/components/CorrectiveActionForm';
+import HazardReviewForm from '@/components/HazardReviewForm';
+import AddHazardForm from '@/components/AddHazardForm';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useCorrectiveActions } from '@/hooks/useCorrectiveActions';
+import { usePolling } from '@/hooks/usePolling';
+import { useAbortController } from '@/hooks/useAbortController';
+import { ACTION_LABELS, ApiError, AuthError, isAbortError, NotFoundError, toApiError } from '@/api/errors';
+import type { RecoveryAction } from '@/api/errors';
+import type { HazardReviewChanges, NewHazardInput } from '@/api/client';
+import { inspectionImageUrls, inspectionOriginalUrls, isFinalStatus } from '@/api/schemas';
+import type {
+    CorrectiveAction,
+    Checklist,
+    ChecklistAnswer,
+    Hazard,
+    HazardCategory,
+    HazardReview,
+    Inspection,
+    InspectionResponse,
+    PhotoMetadata,
+    PlaceRef,
+    ProcessingStatus,
+    SafetyGrade,
+    SiteContext,
+    SolutionType,
+} from '@/api/types';
+import { describePhotoMetadata, formatCapturedAt, formatCoordinates } from '@/utils/photoMetadata';
+import {
+    adjustScore,
+    combineHazards,
+    isDismissed,
+    isEdited,
+    isFromChecklist,
+    isInspectorAdded,
+    ReviewedHazard,
+} from '@/utils/hazardReview';
+import { CHECKLIST_ANSWER_LABELS, checklistHazards, checklistProgress } from '@/utils/checklist';
 
 // Constants
 const { width: screenWidth } = Dimensions.get('window');
-const DEFAULT_BASE = "https://hseappapi.vercel.app";
-
-// Types
-type HazardCategory = "PPE" | "Fall" | "Fire" | "Electrical" | "Chemical" | "Machinery" | "Environmental" | "Other";
-type Severity = "Critical" | "High" | "Medium" | "Low";
-type SafetyGrade = "A" | "B" | "C" | "D" | "F";
-type ProcessingStatus = "pending" | "processing" | "completed" | "failed";
-
-interface Hazard {
-    id: string;
-    description: string;
-    location: string;
-    category: HazardCategory;
-    severity: Severity;
-    immediateSolutions: string[];
-    longTermSolutions: string[];
-    estimatedCost?: string;
-    timeToImplement?: string;
-    priority: number;
-}
-
-interface Overall {
-    riskScore: number;
-    safetyGrade: SafetyGrade;
-    topPriorities: string[];
-    complianceStandards?: string[];
-}
-
-interface AnalysisResult {
-    hazards: Hazard[];
-    overallAssessment: Overall;
-    metadata: { analysisTime: number; tokensUsed: number; confidence: number };
-}
-
-interface Inspection {
-    id: string;
-    createdAt: string;
-    updatedAt: string;
-    userId: string;
-    imageUrl: string;
-    originalImageUrl?: string;
-    hazardCount: number | null;
-    riskScore: number | null;
-    safetyGrade: SafetyGrade | null;
-    analysisResults: AnalysisResult | null;
-    processingStatus: ProcessingStatus;
-}
-
-interface InspectionResponse {
-    ok: boolean;
-    inspection: Inspection;
-}
 
 // Custom hooks
-const useAuthHeaders = () => {
-    const { session } = useSession();
-
-    const getAuthToken = useCallback(async (): Promise<string | null> => {
-        if (!session) {
-            console.warn("No active Clerk session found.");
-            return null;
-        }
-
-        try {
-            const token = await session.getToken();
-            return token;
-        } catch (error) {
-            console.error("Error getting Clerk token:", error);
-            return null;
-        }
-    }, [session]);
-
-    const buildAuthHeaders = useCallback(async () => {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-        };
-
-        const token = await getAuthToken();
-        if (!token) {
-            throw new Error("Authentication required. Please ensure you're logged in.");
-        }
-
-        headers["Authorization"] = `Bearer ${token}`;
-        return headers;
-    }, [getAuthToken]);
-
-    return { buildAuthHeaders };
-};
-
 const useInspectionData = (id: string | undefined) => {
     const [loading, setLoading] = useState(true);
     const [refreshing, setRefreshing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<ApiError | null>(null);
     const [inspectionData, setInspectionData] = useState<InspectionResponse | null>(null);
 
     const { session } = useSession();
-    const { buildAuthHeaders } = useAuthHeaders();
+    const api = useApiClient();
+    const { renew } = useAbortController();
 
     const fetchInspection = useCallback(async (isRefresh = false) => {
         if (!id) {
-            setError("No inspection ID provided");
+            setError(new NotFoundError());
             setLoading(false);
             return;
         }
 
         if (!session) {
-            setError("Authentication required");
+            setError(new AuthError());
             setLoading(false);
             return;
         }
 
+        const signal = renew();
         try {
             if (!isRefresh) setLoading(true);
             setError(null);
 
-            const headers = await buildAuthHeaders();
-            const response = await fetch(
-                `${DEFAULT_BASE}/api/inspections/${id}`,
-                { headers }
-            );
-
-            if (!response.ok) {
-                const text = await response.text();
-                if (response.status === 401) {
-                    throw new Error("Authentication failed. Please sign in again.");
-                }
-                if (response.status === 404) {
-                    throw new Error("Inspection not found.");
-                }
-                throw new Error(`Failed to load inspection (${response.status}): ${text}`);
-            }
-
-            const json: InspectionResponse = await response.json();
-            if (!json.ok) {
-                throw new Error("Invalid response format");
-            }
-
+            const json = await api.getInspection(id, { signal });
             setInspectionData(json);
         } catch (e: any) {
-            setError(e?.message || "Failed to load inspection");
+            if (!isAbortError(e)) setError(toApiError(e));
         } finally {
-            setLoading(false);
-            setRefreshing(false);
+            // A newer request owns the loading state once this one is superseded
+            if (!signal.aborted) {
+                setLoading(false);
+                setRefreshing(false);
+            }
         }
-    }, [id, session, buildAuthHeaders]);
+    }, [id, session, api, renew]);
 
     const handleRefresh = useCallback(() => {
         setRefreshing(true);
@@ -181,13 +122,29 @@ const useInspectionData = (id: string | undefined) => {
         fetchInspection();
     }, [fetchInspection]);
 
+    // Keep checking in the background until the analysis reaches a final state
+    const pollInspection = useCallback(async (signal: AbortSignal) => {
+        if (!id) return;
+        const json = await api.getInspection(id, { signal, retries: 0 });
+        setInspectionData(json);
+    }, [id, api]);
+
+    const status = inspectionData?.inspection.processingStatus;
+    usePolling(pollInspection, { enabled: !!status && !isFinalStatus(status) });
+
+    // Applies a change the server has already accepted without refetching
+    const updateInspection = useCallback((update: (inspection: Inspection) => Inspection) => {
+        setInspectionData((current) => (current ? { ...current, inspection: update(current.inspection) } : current));
+    }, []);
+
     return {
         loading,
         refreshing,
         error,
         inspectionData,
         handleRefresh,
-        fetchInspection
+        fetchInspection,
+        updateInspection
     };
 };
 
@@ -220,6 +177,14 @@ const getSeverityColors = (colors: any) => ({
     Low: colors.success,
 });
 
+/** "Site › Area" for the breadcrumb and shares, or null for unfiled inspections */
+const placeTrail = (inspection: { site?: PlaceRef | null; area?: PlaceRef | null }) =>
+    inspection.site ? [inspection.site.name, inspection.area?.name].filter(Boolean).join(" › ") : null;
+
+// Hazards without a photo index belong to the first (or only) photo
+const hazardsOnPhoto = (hazards: Hazard[], photoIndex: number) =>
+    hazards.filter((hazard) => (hazard.photoIndex ?? 0) === photoIndex);
+
 const getGradeColors = () => ({
     A: "#10b981",
     B: "#3b82f6",
@@ -272,9 +237,29 @@ const LoadingCard: React.FC = () => {
     );
 };
 
-const ErrorCard: React.FC<{ error: string; onRetry: () => void }> = ({ error, onRetry }) => {
+const ACTION_ICONS: Record<RecoveryAction, keyof typeof Ionicons.glyphMap> = {
+    retry: "refresh",
+    compressAndRetry: "refresh",
+    signIn: "log-in-outline",
+    goBack: "arrow-back",
+};
+
+const ErrorCard: React.FC<{ error: ApiError; onRetry: () => void }> = ({ error, onRetry }) => {
     const { colors } = useTheme();
 
+    const handleAction = () => {
+        switch (error.action) {
+            case "signIn":
+                router.replace("/sign-in");
+                break;
+            case "goBack":
+                router.back();
+                break;
+            default:
+                onRetry();
+        }
+    };
+
     return (
         <View style={{
             flex: 1,
@@ -321,19 +306,21 @@ const ErrorCard: React.FC<{ error: string; onRetry: () => void }> = ({ error, on
                     textAlign: "center",
                     lineHeight: 22,
                     marginBottom: 24,
-                }}>{error}</Text>
+                }}>{error.message}</Text>
                 <View style={{ gap: 12, width: "100%" }}>
                     <CustomButton
-                        text="Try Again"
-                        onPress={onRetry}
-                        icon={<Ionicons name="refresh" size={20} color="#fff" />}
-                    />
-                    <CustomButton
-                        text="Go Back"
-                        variant="outline"
-                        onPress={() => router.back()}
-                        icon={<Ionicons name="arrow-back" size={20} color={colors.primary} />}
+                        text={ACTION_LABELS[error.action]}
+                        onPress={handleAction}
+                        icon={<Ionicons name={ACTION_ICONS[error.action]} size={20} color="#fff" />}
                     />
+                    {error.action !== "goBack" && (
+                        <CustomButton
+                            text="Go Back"
+                            variant="outline"
+                            onPress={() => router.back()}
+                            icon={<Ionicons name="arrow-back" size={20} color={colors.primary} />}
+                        />
+                    )}
                 </View>
             </View>
         </View>
@@ -425,14 +412,35 @@ const ProcessingStatusCard: React.FC<{
     );
 };
 
-const ImagePreviewCard: React.FC<{
-    imageUrl: string;
+const ImageGalleryCard: React.FC<{
+    imageUrls: string[];
+    metadata?: (PhotoMetadata | null)[] | null;
+    index: number;
+    onIndexChange: (index: number) => void;
     onPress: () => void;
-}> = ({ imageUrl, onPress }) => {
+    hazards: Hazard[];
+    selectedHazardId: string | null;
+    onHazardPress: (hazard: Hazard) => void;
+}> = ({ imageUrls, metadata, index, onIndexChange, onPress, hazards, selectedHazardId, onHazardPress }) => {
     const { colors } = useTheme();
+    const severityColors = getSeverityColors(colors);
+    const current = metadata?.[index] ?? null;
+    const listRef = useRef<FlatList<string>>(null);
+    const [width, setWidth] = useState(0);
+
+    // Follow index changes made elsewhere, e.g. tapping a hazard's photo chip
+    useEffect(() => {
+        if (width > 0) listRef.current?.scrollToOffset({ offset: index * width, animated: true });
+    }, [index, width]);
+
+    const handleScrollEnd = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+        if (width === 0) return;
+        const next = Math.round(event.nativeEvent.contentOffset.x / width);
+        if (next !== index) onIndexChange(next);
+    };
 
     return (
-        <TouchableOpacity
+        <View
             style={{
                 borderRadius: 20,
                 overflow: "hidden",
@@ -446,28 +454,65 @@ const ImagePreviewCard: React.FC<{
                 borderWidth: 1,
                 borderColor: colors.border,
             }}
-            onPress={onPress}
-            activeOpacity={0.95}
+            onLayout={(event) => setWidth(event.nativeEvent.layout.width)}
         >
-            <Image
-                source={{ uri: imageUrl }}
+            <FlatList
+                ref={listRef}
+                data={imageUrls}
+                keyExtractor={(url, i) => `${i}-${url}`}
+                horizontal
+                pagingEnabled
+                showsHorizontalScrollIndicator={false}
+                onMomentumScrollEnd={handleScrollEnd}
+                getItemLayout={(_, i) => ({ length: width, offset: width * i, index: i })}
+                extraData={selectedHazardId}
+                renderItem={({ item, index: itemIndex }) => (
+                    <TouchableOpacity onPress={onPress} activeOpacity={0.95}>
+                        <HazardImage
+                            uri={item}
+                            style={{
+                                width,
+                                height: 260,
+                                backgroundColor: colors.backgroundTertiary,
+                            }}
+                            resizeMode="cover"
+                            hazards={hazardsOnPhoto(hazards, itemIndex)}
+                            severityColors={severityColors}
+                            selectedHazardId={selectedHazardId}
+                            onHazardPress={onHazardPress}
+                        />
+                    </TouchableOpacity>
+                )}
+            />
+            <View
+                pointerEvents="none"
                 style={{
-                    width: "100%",
-                    height: 260,
-                    backgroundColor: colors.backgroundTertiary,
+                    position: "absolute",
+                    bottom: 0,
+                    left: 0,
+                    right: 0,
+                    height: 60,
+                    backgroundColor: "rgba(0,0,0,0.6)",
+                    justifyContent: "center",
+                    alignItems: "center",
+                    gap: 6,
                 }}
-                resizeMode="cover"
-            />
-            <View style={{
-                position: "absolute",
-                bottom: 0,
-                left: 0,
-                right: 0,
-                height: 60,
-                backgroundColor: "rgba(0,0,0,0.6)",
-                justifyContent: "center",
-                alignItems: "center",
-            }}>
+            >
+                {imageUrls.length > 1 && (
+                    <View style={{ flexDirection: "row", gap: 6 }}>
+                        {imageUrls.map((url, i) => (
+                            <View
+                                key={`${i}-${url}`}
+                                style={{
+                                    width: i === index ? 16 : 6,
+                                    height: 6,
+                                    borderRadius: 3,
+                                    backgroundColor: i === index ? "#fff" : "rgba(255,255,255,0.5)",
+                                }}
+                            />
+                        ))}
+                    </View>
+                )}
                 <View style={{
                     flexDirection: "row",
                     alignItems: "center",
@@ -478,10 +523,41 @@ const ImagePreviewCard: React.FC<{
                         color: "#fff",
                         fontSize: 14,
                         fontWeight: "600",
-                    }}>Tap to expand</Text>
+                    }}>
+                        {imageUrls.length > 1
+                            ? `Photo ${index + 1} of ${imageUrls.length} · Tap to expand`
+                            : "Tap to expand"}
+                    </Text>
                 </View>
             </View>
-        </TouchableOpacity>
+            {(current?.capturedAt || current?.location) && (
+                <View style={{
+                    paddingHorizontal: 16,
+                    paddingVertical: 12,
+                    gap: 4,
+                    borderTopWidth: 1,
+                    borderTopColor: colors.borderLight,
+                }}>
+                    {current.capturedAt && (
+                        <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+                            <Ionicons name="time-outline" size={14} color={colors.textSecondary} />
+                            <Text style={{ fontSize: 13, color: colors.textSecondary }}>
+                                {formatCapturedAt(current.capturedAt)}
+                            </Text>
+                        </View>
+                    )}
+                    {current.location && (
+                        <View style={{ flexDirection: "row", alignItems: "center", gap: 6 }}>
+                            <Ionicons name="location-outline" size={14} color={colors.textSecondary} />
+                            <Text style={{ fontSize: 13, color: colors.textSecondary }}>
+                                {formatCoordinates(current.location)}
+                                {current.location.accuracy ? ` (±${Math.round(current.location.accuracy)} m)` : ""}
+                            </Text>
+                        </View>
+                    )}
+                </View>
+            )}
+        </View>
     );
 };
 
@@ -551,24 +627,174 @@ const MetricCard: React.FC<{
     );
 };
 
-const HazardCard: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
+const SITE_CONTEXT_FIELDS: { key: keyof SiteContext; label: string; icon: keyof typeof Ionicons.glyphMap }[] = [
+    { key: "site", label: "Site or project", icon: "business-outline" },
+    { key: "activity", label: "Work activity", icon: "construct-outline" },
+    { key: "industry", label: "Industry", icon: "briefcase-outline" },
+    { key: "regulations", label: "Regulations", icon: "document-text-outline" },
+    { key: "notes", label: "Notes", icon: "chatbox-ellipses-outline" },
+];
+
+const SiteContextCard: React.FC<{ context: SiteContext }> = ({ context }) => {
     const { colors } = useTheme();
-    const severityColors = getSeverityColors(colors);
+    const fields = SITE_CONTEXT_FIELDS.filter(({ key }) => context[key]?.trim());
+    if (fields.length === 0) return null;
 
     return (
         <View style={{
             backgroundColor: colors.surface,
-            borderRadius: 16,
+            borderRadius: 20,
             padding: 20,
-            marginBottom: 12,
-            shadowColor: colors.shadow,
-            shadowOffset: { width: 0, height: 2 },
-            shadowOpacity: 0.05,
-            shadowRadius: 8,
-            elevation: 3,
+            marginBottom: 16,
             borderWidth: 1,
             borderColor: colors.border,
         }}>
+            <Text style={{
+                fontSize: 18,
+                fontWeight: "700",
+                color: colors.text,
+                marginBottom: 12,
+            }}>Site Context</Text>
+            {fields.map(({ key, label, icon }) => (
+                <View key={key} style={{ flexDirection: "row", gap: 12, marginBottom: 10 }}>
+                    <Ionicons name={icon} size={18} color={colors.primary} style={{ marginTop: 2 }} />
+                    <View style={{ flex: 1 }}>
+                        <Text style={{
+                            fontSize: 11,
+                            color: colors.textSecondary,
+                            textTransform: "uppercase",
+                            letterSpacing: 0.5,
+                        }}>{label}</Text>
+                        <Text style={{ fontSize: 15, color: colors.text, marginTop: 2, lineHeight: 20 }}>
+                            {context[key]}
+                        </Text>
+                    </View>
+                </View>
+            ))}
+        </View>
+    );
+};
+
+const SolutionRow: React.FC<{
+    solution: string;
+    /** The corrective action raised from this solution, if any */
+    action?: CorrectiveAction;
+    onActionPress?: () => void;
+}> = ({ solution, action, onActionPress }) => {
+    const { colors } = useTheme();
+    const statusColor = action ? actionStatusColor(action, colors) : colors.primary;
+
+    return (
+        <View style={{
+            flexDirection: "row",
+            alignItems: "flex-start",
+            marginBottom: 8,
+        }}>
+            <View style={{ width: 20, marginTop: 2 }}>
+                <Text style={{
+                    fontSize: 14,
+                    color: colors.textSecondary,
+                }}>•</Text>
+            </View>
+            <Text style={{
+                flex: 1,
+                fontSize: 14,
+                color: colors.textSecondary,
+                lineHeight: 20,
+            }}>{solution}</Text>
+            {onActionPress && (
+                <TouchableOpacity
+                    onPress={onActionPress}
+                    style={{
+                        flexDirection: "row",
+                        alignItems: "center",
+                        gap: 4,
+                        marginLeft: 8,
+                        paddingHorizontal: 8,
+                        paddingVertical: 4,
+                        borderRadius: 6,
+                        borderWidth: action ? 0 : 1,
+                        borderColor: colors.primary,
+                        backgroundColor: action ? statusColor + '15' : "transparent",
+                    }}
+                >
+                    <Ionicons
+                        name={action ? "checkbox-outline" : "add"}
+                        size={14}
+                        color={statusColor}
+                    />
+                    <Text style={{
+                        fontSize: 12,
+                        fontWeight: "600",
+                        color: statusColor,
+                    }}>{action ? ACTION_STATUS_LABELS[action.status] : "Action"}</Text>
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+};
+
+/** What the inspector changed, as "Severity: High (AI: Critical)" lines */
+const describeReviewChanges = (hazard: ReviewedHazard) => {
+    const { original } = hazard;
+    return [
+        hazard.severity !== original.severity ? `Severity: ${hazard.severity} (AI: ${original.severity})` : null,
+        hazard.category !== original.category ? `Category: ${hazard.category} (AI: ${original.category})` : null,
+        hazard.description !== original.description ? `AI description: ${original.description}` : null,
+        hazard.location !== original.location ? `AI location: ${original.location}` : null,
+    ].filter(Boolean);
+};
+
+const HazardCard: React.FC<{
+    hazard: ReviewedHazard;
+    onPhotoPress?: (index: number) => void;
+    /** Highlights the hazard's box on the photo; only offered when it has one */
+    onPress?: (hazard: Hazard) => void;
+    selected?: boolean;
+    cardRef?: React.Ref<View>;
+    /** Corrective actions raised from this hazard's solutions */
+    actions?: CorrectiveAction[];
+    /** Creates or opens the corrective action for one of the solutions */
+    onSolutionAction?: (hazard: Hazard, solution: string, solutionType: SolutionType) => void;
+    /** Opens the inspector's review of an AI hazard */
+    onReview?: (hazard: ReviewedHazard) => void;
+    /** Deletes a hazard the inspector added */
+    onRemove?: (hazard: ReviewedHazard) => void;
+}> = ({ hazard, onPhotoPress, onPress, selected, cardRef, actions, onSolutionAction, onReview, onRemove }) => {
+    const { colors } = useTheme();
+    const severityColors = getSeverityColors(colors);
+    const photoIndex = hazard.photoIndex;
+    const hasRegions = Boolean(hazard.regions?.length);
+    const actionFor = (solution: string, solutionType: SolutionType) =>
+        actions?.find((action) => action.solution === solution && action.solutionType === solutionType);
+    const reviewChanges = isEdited(hazard) ? describeReviewChanges(hazard) : [];
+    const inspectorAdded = isInspectorAdded(hazard);
+    const fromChecklist = isFromChecklist(hazard);
+    const sourceBadge = inspectorAdded
+        ? { icon: "person-circle-outline" as const, label: "Added by inspector" }
+        : fromChecklist
+            ? { icon: "list-outline" as const, label: "From checklist" }
+            : null;
+
+    return (
+        <Pressable
+            ref={cardRef}
+            onPress={onPress && hasRegions ? () => onPress(hazard) : undefined}
+            disabled={!onPress || !hasRegions}
+            style={{
+                backgroundColor: colors.surface,
+                borderRadius: 16,
+                padding: 20,
+                marginBottom: 12,
+                shadowColor: colors.shadow,
+                shadowOffset: { width: 0, height: 2 },
+                shadowOpacity: 0.05,
+                shadowRadius: 8,
+                elevation: 3,
+                borderWidth: selected ? 2 : 1,
+                borderColor: selected ? severityColors[hazard.severity] : colors.border,
+            }}
+        >
             <View style={{
                 flexDirection: "row",
                 justifyContent: "space-between",
@@ -581,6 +807,26 @@ const HazardCard: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
                         color: colors.text,
                         marginBottom: 6,
                     }}>{hazard.description}</Text>
+                    {sourceBadge && (
+                        <View style={{
+                            flexDirection: "row",
+                            alignItems: "center",
+                            alignSelf: "flex-start",
+                            gap: 4,
+                            marginBottom: 6,
+                            paddingHorizontal: 8,
+                            paddingVertical: 3,
+                            borderRadius: 6,
+                            backgroundColor: colors.primary + '15',
+                        }}>
+                            <Ionicons name={sourceBadge.icon} size={14} color={colors.primary} />
+                            <Text style={{
+                                fontSize: 11,
+                                fontWeight: "700",
+                                color: colors.primary,
+                            }}>{sourceBadge.label}</Text>
+                        </View>
+                    )}
                     <View style={{
                         flexDirection: "row",
                         alignItems: "center",
@@ -592,21 +838,126 @@ const HazardCard: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
                             color: colors.textSecondary,
                         }}>{hazard.location}</Text>
                     </View>
+                    {onPhotoPress && photoIndex != null && (
+                        <TouchableOpacity
+                            onPress={() => onPhotoPress(photoIndex)}
+                            style={{
+                                flexDirection: "row",
+                                alignItems: "center",
+                                alignSelf: "flex-start",
+                                gap: 4,
+                                marginTop: 8,
+                                paddingHorizontal: 8,
+                                paddingVertical: 4,
+                                borderRadius: 8,
+                                backgroundColor: colors.backgroundTertiary,
+                            }}
+                        >
+                            <Ionicons name="image-outline" size={14} color={colors.primary} />
+                            <Text style={{
+                                fontSize: 12,
+                                fontWeight: "600",
+                                color: colors.primary,
+                            }}>Photo {photoIndex + 1}</Text>
+                        </TouchableOpacity>
+                    )}
+                    {onPress && hasRegions && (
+                        <View style={{
+                            flexDirection: "row",
+                            alignItems: "center",
+                            gap: 4,
+                            marginTop: 8,
+                        }}>
+                            <Ionicons name="scan-outline" size={14} color={colors.textSecondary} />
+                            <Text style={{
+                                fontSize: 12,
+                                color: colors.textSecondary,
+                            }}>{selected ? "Marked on the photo" : "Tap to show on the photo"}</Text>
+                        </View>
+                    )}
+                </View>
+                <View style={{ alignItems: "flex-end", gap: 8 }}>
+                    <View style={{
+                        paddingHorizontal: 14,
+                        paddingVertical: 6,
+                        borderRadius: 10,
+                        backgroundColor: severityColors[hazard.severity] + '15',
+                    }}>
+                        <Text style={{
+                            fontSize: 13,
+                            fontWeight: "700",
+                            color: severityColors[hazard.severity],
+                        }}>{hazard.severity}</Text>
+                    </View>
+                    {inspectorAdded ? onRemove && (
+                        <TouchableOpacity
+                            onPress={() => onRemove(hazard)}
+                            style={{
+                                flexDirection: "row",
+                                alignItems: "center",
+                                gap: 4,
+                                paddingVertical: 4,
+                            }}
+                        >
+                            <Ionicons name="trash-outline" size={14} color={colors.error} />
+                            <Text style={{
+                                fontSize: 12,
+                                fontWeight: "600",
+                                color: colors.error,
+                            }}>Remove</Text>
+                        </TouchableOpacity>
+                    ) : onReview && !fromChecklist && (
+                        <TouchableOpacity
+                            onPress={() => onReview(hazard)}
+                            style={{
+                                flexDirection: "row",
+                                alignItems: "center",
+                                gap: 4,
+                                paddingVertical: 4,
+                            }}
+                        >
+                            <Ionicons name="create-outline" size={14} color={colors.primary} />
+                            <Text style={{
+                                fontSize: 12,
+                                fontWeight: "600",
+                                color: colors.primary,
+                            }}>Review</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
+            </View>
+
+            {reviewChanges.length > 0 && (
                 <View style={{
-                    paddingHorizontal: 14,
-                    paddingVertical: 6,
-                    borderRadius: 10,
-                    backgroundColor: severityColors[hazard.severity] + '15',
-                    alignSelf: "flex-start",
+                    marginBottom: 16,
+                    padding: 12,
+                    borderRadius: 12,
+                    backgroundColor: colors.backgroundTertiary,
+                    borderWidth: 1,
+                    borderColor: colors.borderLight,
                 }}>
-                    <Text style={{
-                        fontSize: 13,
-                        fontWeight: "700",
-                        color: severityColors[hazard.severity],
-                    }}>{hazard.severity}</Text>
+                    <View style={{
+                        flexDirection: "row",
+                        alignItems: "center",
+                        gap: 6,
+                        marginBottom: 6,
+                    }}>
+                        <Ionicons name="person-circle-outline" size={16} color={colors.primary} />
+                        <Text style={{
+                            fontSize: 12,
+                            fontWeight: "700",
+                            color: colors.primary,
+                        }}>Edited by inspector</Text>
+                    </View>
+                    {reviewChanges.map((line) => (
+                        <Text key={line} style={{
+                            fontSize: 12,
+                            color: colors.textSecondary,
+                            lineHeight: 18,
+                        }}>{line}</Text>
+                    ))}
                 </View>
-            </View>
+            )}
 
             <View style={{
                 flexDirection: "row",
@@ -702,23 +1053,12 @@ const HazardCard: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
                         }}>Immediate Actions</Text>
                     </View>
                     {hazard.immediateSolutions.map((solution, index) => (
-                        <View key={`immediate-${index}`} style={{
-                            flexDirection: "row",
-                            marginBottom: 8,
-                        }}>
-                            <View style={{ width: 20, marginTop: 2 }}>
-                                <Text style={{
-                                    fontSize: 14,
-                                    color: colors.textSecondary,
-                                }}>•</Text>
-                            </View>
-                            <Text style={{
-                                flex: 1,
-                                fontSize: 14,
-                                color: colors.textSecondary,
-                                lineHeight: 20,
-                            }}>{solution}</Text>
-                        </View>
+                        <SolutionRow
+                            key={`immediate-${index}`}
+                            solution={solution}
+                            action={actionFor(solution, "immediate")}
+                            onActionPress={onSolutionAction ? () => onSolutionAction(hazard, solution, "immediate") : undefined}
+                        />
                     ))}
                 </View>
 
@@ -743,26 +1083,168 @@ const HazardCard: React.FC<{ hazard: Hazard }> = ({ hazard }) => {
                         }}>Long-term Solutions</Text>
                     </View>
                     {hazard.longTermSolutions.map((solution, index) => (
-                        <View key={`longterm-${index}`} style={{
-                            flexDirection: "row",
-                            marginBottom: 8,
-                        }}>
-                            <View style={{ width: 20, marginTop: 2 }}>
-                                <Text style={{
-                                    fontSize: 14,
-                                    color: colors.textSecondary,
-                                }}>•</Text>
-                            </View>
-                            <Text style={{
-                                flex: 1,
-                                fontSize: 14,
-                                color: colors.textSecondary,
-                                lineHeight: 20,
-                            }}>{solution}</Text>
-                        </View>
+                        <SolutionRow
+                            key={`longterm-${index}`}
+                            solution={solution}
+                            action={actionFor(solution, "longTerm")}
+                            onActionPress={onSolutionAction ? () => onSolutionAction(hazard, solution, "longTerm") : undefined}
+                        />
                     ))}
                 </View>
             </View>
+        </Pressable>
+    );
+};
+
+const DismissedHazardRow: React.FC<{
+    hazard: ReviewedHazard;
+    onReview: (hazard: ReviewedHazard) => void;
+}> = ({ hazard, onReview }) => {
+    const { colors } = useTheme();
+
+    return (
+        <View style={{
+            flexDirection: "row",
+            alignItems: "flex-start",
+            gap: 12,
+            paddingVertical: 12,
+            borderBottomWidth: 1,
+            borderBottomColor: colors.borderLight,
+        }}>
+            <View style={{ flex: 1 }}>
+                <Text style={{
+                    fontSize: 14,
+                    fontWeight: "600",
+                    color: colors.textSecondary,
+                    textDecorationLine: "line-through",
+                }}>{hazard.original.description}</Text>
+                <Text style={{
+                    fontSize: 12,
+                    color: colors.textTertiary,
+                    marginTop: 2,
+                }}>AI: {hazard.original.severity} · {hazard.original.category}</Text>
+                {hazard.review?.dismissReason && (
+                    <Text style={{
+                        fontSize: 13,
+                        color: colors.text,
+                        marginTop: 6,
+                        lineHeight: 18,
+                    }}>{hazard.review.dismissReason}</Text>
+                )}
+            </View>
+            <TouchableOpacity onPress={() => onReview(hazard)} style={{ paddingVertical: 2 }}>
+                <Text style={{
+                    fontSize: 13,
+                    fontWeight: "600",
+                    color: colors.primary,
+                }}>Review</Text>
+            </TouchableOpacity>
+        </View>
+    );
+};
+
+const answersById = (checklist: Checklist) =>
+    Object.fromEntries(checklist.answers.map((entry) => [entry.itemId, entry]));
+
+// The template's answers; items answered "No" are listed first, the rest on request
+const ChecklistCard: React.FC<{ checklist: Checklist }> = ({ checklist }) => {
+    const { colors } = useTheme();
+    const [expanded, setExpanded] = useState(false);
+    const answers = answersById(checklist);
+    const progress = checklistProgress(checklist.sections, answers);
+    const answerColor = (answer: ChecklistAnswer | undefined) =>
+        answer === "yes" ? colors.success : answer === "no" ? colors.error : colors.textSecondary;
+
+    return (
+        <View style={{
+            backgroundColor: colors.surface,
+            borderRadius: 16,
+            padding: 20,
+            marginBottom: 24,
+            borderWidth: 1,
+            borderColor: colors.border,
+        }}>
+            <View style={{
+                flexDirection: "row",
+                alignItems: "center",
+                gap: 8,
+            }}>
+                <Ionicons name="list-outline" size={20} color={colors.primary} />
+                <Text style={{
+                    flex: 1,
+                    fontSize: 18,
+                    fontWeight: "700",
+                    color: colors.text,
+                }}>{checklist.templateName}</Text>
+            </View>
+            <Text style={{
+                fontSize: 13,
+                color: progress.failed > 0 ? colors.error : colors.textSecondary,
+                marginTop: 4,
+                marginBottom: 8,
+            }}>
+                {progress.failed > 0
+                    ? `${progress.failed} of ${progress.total} items failed and are listed as hazards`
+                    : `All ${progress.total} items passed or not applicable`}
+            </Text>
+
+            {checklist.sections.map((section) => {
+                const items = section.items.filter((item) => expanded || answers[item.id]?.answer === "no");
+                if (items.length === 0) return null;
+                return (
+                    <View key={section.id} style={{ marginTop: 12 }}>
+                        <Text style={{
+                            fontSize: 12,
+                            fontWeight: "700",
+                            color: colors.textSecondary,
+                            textTransform: "uppercase",
+                            letterSpacing: 0.5,
+                            marginBottom: 4,
+                        }}>{section.title}</Text>
+                        {items.map((item) => {
+                            const entry = answers[item.id];
+                            return (
+                                <View key={item.id} style={{
+                                    flexDirection: "row",
+                                    alignItems: "flex-start",
+                                    gap: 12,
+                                    paddingVertical: 8,
+                                    borderBottomWidth: 1,
+                                    borderBottomColor: colors.borderLight,
+                                }}>
+                                    <View style={{ flex: 1 }}>
+                                        <Text style={{
+                                            fontSize: 14,
+                                            color: colors.text,
+                                            lineHeight: 20,
+                                        }}>{item.text}</Text>
+                                        {entry?.note && (
+                                            <Text style={{
+                                                fontSize: 13,
+                                                color: colors.textSecondary,
+                                                marginTop: 2,
+                                            }}>{entry.note}</Text>
+                                        )}
+                                    </View>
+                                    <Text style={{
+                                        fontSize: 13,
+                                        fontWeight: "700",
+                                        color: answerColor(entry?.answer),
+                                    }}>{entry ? CHECKLIST_ANSWER_LABELS[entry.answer] : "-"}</Text>
+                                </View>
+                            );
+                        })}
+                    </View>
+                );
+            })}
+
+            <TouchableOpacity onPress={() => setExpanded((current) => !current)} style={{ marginTop: 12 }}>
+                <Text style={{
+                    fontSize: 14,
+                    fontWeight: "600",
+                    color: colors.primary,
+                }}>{expanded ? "Show failed items only" : "Show all answers"}</Text>
+            </TouchableOpacity>
         </View>
     );
 };
@@ -772,6 +1254,15 @@ export default function InspectionScreen() {
     const { id } = useLocalSearchParams<{ id: string }>();
     const { colors } = useTheme();
     const [showImageModal, setShowImageModal] = useState(false);
+    const [photoIndex, setPhotoIndex] = useState(0);
+    const [showOriginal, setShowOriginal] = useState(false);
+    const [selectedHazardId, setSelectedHazardId] = useState<string | null>(null);
+
+    // Lets the photo and the hazard list scroll each other into view
+    const scrollRef = useRef<ScrollView>(null);
+    const scrollOffset = useRef(0);
+    const galleryRef = useRef<View>(null);
+    const hazardRefs = useRef(new Map<string, View>());
 
     // Animation values
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -784,9 +1275,44 @@ export default function InspectionScreen() {
         error,
         inspectionData,
         handleRefresh,
-        fetchInspection
+        fetchInspection,
+        updateInspection
     } = useInspectionData(id);
 
+    // The inspector's corrections applied over the AI hazards, plus failed checklist items
+    // and any hazards they added; dismissed ones drop out of the score
+    const failedChecklistItems = useMemo(() => {
+        const checklist = inspectionData?.inspection.checklist;
+        return checklist ? checklistHazards(checklist.sections, checklist.answers) : [];
+    }, [inspectionData]);
+    const reviewedHazards = useMemo(
+        () => combineHazards(
+            inspectionData?.inspection.analysisResults?.hazards ?? [],
+            inspectionData?.inspection.hazardReviews,
+            inspectionData?.inspection.inspectorHazards,
+            failedChecklistItems,
+        ),
+        [inspectionData, failedChecklistItems],
+    );
+    const activeHazards = useMemo(() => reviewedHazards.filter((hazard) => !isDismissed(hazard)), [reviewedHazards]);
+    const dismissedHazards = reviewedHazards.filter(isDismissed);
+    // Null while the inspector's changes leave the model's score as it was
+    const reviewedScore = useMemo(
+        () => adjustScore(inspectionData?.inspection.analysisResults?.overallAssessment?.riskScore, reviewedHazards),
+        [inspectionData, reviewedHazards],
+    );
+    const [reviewTarget, setReviewTarget] = useState<ReviewedHazard | null>(null);
+    const [showAddHazard, setShowAddHazard] = useState(false);
+
+    const { session } = useSession();
+    const api = useApiClient();
+    const correctiveActions = useCorrectiveActions(api, { inspectionId: id, enabled: Boolean(id && session) });
+    const [actionTarget, setActionTarget] = useState<{
+        hazard: Hazard;
+        solution: string;
+        solutionType: SolutionType;
+    } | null>(null);
+
     // Animations on mount
     useEffect(() => {
         Animated.parallel([
@@ -815,17 +1341,28 @@ export default function InspectionScreen() {
 
         const { inspection } = inspectionData;
         const analysis = inspection.analysisResults;
-
+        const photoEvidence = (inspection.photoMetadata ?? [])
+            .map((metadata, i) => {
+                const line = describePhotoMetadata(metadata);
+                return line ? `• Photo ${i + 1}: ${line}` : null;
+            })
+            .filter(Boolean)
+            .join('\n');
+
+        const trail = placeTrail(inspection);
+        const checklist = inspection.checklist;
+        const checklistFailed = checklist ? checklistProgress(checklist.sections, answersById(checklist)).failed : 0;
         const summary = `HSE Inspection Report
-Date: ${new Date(inspection.createdAt).toLocaleDateString()}
-Risk Score: ${inspection.riskScore || 'N/A'}/100
-Safety Grade: ${inspection.safetyGrade || 'N/A'}
-Hazards Found: ${inspection.hazardCount || 0}
+${trail ? `Site: ${trail}\n` : ''}${checklist ? `Checklist: ${checklist.templateName} (${checklistFailed} failed)\n` : ''}Date: ${new Date(inspection.createdAt).toLocaleDateString()}
+Risk Score: ${(reviewedScore?.riskScore ?? inspection.riskScore) || 'N/A'}/100
+Safety Grade: ${reviewedScore?.safetyGrade ?? inspection.safetyGrade ?? 'N/A'}
+Hazards Found: ${reviewedScore?.hazardCount ?? inspection.hazardCount ?? 0}
+Photos: ${inspectionImageUrls(inspection).length}
 Status: ${inspection.processingStatus}
-
-${analysis?.hazards?.length ?
-            `Top Issues:\n${analysis.hazards.slice(0, 3).map(h => `• ${h.description}`).join('\n')}` :
-            'No detailed analysis available'}
+${photoEvidence ? `\nPhoto evidence:\n${photoEvidence}\n` : ''}
+${activeHazards.length ?
+            `Top Issues:\n${activeHazards.slice(0, 3).map(h => `• ${h.description}`).join('\n')}` :
+            analysis ? 'No hazards identified' : 'No detailed analysis available'}
 
 Generated by HSE Safety App`;
 
@@ -837,16 +1374,112 @@ Generated by HSE Safety App`;
         } catch (error) {
             console.error('Error sharing:', error);
         }
-    }, [inspectionData]);
+    }, [inspectionData, activeHazards, reviewedScore]);
+
+    const scrollIntoView = (target: View | null | undefined) => {
+        const scrollView = scrollRef.current;
+        const scrollNode = scrollView?.getNativeScrollRef();
+        if (!target || !scrollView || !scrollNode) return;
+        scrollNode.measureInWindow((_x, scrollTop) => {
+            target.measureInWindow((_tx, targetTop) => {
+                scrollView.scrollTo({ y: Math.max(scrollOffset.current + targetTop - scrollTop - 16, 0), animated: true });
+            });
+        });
+    };
 
-    // Prepare sections data
-    const hazardSections = useMemo(() => {
-        if (!inspectionData?.inspection?.analysisResults?.hazards?.length) {
-            return [];
+    // Tapping a box on the photo jumps to the hazard's card
+    const showHazardCard = (hazard: Hazard) => {
+        setSelectedHazardId(hazard.id);
+        scrollIntoView(hazardRefs.current.get(hazard.id));
+    };
+
+    // Tapping a card brings its photo back into view with the box highlighted
+    const showHazardOnPhoto = (hazard: Hazard) => {
+        setSelectedHazardId(hazard.id);
+        setPhotoIndex(hazard.photoIndex ?? 0);
+        scrollIntoView(galleryRef.current);
+    };
+
+    const openSolutionAction = (hazard: Hazard, solution: string, solutionType: SolutionType) => {
+        setActionTarget({ hazard, solution, solutionType });
+    };
+
+    const targetAction = actionTarget
+        ? correctiveActions.actions.find((action) =>
+            action.hazardId === actionTarget.hazard.id &&
+            action.solution === actionTarget.solution &&
+            action.solutionType === actionTarget.solutionType) ?? null
+        : null;
+
+    const saveCorrectiveAction = async (fields: CorrectiveActionFields) => {
+        if (!actionTarget || !id) return;
+        if (targetAction) {
+            await correctiveActions.updateAction(targetAction.id, fields);
+            return;
+        }
+        await correctiveActions.createAction({
+            ...fields,
+            inspectionId: id,
+            hazardId: actionTarget.hazard.id,
+            hazardDescription: actionTarget.hazard.description,
+            solution: actionTarget.solution,
+            solutionType: actionTarget.solutionType,
+        });
+    };
+
+    const saveHazardReview = async (changes: HazardReviewChanges | null) => {
+        if (!reviewTarget || !id) return;
+        const hazardId = reviewTarget.id;
+        let review: HazardReview | null = null;
+        if (changes) {
+            review = (await api.reviewHazard(id, hazardId, changes)).review;
+        } else if (reviewTarget.review) {
+            await api.clearHazardReview(id, hazardId);
         }
+        updateInspection((current) => ({
+            ...current,
+            hazardReviews: [
+                ...(current.hazardReviews ?? []).filter((entry) => entry.hazardId !== hazardId),
+                ...(review ? [review] : []),
+            ],
+        }));
+    };
+
+    const addHazard = async (input: NewHazardInput) => {
+        if (!id) return;
+        const { hazard } = await api.addHazard(id, input);
+        updateInspection((current) => ({
+            ...current,
+            inspectorHazards: [...(current.inspectorHazards ?? []), hazard],
+        }));
+    };
 
-        const map = new Map<HazardCategory, Hazard[]>();
-        for (const hazard of inspectionData.inspection.analysisResults.hazards) {
+    const confirmRemoveHazard = (hazard: ReviewedHazard) => {
+        if (!id) return;
+        Alert.alert('Remove hazard?', `"${hazard.description}" will be removed from this inspection.`, [
+            { text: 'Cancel', style: 'cancel' },
+            {
+                text: 'Remove',
+                style: 'destructive',
+                onPress: async () => {
+                    try {
+                        await api.removeHazard(id, hazard.id);
+                        updateInspection((current) => ({
+                            ...current,
+                            inspectorHazards: (current.inspectorHazards ?? []).filter((entry) => entry.id !== hazard.id),
+                        }));
+                    } catch (e) {
+                        Alert.alert('Could not remove hazard', toApiError(e).message);
+                    }
+                },
+            },
+        ]);
+    };
+
+    // Prepare sections data
+    const hazardSections = useMemo(() => {
+        const map = new Map<HazardCategory, ReviewedHazard[]>();
+        for (const hazard of activeHazards) {
             const arr = map.get(hazard.category) ?? [];
             arr.push(hazard);
             map.set(hazard.category, arr);
@@ -855,7 +1488,7 @@ Generated by HSE Safety App`;
         return Array.from(map.entries())
             .sort((a, b) => a[0].localeCompare(b[0]))
             .map(([title, data]) => ({ title, data }));
-    }, [inspectionData]);
+    }, [activeHazards]);
 
     // Render states
     if (loading) {
@@ -872,6 +1505,16 @@ Generated by HSE Safety App`;
 
     const { inspection } = inspectionData;
     const analysis = inspection.analysisResults;
+    const overall = analysis?.overallAssessment ?? null;
+    const riskScore = reviewedScore?.riskScore ?? overall?.riskScore ?? null;
+    const imageUrls = inspectionImageUrls(inspection);
+    // Marked-up photos keep their untouched original alongside the annotated copy
+    const originalUrl = inspectionOriginalUrls(inspection)[photoIndex] ?? null;
+
+    const closeImageModal = () => {
+        setShowImageModal(false);
+        setShowOriginal(false);
+    };
 
     return (
         <>
@@ -881,6 +1524,11 @@ Generated by HSE Safety App`;
             }}>
                 <FloatingActions />
                 <ScrollView
+                    ref={scrollRef}
+                    onScroll={(event) => {
+                        scrollOffset.current = event.nativeEvent.contentOffset.y;
+                    }}
+                    scrollEventThrottle={16}
                     style={{ flex: 1 }}
                     contentContainerStyle={{
                         paddingTop: Platform.select({ ios: 60, android: 40, default: 40 }),
@@ -937,6 +1585,17 @@ Generated by HSE Safety App`;
                             </TouchableOpacity>
 
                             <View style={{ flex: 1, marginHorizontal: 16 }}>
+                                {placeTrail(inspection) && (
+                                    <View style={{ flexDirection: "row", alignItems: "center", gap: 4, marginBottom: 2 }}>
+                                        <Ionicons name="location-outline" size={12} color={colors.primary} />
+                                        <Text
+                                            numberOfLines={1}
+                                            style={{ flex: 1, fontSize: 12, fontWeight: "600", color: colors.primary }}
+                                        >
+                                            {placeTrail(inspection)}
+                                        </Text>
+                                    </View>
+                                )}
                                 <Text style={{
                                     fontSize: 22,
                                     fontWeight: "800",
@@ -977,13 +1636,27 @@ Generated by HSE Safety App`;
                             onRefresh={handleRefresh}
                         />
 
-                        <ImagePreviewCard
-                            imageUrl={inspection.imageUrl}
-                            onPress={() => setShowImageModal(true)}
-                        />
+                        <View ref={galleryRef}>
+                            <ImageGalleryCard
+                                imageUrls={imageUrls}
+                                metadata={inspection.photoMetadata}
+                                index={photoIndex}
+                                onIndexChange={setPhotoIndex}
+                                onPress={() => setShowImageModal(true)}
+                                hazards={activeHazards}
+                                selectedHazardId={selectedHazardId}
+                                onHazardPress={showHazardCard}
+                            />
+                        </View>
+
+                        {inspection.siteContext && <SiteContextCard context={inspection.siteContext} />}
 
                         {inspection.processingStatus === "completed" && analysis ? (
                             <>
+                                {analysis.partial && (
+                                    <PartialResultBanner hazardCount={analysis.hazards.length} issues={analysis.issues} />
+                                )}
+
                                 {/* Overall Assessment Card */}
                                 <View style={{
                                     backgroundColor: colors.surface,
@@ -1014,9 +1687,11 @@ Generated by HSE Safety App`;
                                                 fontSize: 14,
                                                 color: colors.textSecondary,
                                                 marginTop: 2,
-                                            }}>AI-powered analysis complete</Text>
+                                            }}>{reviewedScore ? "Adjusted after inspector review" : "AI-powered analysis complete"}</Text>
                                         </View>
-                                        <GradeBadge grade={analysis.overallAssessment.safetyGrade} />
+                                        {reviewedScore
+                                            ? <GradeBadge grade={reviewedScore.safetyGrade} />
+                                            : overall && <GradeBadge grade={overall.safetyGrade} />}
                                     </View>
 
                                     {/* Metrics Grid */}
@@ -1024,29 +1699,29 @@ Generated by HSE Safety App`;
                                         <MetricCard
                                             icon="speedometer"
                                             label="Risk Score"
-                                            value={`${analysis.overallAssessment.riskScore}`}
-                                            suffix="/100"
-                                            color={getRiskScoreColor(analysis.overallAssessment.riskScore, colors)}
+                                            value={riskScore != null ? `${riskScore}` : "-"}
+                                            suffix={riskScore != null ? "/100" : ""}
+                                            color={riskScore != null ? getRiskScoreColor(riskScore, colors) : colors.textTertiary}
                                         />
                                         <MetricCard
                                             icon="warning"
                                             label="Hazards"
-                                            value={String(analysis.hazards.length)}
+                                            value={String(activeHazards.length)}
                                             suffix=""
                                             color={colors.warning}
                                         />
                                         <MetricCard
                                             icon="shield-checkmark"
                                             label="Confidence"
-                                            value={`${analysis.metadata.confidence}`}
-                                            suffix="%"
+                                            value={analysis.metadata ? `${analysis.metadata.confidence}` : "-"}
+                                            suffix={analysis.metadata ? "%" : ""}
                                             color={colors.success}
                                         />
                                     </View>
 
                                     {/* Top Priorities */}
-                                    {analysis.overallAssessment.topPriorities &&
-                                        analysis.overallAssessment.topPriorities.length > 0 && (
+                                    {overall?.topPriorities &&
+                                        overall.topPriorities.length > 0 && (
                                             <View style={{
                                                 marginTop: 20,
                                                 paddingTop: 20,
@@ -1061,7 +1736,7 @@ Generated by HSE Safety App`;
                                                 }}>
                                                     <Ionicons name="flag" size={16} color={colors.primary} /> Top Priorities
                                                 </Text>
-                                                {analysis.overallAssessment.topPriorities.map((priority, index) => (
+                                                {overall.topPriorities.map((priority, index) => (
                                                     <View key={index} style={{
                                                         flexDirection: "row",
                                                         alignItems: "center",
@@ -1094,8 +1769,8 @@ Generated by HSE Safety App`;
                                         )}
 
                                     {/* Compliance Standards */}
-                                    {analysis.overallAssessment.complianceStandards &&
-                                        analysis.overallAssessment.complianceStandards.length > 0 && (
+                                    {overall?.complianceStandards &&
+                                        overall.complianceStandards.length > 0 && (
                                             <View style={{
                                                 marginTop: 20,
                                                 paddingTop: 20,
@@ -1115,7 +1790,7 @@ Generated by HSE Safety App`;
                                                     flexWrap: "wrap",
                                                     gap: 8,
                                                 }}>
-                                                    {analysis.overallAssessment.complianceStandards.map((standard, index) => (
+                                                    {overall.complianceStandards.map((standard, index) => (
                                                         <View key={index} style={{
                                                             backgroundColor: colors.successBackground,
                                                             borderColor: colors.success,
@@ -1135,119 +1810,6 @@ Generated by HSE Safety App`;
                                             </View>
                                         )}
                                 </View>
-
-                                {/* Hazards by Category */}
-                                {hazardSections.length > 0 ? (
-                                    <View style={{ marginBottom: 16 }}>
-                                        <Text style={{
-                                            fontSize: 22,
-                                            fontWeight: "700",
-                                            color: colors.text,
-                                            marginBottom: 16,
-                                        }}>Identified Hazards</Text>
-                                        {hazardSections.map((section) => (
-                                            <View key={section.title} style={{ marginBottom: 20 }}>
-                                                <View style={{
-                                                    flexDirection: "row",
-                                                    justifyContent: "space-between",
-                                                    alignItems: "center",
-                                                    marginBottom: 12,
-                                                }}>
-                                                    <Text style={{
-                                                        fontSize: 18,
-                                                        fontWeight: "700",
-                                                        color: colors.text,
-                                                    }}>
-                                                        {getCategoryIcon(section.title)} {section.title}
-                                                    </Text>
-                                                    <View style={{
-                                                        backgroundColor: colors.backgroundTertiary,
-                                                        borderRadius: 12,
-                                                        paddingHorizontal: 12,
-                                                        paddingVertical: 4,
-                                                    }}>
-                                                        <Text style={{
-                                                            fontSize: 14,
-                                                            fontWeight: "600",
-                                                            color: colors.textSecondary,
-                                                        }}>{section.data.length}</Text>
-                                                    </View>
-                                                </View>
-                                                {section.data.map((hazard) => (
-                                                    <HazardCard key={hazard.id} hazard={hazard} />
-                                                ))}
-                                            </View>
-                                        ))}
-                                    </View>
-                                ) : (
-                                    <View style={{
-                                        backgroundColor: colors.successBackground,
-                                        borderRadius: 20,
-                                        padding: 32,
-                                        alignItems: "center",
-                                        marginBottom: 16,
-                                        borderWidth: 1,
-                                        borderColor: colors.success + '30',
-                                    }}>
-                                        <View style={{ marginBottom: 16 }}>
-                                            <Ionicons name="checkmark-circle" size={64} color={colors.success} />
-                                        </View>
-                                        <Text style={{
-                                            fontSize: 22,
-                                            fontWeight: "700",
-                                            color: colors.success,
-                                            marginBottom: 8,
-                                        }}>Excellent Safety Standards!</Text>
-                                        <Text style={{
-                                            fontSize: 15,
-                                            color: colors.success,
-                                            textAlign: "center",
-                                            lineHeight: 22,
-                                            marginBottom: 20,
-                                        }}>
-                                            No safety hazards were detected in this inspection.
-                                            The workplace meets or exceeds safety requirements.
-                                        </Text>
-                                        <View style={{ flexDirection: "row", gap: 12 }}>
-                                            <View style={{
-                                                flexDirection: "row",
-                                                alignItems: "center",
-                                                gap: 6,
-                                                backgroundColor: colors.surface,
-                                                paddingHorizontal: 14,
-                                                paddingVertical: 8,
-                                                borderRadius: 20,
-                                                borderWidth: 1,
-                                                borderColor: colors.success,
-                                            }}>
-                                                <Ionicons name="shield-checkmark" size={20} color={colors.success} />
-                                                <Text style={{
-                                                    fontSize: 13,
-                                                    fontWeight: "600",
-                                                    color: colors.success,
-                                                }}>Safe Environment</Text>
-                                            </View>
-                                            <View style={{
-                                                flexDirection: "row",
-                                                alignItems: "center",
-                                                gap: 6,
-                                                backgroundColor: colors.surface,
-                                                paddingHorizontal: 14,
-                                                paddingVertical: 8,
-                                                borderRadius: 20,
-                                                borderWidth: 1,
-                                                borderColor: colors.success,
-                                            }}>
-                                                <Ionicons name="ribbon" size={20} color={colors.success} />
-                                                <Text style={{
-                                                    fontSize: 13,
-                                                    fontWeight: "600",
-                                                    color: colors.success,
-                                                }}>Compliant</Text>
-                                            </View>
-                                        </View>
-                                    </View>
-                                )}
                             </>
                         ) : inspection.processingStatus === "failed" ? (
                             <View style={{
@@ -1308,7 +1870,7 @@ Generated by HSE Safety App`;
                                     marginBottom: 24,
                                 }}>
                                     Our AI is analyzing your image for safety hazards.
-                                    This usually takes 10-30 seconds.
+                                    This usually takes 10-30 seconds and the report updates automatically.
                                 </Text>
                                 <CustomButton
                                     text="Refresh Status"
@@ -1318,6 +1880,186 @@ Generated by HSE Safety App`;
                                 />
                             </View>
                         )}
+
+                        {/* Checklist findings and the inspector's own hazards don't wait for the AI analysis */}
+                        {inspection.checklist && <ChecklistCard checklist={inspection.checklist} />}
+
+                        {/* Hazards by Category */}
+                        {hazardSections.length > 0 ? (
+                            <View style={{ marginBottom: 16 }}>
+                                <Text style={{
+                                    fontSize: 22,
+                                    fontWeight: "700",
+                                    color: colors.text,
+                                    marginBottom: 16,
+                                }}>Identified Hazards</Text>
+                                {hazardSections.map((section) => (
+                                    <View key={section.title} style={{ marginBottom: 20 }}>
+                                        <View style={{
+                                            flexDirection: "row",
+                                            justifyContent: "space-between",
+                                            alignItems: "center",
+                                            marginBottom: 12,
+                                        }}>
+                                            <Text style={{
+                                                fontSize: 18,
+                                                fontWeight: "700",
+                                                color: colors.text,
+                                            }}>
+                                                {getCategoryIcon(section.title)} {section.title}
+                                            </Text>
+                                            <View style={{
+                                                backgroundColor: colors.backgroundTertiary,
+                                                borderRadius: 12,
+                                                paddingHorizontal: 12,
+                                                paddingVertical: 4,
+                                            }}>
+                                                <Text style={{
+                                                    fontSize: 14,
+                                                    fontWeight: "600",
+                                                    color: colors.textSecondary,
+                                                }}>{section.data.length}</Text>
+                                            </View>
+                                        </View>
+                                        {section.data.map((hazard) => (
+                                            <HazardCard
+                                                key={hazard.id}
+                                                hazard={hazard}
+                                                onPhotoPress={imageUrls.length > 1 ? setPhotoIndex : undefined}
+                                                onPress={showHazardOnPhoto}
+                                                selected={hazard.id === selectedHazardId}
+                                                actions={correctiveActions.actions.filter((action) => action.hazardId === hazard.id)}
+                                                onSolutionAction={openSolutionAction}
+                                                onReview={setReviewTarget}
+                                                onRemove={confirmRemoveHazard}
+                                                cardRef={(view) => {
+                                                    if (view) hazardRefs.current.set(hazard.id, view);
+                                                    else hazardRefs.current.delete(hazard.id);
+                                                }}
+                                            />
+                                        ))}
+                                    </View>
+                                ))}
+                            </View>
+                        ) : inspection.processingStatus === "completed" && analysis ? (
+                            <View style={{
+                                backgroundColor: colors.successBackground,
+                                borderRadius: 20,
+                                padding: 32,
+                                alignItems: "center",
+                                marginBottom: 16,
+                                borderWidth: 1,
+                                borderColor: colors.success + '30',
+                            }}>
+                                <View style={{ marginBottom: 16 }}>
+                                    <Ionicons name="checkmark-circle" size={64} color={colors.success} />
+                                </View>
+                                <Text style={{
+                                    fontSize: 22,
+                                    fontWeight: "700",
+                                    color: colors.success,
+                                    marginBottom: 8,
+                                }}>Excellent Safety Standards!</Text>
+                                <Text style={{
+                                    fontSize: 15,
+                                    color: colors.success,
+                                    textAlign: "center",
+                                    lineHeight: 22,
+                                    marginBottom: 20,
+                                }}>
+                                    No safety hazards were detected in this inspection.
+                                    The workplace meets or exceeds safety requirements.
+                                </Text>
+                                <View style={{ flexDirection: "row", gap: 12 }}>
+                                    <View style={{
+                                        flexDirection: "row",
+                                        alignItems: "center",
+                                        gap: 6,
+                                        backgroundColor: colors.surface,
+                                        paddingHorizontal: 14,
+                                        paddingVertical: 8,
+                                        borderRadius: 20,
+                                        borderWidth: 1,
+                                        borderColor: colors.success,
+                                    }}>
+                                        <Ionicons name="shield-checkmark" size={20} color={colors.success} />
+                                        <Text style={{
+                                            fontSize: 13,
+                                            fontWeight: "600",
+                                            color: colors.success,
+                                        }}>Safe Environment</Text>
+                                    </View>
+                                    <View style={{
+                                        flexDirection: "row",
+                                        alignItems: "center",
+                                        gap: 6,
+                                        backgroundColor: colors.surface,
+                                        paddingHorizontal: 14,
+                                        paddingVertical: 8,
+                                        borderRadius: 20,
+                                        borderWidth: 1,
+                                        borderColor: colors.success,
+                                    }}>
+                                        <Ionicons name="ribbon" size={20} color={colors.success} />
+                                        <Text style={{
+                                            fontSize: 13,
+                                            fontWeight: "600",
+                                            color: colors.success,
+                                        }}>Compliant</Text>
+                                    </View>
+                                </View>
+                            </View>
+                        ) : null}
+
+                        {dismissedHazards.length > 0 && (
+                            <View style={{
+                                backgroundColor: colors.surface,
+                                borderRadius: 16,
+                                paddingHorizontal: 20,
+                                paddingTop: 16,
+                                paddingBottom: 4,
+                                marginBottom: 16,
+                                borderWidth: 1,
+                                borderColor: colors.border,
+                            }}>
+                                <Text style={{
+                                    fontSize: 16,
+                                    fontWeight: "700",
+                                    color: colors.text,
+                                }}>Dismissed by Inspector ({dismissedHazards.length})</Text>
+                                <Text style={{
+                                    fontSize: 13,
+                                    color: colors.textSecondary,
+                                    marginTop: 2,
+                                }}>Not counted in the score</Text>
+                                {dismissedHazards.map((hazard) => (
+                                    <DismissedHazardRow key={hazard.id} hazard={hazard} onReview={setReviewTarget} />
+                                ))}
+                            </View>
+                        )}
+
+                        <TouchableOpacity
+                            onPress={() => setShowAddHazard(true)}
+                            style={{
+                                flexDirection: "row",
+                                alignItems: "center",
+                                justifyContent: "center",
+                                gap: 8,
+                                paddingVertical: 14,
+                                marginBottom: 16,
+                                borderRadius: 16,
+                                borderWidth: 1,
+                                borderStyle: "dashed",
+                                borderColor: colors.primary,
+                            }}
+                        >
+                            <Ionicons name="add-circle-outline" size={20} color={colors.primary} />
+                            <Text style={{
+                                fontSize: 15,
+                                fontWeight: "600",
+                                color: colors.primary,
+                            }}>Add Hazard</Text>
+                        </TouchableOpacity>
                     </Animated.View>
                 </ScrollView>
             </View>
@@ -1327,9 +2069,9 @@ Generated by HSE Safety App`;
                 visible={showImageModal}
                 transparent
                 animationType="fade"
-                onRequestClose={() => setShowImageModal(false)}
+                onRequestClose={closeImageModal}
             >
-                <TouchableWithoutFeedback onPress={() => setShowImageModal(false)}>
+                <TouchableWithoutFeedback onPress={closeImageModal}>
                     <View style={{
                         flex: 1,
                         backgroundColor: "rgba(0,0,0,0.95)",
@@ -1351,22 +2093,78 @@ Generated by HSE Safety App`;
                                     justifyContent: "center",
                                     alignItems: "center",
                                 }}
-                                onPress={() => setShowImageModal(false)}
+                                onPress={closeImageModal}
                             >
                                 <Ionicons name="close" size={28} color="#fff" />
                             </TouchableOpacity>
                         </View>
-                        <Image
-                            source={{ uri: inspection.imageUrl }}
+                        <HazardImage
+                            uri={(showOriginal && originalUrl) || imageUrls[photoIndex] || inspection.imageUrl}
                             style={{
                                 width: screenWidth * 0.95,
                                 height: "80%",
                             }}
                             resizeMode="contain"
+                            hazards={hazardsOnPhoto(activeHazards, photoIndex)}
+                            severityColors={getSeverityColors(colors)}
+                            selectedHazardId={selectedHazardId}
+                            onHazardPress={(hazard) => {
+                                closeImageModal();
+                                showHazardCard(hazard);
+                            }}
                         />
+                        {originalUrl && (
+                            <TouchableOpacity
+                                style={{
+                                    position: "absolute",
+                                    bottom: Platform.select({ ios: 60, android: 40, default: 40 }),
+                                    flexDirection: "row",
+                                    alignItems: "center",
+                                    gap: 8,
+                                    paddingHorizontal: 18,
+                                    paddingVertical: 10,
+                                    borderRadius: 22,
+                                    backgroundColor: "rgba(255,255,255,0.15)",
+                                }}
+                                onPress={() => setShowOriginal((current) => !current)}
+                            >
+                                <Ionicons name={showOriginal ? "brush-outline" : "image-outline"} size={18} color="#fff" />
+                                <Text style={{ color: "#fff", fontSize: 15, fontWeight: "600" }}>
+                                    {showOriginal ? "View Markup" : "View Original"}
+                                </Text>
+                            </TouchableOpacity>
+                        )}
                     </View>
                 </TouchableWithoutFeedback>
             </Modal>
+
+            {actionTarget && (
+                <CorrectiveActionForm
+                    solution={actionTarget.solution}
+                    hazardDescription={actionTarget.hazard.description}
+                    defaultPriority={actionTarget.hazard.severity}
+                    action={targetAction}
+                    onSubmit={saveCorrectiveAction}
+                    onUploadEvidence={correctiveActions.uploadEvidence}
+                    onClose={() => setActionTarget(null)}
+                />
+            )}
+
+            {showAddHazard && (
+                <AddHazardForm
+                    photoCount={imageUrls.length}
+                    onSubmit={addHazard}
+                    onClose={() => setShowAddHazard(false)}
+                />
+            )}
+
+            {reviewTarget && (
+                <HazardReviewForm
+                    hazard={reviewTarget}
+                    onSubmit={saveHazardReview}
+                    onClose={() => setReviewTarget(null)}
+                />
+            )}
         </>
     );
 }
\ No newline at end of file
@@ -0,0 +1,196 @@
+// src/app/(protected)/templates.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    RefreshControl,
+    ScrollView,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import CustomButton from '@/components/CustomButton';
+import ChecklistTemplateForm from '@/components/ChecklistTemplateForm';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useChecklistTemplates } from '@/hooks/useChecklistTemplates';
+import type { ChecklistTemplate } from '@/api/types';
+import type { ChecklistTemplateInput } from '@/api/client';
+import { checklistItems } from '@/utils/checklist';
+
+/** "New" while creating a template, the template while editing one */
+type EditorTarget = ChecklistTemplate | 'new';
+
+/** Lists the checklist templates; users who manage them can add, edit and delete templates here */
+export default function ChecklistTemplatesScreen() {
+    const { colors } = useTheme();
+    const api = useApiClient();
+    const { templates, canManage, loading, error, refresh, saveTemplate, deleteTemplate } = useChecklistTemplates(api);
+    const [editing, setEditing] = useState<EditorTarget | null>(null);
+    const [refreshing, setRefreshing] = useState(false);
+
+    const handleRefresh = async () => {
+        setRefreshing(true);
+        await refresh();
+        setRefreshing(false);
+    };
+
+    const save = async (input: ChecklistTemplateInput) => {
+        await saveTemplate(input);
+    };
+
+    const containerStyle: ViewStyle = {
+        flex: 1,
+        backgroundColor: colors.background,
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        marginBottom: 20,
+        backgroundColor: colors.surface,
+        borderRadius: 20,
+        padding: 16,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const backButtonStyle: ViewStyle = {
+        width: 44,
+        height: 44,
+        borderRadius: 22,
+        backgroundColor: colors.backgroundTertiary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 22,
+        fontWeight: '800',
+        color: colors.text,
+    };
+
+    const subtitleStyle: TextStyle = {
+        fontSize: 14,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const cardStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        backgroundColor: colors.surface,
+        borderRadius: 16,
+        padding: 16,
+        marginBottom: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const nameStyle: TextStyle = {
+        fontSize: 16,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const detailStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 4,
+    };
+
+    const noticeStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        textAlign: 'center',
+        marginTop: 8,
+        marginBottom: 20,
+    };
+
+    return (
+        <View style={containerStyle}>
+            <ScrollView
+                contentContainerStyle={{ padding: 20, paddingBottom: 40 }}
+                refreshControl={
+                    <RefreshControl
+                        refreshing={refreshing}
+                        onRefresh={handleRefresh}
+                        tintColor={colors.primary}
+                        colors={[colors.primary]}
+                    />
+                }
+            >
+                <View style={headerStyle}>
+                    <TouchableOpacity onPress={() => router.back()} style={backButtonStyle}>
+                        <Ionicons name="arrow-back" size={24} color={colors.text} />
+                    </TouchableOpacity>
+                    <View style={{ flex: 1, marginHorizontal: 16 }}>
+                        <Text style={titleStyle}>Checklist Templates</Text>
+                        <Text style={subtitleStyle}>Items answered No become hazards in the report</Text>
+                    </View>
+                </View>
+
+                {canManage && (
+                    <View style={{ marginBottom: 20 }}>
+                        <CustomButton
+                            text="New Template"
+                            onPress={() => setEditing('new')}
+                            icon={<Ionicons name="add" size={20} color="#fff" />}
+                        />
+                    </View>
+                )}
+
+                {error && <Text style={[noticeStyle, { color: colors.error }]}>{error}</Text>}
+
+                {loading && templates.length === 0 && !refreshing && (
+                    <ActivityIndicator color={colors.primary} style={{ marginVertical: 24 }} />
+                )}
+
+                {templates.map((template) => {
+                    const itemCount = checklistItems(template.sections).length;
+                    return (
+                        <TouchableOpacity
+                            key={template.id}
+                            style={cardStyle}
+                            onPress={() => setEditing(template)}
+                            disabled={!canManage}
+                        >
+                            <Ionicons name="clipboard-outline" size={24} color={colors.primary} />
+                            <View style={{ flex: 1 }}>
+                                <Text style={nameStyle}>{template.name}</Text>
+                                {!!template.description && <Text style={detailStyle}>{template.description}</Text>}
+                                <Text style={detailStyle}>
+                                    {template.sections.length} {template.sections.length === 1 ? 'section' : 'sections'}
+                                    {' · '}
+                                    {itemCount} {itemCount === 1 ? 'item' : 'items'}
+                                </Text>
+                            </View>
+                            {canManage && <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />}
+                        </TouchableOpacity>
+                    );
+                })}
+
+                {!loading && !error && templates.length === 0 && (
+                    <Text style={noticeStyle}>No checklist templates yet.</Text>
+                )}
+
+                {!canManage && templates.length > 0 && (
+                    <Text style={noticeStyle}>Only administrators can change checklist templates.</Text>
+                )}
+            </ScrollView>
+
+            {editing && (
+                <ChecklistTemplateForm
+                    template={editing === 'new' ? null : editing}
+                    onSubmit={save}
+                    onDelete={editing === 'new' ? undefined : () => deleteTemplate(editing.id)}
+                    onClose={() => setEditing(null)}
+                />
+            )}
+        </View>
+    );
+}
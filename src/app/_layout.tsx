@@ -3,6 +3,7 @@ import { Slot } from 'expo-router';
 import { ClerkProvider } from '@clerk/clerk-expo';
 import { tokenCache } from '@clerk/clerk-expo/token-cache';
 import { ThemeProvider } from '@/contexts/ThemeContext';
+import { ApiConfigProvider } from '@/contexts/ApiConfigContext';
 import { StatusBar } from 'expo-status-bar';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 
@@ -13,8 +14,10 @@ export default function RootLayout() {
         <SafeAreaProvider>
             <ClerkProvider tokenCache={tokenCache}>
                 <ThemeProvider>
-                    <StatusBar style="auto" />
-                    <Slot />
+                    <ApiConfigProvider>
+                        <StatusBar style="auto" />
+                        <Slot />
+                    </ApiConfigProvider>
                 </ThemeProvider>
             </ClerkProvider>
         </SafeAreaProvider>
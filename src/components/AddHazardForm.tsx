@@ -0,0 +1,268 @@
+// src/components/AddHazardForm.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Controller, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import { useTheme } from '@/contexts/ThemeContext';
+import { toApiError } from '@/api/errors';
+import { hazardCategorySchema, severitySchema } from '@/api/schemas';
+import type { NewHazardInput } from '@/api/client';
+import { PRIORITY_BY_SEVERITY } from '@/utils/hazardReview';
+
+const field = (label: string, max: number) =>
+    z.string().trim().max(max, `${label} should be at most ${max} characters`);
+
+export const addHazardFormSchema = z.object({
+    category: hazardCategorySchema,
+    severity: severitySchema,
+    description: field('Description', 300).min(1, 'Describe the hazard'),
+    location: field('Location', 120).min(1, 'Where is it?'),
+    immediateSolutions: field('Immediate actions', 1000),
+    longTermSolutions: field('Long-term solutions', 1000),
+    estimatedCost: field('Cost', 60),
+    timeToImplement: field('Time', 60),
+    /** Photo the hazard shows up on; null when it cannot be seen, e.g. noise or an expired permit */
+    photoIndex: z.number().int().nonnegative().nullable(),
+});
+
+export type AddHazardFields = z.infer<typeof addHazardFormSchema>;
+
+const splitLines = (text: string) =>
+    text.split('\n').map((line) => line.trim()).filter(Boolean);
+
+export function toNewHazard(fields: AddHazardFields): NewHazardInput {
+    return {
+        category: fields.category,
+        severity: fields.severity,
+        description: fields.description,
+        location: fields.location,
+        immediateSolutions: splitLines(fields.immediateSolutions),
+        longTermSolutions: splitLines(fields.longTermSolutions),
+        estimatedCost: fields.estimatedCost || null,
+        timeToImplement: fields.timeToImplement || null,
+        priority: PRIORITY_BY_SEVERITY[fields.severity],
+        photoIndex: fields.photoIndex,
+    };
+}
+
+interface AddHazardFormProps {
+    /** Photos on the inspection, offered as where the hazard appears */
+    photoCount: number;
+    onSubmit: (hazard: NewHazardInput) => Promise<void>;
+    onClose: () => void;
+}
+
+/** Records a hazard the AI missed, or one that cannot be seen in the photos at all */
+export default function AddHazardForm({ photoCount, onSubmit, onClose }: AddHazardFormProps) {
+    const { colors } = useTheme();
+    const [saving, setSaving] = useState(false);
+    const { control, handleSubmit } = useForm<AddHazardFields>({
+        resolver: zodResolver(addHazardFormSchema),
+        defaultValues: {
+            category: 'Other',
+            severity: 'Medium',
+            description: '',
+            location: '',
+            immediateSolutions: '',
+            longTermSolutions: '',
+            estimatedCost: '',
+            timeToImplement: '',
+            photoIndex: null,
+        },
+    });
+
+    const submit = handleSubmit(async (fields) => {
+        setSaving(true);
+        try {
+            await onSubmit(toNewHazard(fields));
+            onClose();
+        } catch (e) {
+            Alert.alert('Could not add hazard', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    });
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '90%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 18,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const labelStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text,
+        marginBottom: 8,
+    };
+
+    const chipRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 20,
+    };
+
+    const chipStyle = (selected: boolean): ViewStyle => ({
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary : colors.surface,
+    });
+
+    const chipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const saveButtonStyle: ViewStyle = {
+        alignItems: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: colors.primary,
+        opacity: saving ? 0.6 : 1,
+        marginTop: 8,
+        marginBottom: 8,
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}
+            >
+                <View style={sheetStyle}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+                        <Text style={titleStyle}>Add Hazard</Text>
+                        <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+                            <Ionicons name="close" size={24} color={colors.text} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                        <Text style={labelStyle}>Category</Text>
+                        <Controller
+                            control={control}
+                            name="category"
+                            render={({ field: { value, onChange } }) => (
+                                <View style={chipRowStyle}>
+                                    {hazardCategorySchema.options.map((option) => (
+                                        <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                            <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                        />
+
+                        <Text style={labelStyle}>Severity</Text>
+                        <Controller
+                            control={control}
+                            name="severity"
+                            render={({ field: { value, onChange } }) => (
+                                <View style={chipRowStyle}>
+                                    {severitySchema.options.map((option) => (
+                                        <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                            <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                        />
+
+                        <CustomInput
+                            control={control}
+                            name="description"
+                            label="Description"
+                            placeholder="e.g. Hot work permit expired yesterday"
+                            multiline
+                        />
+                        <CustomInput
+                            control={control}
+                            name="location"
+                            label="Location"
+                            placeholder="e.g. Welding bay 2"
+                        />
+
+                        {photoCount > 0 && (
+                            <>
+                                <Text style={labelStyle}>Shown on</Text>
+                                <Controller
+                                    control={control}
+                                    name="photoIndex"
+                                    render={({ field: { value, onChange } }) => (
+                                        <View style={chipRowStyle}>
+                                            <TouchableOpacity style={chipStyle(value === null)} onPress={() => onChange(null)}>
+                                                <Text style={chipTextStyle(value === null)}>Not in a photo</Text>
+                                            </TouchableOpacity>
+                                            {Array.from({ length: photoCount }, (_, index) => (
+                                                <TouchableOpacity key={index} style={chipStyle(value === index)} onPress={() => onChange(index)}>
+                                                    <Text style={chipTextStyle(value === index)}>Photo {index + 1}</Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                    )}
+                                />
+                            </>
+                        )}
+
+                        <CustomInput
+                            control={control}
+                            name="immediateSolutions"
+                            label="Immediate actions"
+                            helperText="One per line"
+                            multiline
+                        />
+                        <CustomInput
+                            control={control}
+                            name="longTermSolutions"
+                            label="Long-term solutions"
+                            helperText="One per line"
+                            multiline
+                        />
+                        <View style={{ flexDirection: 'row', gap: 12 }}>
+                            <View style={{ flex: 1 }}>
+                                <CustomInput control={control} name="estimatedCost" label="Cost" placeholder="e.g. $200" />
+                            </View>
+                            <View style={{ flex: 1 }}>
+                                <CustomInput control={control} name="timeToImplement" label="Time" placeholder="e.g. 1 day" />
+                            </View>
+                        </View>
+
+                        <TouchableOpacity style={saveButtonStyle} onPress={submit} disabled={saving}>
+                            {saving
+                                ? <ActivityIndicator color="#fff" />
+                                : <Text style={{ color: '#fff', fontSize: 16, fontWeight: '700' }}>Add Hazard</Text>}
+                        </TouchableOpacity>
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
@@ -17,91 +17,95 @@ import {
     TouchableWithoutFeedback,
     ViewStyle,
     TextStyle,
+    Switch,
 } from "react-native";
 import * as ImagePicker from "expo-image-picker";
-import * as ImageManipulator from "expo-image-manipulator";
 import { useSession } from '@clerk/clerk-expo';
 import { router } from "expo-router";
+import { useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
 import { useTheme } from '@/contexts/ThemeContext';
 import { Ionicons } from '@expo/vector-icons';
+import PartialResultBanner from '@/components/PartialResultBanner';
+import CaptureQueueList from '@/components/CaptureQueueList';
+import MarkupEditor, { MarkupResult } from '@/components/MarkupEditor';
+import PhotoEditor, { EditedPhoto } from '@/components/PhotoEditor';
+import DraftsPanel from '@/components/DraftsPanel';
+import SitePicker, { NO_SITE, SiteSelection } from '@/components/SitePicker';
+import ChecklistPanel from '@/components/ChecklistPanel';
+import SiteContextForm, {
+    EMPTY_SITE_CONTEXT,
+    SiteContextFields,
+    siteContextFormSchema,
+    toSiteContext,
+    toSiteContextFields,
+} from '@/components/SiteContextForm';
+import { useCaptureQueue } from '@/contexts/CaptureQueueContext';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useAbortController } from '@/hooks/useAbortController';
+import { useSites } from '@/hooks/useSites';
+import { useChecklistTemplates } from '@/hooks/useChecklistTemplates';
+import { ACTION_LABELS, isAbortError, NetworkError, toApiError } from '@/api/errors';
+import type { RecoveryAction } from '@/api/errors';
+import type { UploadProgress } from '@/api/client';
+import type { AnalysisResult, Hazard, HazardCategory, InspectionSummary, SafetyGrade } from '@/api/types';
+import { formatCapturedAt, formatCoordinates, lookupCurrentLocation, metadataFromExif } from '@/utils/photoMetadata';
+import { focusRegionsFromMarkup } from '@/utils/markup';
+import { compressToBudget, fileSize, getImageSize } from '@/utils/imageProcessing';
+import {
+    ChecklistDraft,
+    checklistHazards,
+    checklistProgress,
+    isChecklistComplete,
+    toChecklistSubmission,
+} from '@/utils/checklist';
+import { UPLOAD_BYTE_BUDGET } from '@/api/config';
+import { checkPhotoQuality, QualityIssue } from '@/utils/photoQuality';
+import { loadSiteContext, saveSiteContext } from '@/storage/siteContext';
+import { CaptureDraft, createDraftId, deleteDraft, DraftPhoto, loadDrafts, renameDraft, saveDraft } from '@/storage/drafts';
 
 const { width: screenWidth } = Dimensions.get('window');
 
-// Types (same as before)
-type HazardCategory =
-    | "PPE" | "Fall" | "Fire" | "Electrical" | "Chemical" | "Machinery" | "Environmental" | "Other";
-
-type Severity = "Critical" | "High" | "Medium" | "Low";
-type SafetyGrade = "A" | "B" | "C" | "D" | "F";
-
-type Hazard = {
-    id: string;
-    description: string;
-    location: string;
-    category: HazardCategory;
-    severity: Severity;
-    immediateSolutions: string[];
-    longTermSolutions: string[];
-    estimatedCost?: string;
-    timeToImplement?: string;
-    priority: number;
-};
-
-type Overall = {
-    riskScore: number;
-    safetyGrade: SafetyGrade;
-    topPriorities: string[];
-    complianceStandards?: string[];
-};
-
-type AnalysisResult = {
-    hazards: Hazard[];
-    overallAssessment: Overall;
-    metadata: { analysisTime: number; tokensUsed: number; confidence: number };
-};
-
-interface AnalyzeResponse {
-    ok: boolean;
-    inspection: {
-        id: string;
-        createdAt: string;
-        imageUrl: string;
-        hazardCount: number;
-        riskScore: number;
-        safetyGrade: SafetyGrade;
-    };
-    analysis: AnalysisResult;
-    usage?: any;
-}
-
-interface ListResponse {
-    ok: boolean;
-    inspections: Array<{
-        id: string;
-        createdAt: string;
-        imageUrl: string;
-        hazardCount: number | null;
-        riskScore: number | null;
-        safetyGrade: SafetyGrade | null;
-    }>;
-    page: number;
-    pageSize: number;
-}
-
 export type AnalyzePhotoScreenProps = {
+    /** Overrides the app-wide base URL from build config / developer settings */
     apiBaseUrl?: string;
     tokenTemplate?: string;
 };
 
-const DEFAULT_BASE = "https://hseappapi.vercel.app";
 const PAGE_SIZE = 10;
+const MAX_PHOTOS = 20;
+// Edits settle for this long before the draft is written
+const DRAFT_SAVE_DELAY_MS = 800;
+
+type ActiveDraft = Pick<CaptureDraft, "id" | "name" | "createdAt">;
+
+/** Upload progress across every photo of the inspection */
+type BatchUploadProgress = UploadProgress & {
+    photoNumber: number;
+    photoCount: number;
+};
+
+/** What the error card needs; API failures also carry a recovery action */
+type ScreenError = {
+    message: string;
+    action?: RecoveryAction;
+};
 
 const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
-                                                                   apiBaseUrl = DEFAULT_BASE,
+                                                                   apiBaseUrl,
                                                                    tokenTemplate,
                                                                }) => {
     const { session } = useSession();
     const { colors, isDark } = useTheme();
+    const api = useApiClient({ apiBaseUrl, tokenTemplate });
+    const { enqueue, isOnline } = useCaptureQueue();
+    const analysisRequest = useAbortController();
+    const recentRequest = useAbortController();
+    const userId = session?.user.id;
+    const siteContextForm = useForm<SiteContextFields>({
+        resolver: zodResolver(siteContextFormSchema),
+        defaultValues: EMPTY_SITE_CONTEXT,
+    });
 
     // Animation values
     const fadeAnim = useRef(new Animated.Value(0)).current;
@@ -109,18 +113,34 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
     const scaleAnim = useRef(new Animated.Value(0.95)).current;
 
     // State
-    const [imageUri, setImageUri] = useState<string | null>(null);
-    const [imageBase64, setImageBase64] = useState<string | null>(null);
-    const [mimeType, setMimeType] = useState<string>("image/jpeg");
+    const [photos, setPhotos] = useState<DraftPhoto[]>([]);
+    const [selectedPhoto, setSelectedPhoto] = useState(0);
+    const [capturedAt, setCapturedAt] = useState<string | null>(null);
     const [showImageModal, setShowImageModal] = useState(false);
+    const [showMarkupEditor, setShowMarkupEditor] = useState(false);
+    const [showPhotoEditor, setShowPhotoEditor] = useState(false);
+    const [checkingQuality, setCheckingQuality] = useState(false);
     const [uploading, setUploading] = useState(false);
+    const [uploadProgress, setUploadProgress] = useState<BatchUploadProgress | null>(null);
     const [analyzing, setAnalyzing] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<ScreenError | null>(null);
     const [result, setResult] = useState<AnalysisResult | null>(null);
     const [listLoading, setListLoading] = useState(false);
-    const [recent, setRecent] = useState<ListResponse["inspections"]>([]);
-
-    const hasImage = !!imageUri && !!imageBase64;
+    const [recent, setRecent] = useState<InspectionSummary[]>([]);
+    const [drafts, setDrafts] = useState<CaptureDraft[]>([]);
+    const [activeDraft, setActiveDraft] = useState<ActiveDraft | null>(null);
+    const activeDraftRef = useRef<ActiveDraft | null>(null);
+    const siteContextValues = useWatch({ control: siteContextForm.control });
+    const sitesState = useSites(api, Boolean(session));
+    const [siteSelection, setSiteSelection] = useState<SiteSelection>(NO_SITE);
+    const checklistState = useChecklistTemplates(api, Boolean(session));
+    const [checklist, setChecklist] = useState<ChecklistDraft | null>(null);
+    const checklistTemplate = checklistState.templates.find((entry) => entry.id === checklist?.templateId) ?? null;
+
+    const hasImage = photos.length > 0;
+    const previewIndex = Math.min(selectedPhoto, photos.length - 1);
+    const previewPhoto = photos[previewIndex] ?? null;
+    const previewUri = previewPhoto ? displayUri(previewPhoto) : null;
 
     // Styles
     const containerStyle: ViewStyle = {
@@ -162,54 +182,226 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
         ]).start();
     }, []);
 
-    // Authentication functions (same as before)
-    const getAuthToken = async (): Promise<string | null> => {
-        if (!session) {
-            console.warn("No active Clerk session found.");
-            return null;
+    // Keeps the image on disk; only the upload fallback ever reads it as base64
+    // EXIF is read before compressing, which strips it
+    const toDraftPhoto = async (asset: ImagePicker.ImagePickerAsset, fromCamera: boolean): Promise<DraftPhoto> => {
+        const metadata = metadataFromExif(asset.exif);
+        if (fromCamera) {
+            // Taken just now, so the device clock and position stand in for missing EXIF
+            metadata.capturedAt ??= new Date().toISOString();
+            metadata.location ??= await lookupCurrentLocation();
         }
 
+        // Some pickers report zero dimensions, so fall back to reading them from the file
+        const dimensions = asset.width && asset.height
+            ? { width: asset.width, height: asset.height }
+            : await getImageSize(asset.uri);
+        const c = await compressToBudget(asset.uri, dimensions, UPLOAD_BYTE_BUDGET);
+        const compressed = c.uri !== asset.uri;
+        return {
+            uri: c.uri,
+            mimeType: compressed ? "image/jpeg" : asset.mimeType || guessMimeFromUri(asset.uri) || "image/jpeg",
+            width: c.width,
+            height: c.height,
+            compression: compressed ? { originalBytes: c.originalBytes, bytes: c.bytes } : undefined,
+            metadata,
+            includeMetadata: true,
+        };
+    };
+
+    // `replaceIndex` swaps a retaken photo in place instead of adding it
+    const acceptAssets = async (assets: ImagePicker.ImagePickerAsset[], fromCamera: boolean, replaceIndex?: number) => {
+        const added: DraftPhoto[] = [];
         try {
-            const token = await session.getToken(tokenTemplate ? { template: tokenTemplate } : undefined);
-            return token;
-        } catch (error) {
-            console.error("Error getting Clerk token:", error);
-            return null;
+            for (const asset of assets) {
+                if (asset.uri) added.push(await toDraftPhoto(asset, fromCamera));
+            }
+        } catch (e) {
+            // Photos read before the failure are still added
+            setError(toApiError(e));
         }
+        if (added.length === 0) return;
+
+        if (replaceIndex !== undefined) {
+            setSelectedPhoto(replaceIndex);
+            setPhotos((current) => current.map((photo, i) => (i === replaceIndex ? added[0] : photo)));
+            setResult(null);
+            return;
+        }
+
+        setSelectedPhoto(photos.length);
+        setPhotos((current) => [...current, ...added].slice(0, MAX_PHOTOS));
+        if (!capturedAt) setCapturedAt(new Date().toISOString());
+        setResult(null);
     };
 
-    const buildAuthHeaders = async (init?: Record<string, string>) => {
-        const headers: Record<string, string> = {
-            "Content-Type": "application/json",
-            ...(init || {})
-        };
+    const toggleMetadata = (index: number, includeMetadata: boolean) => {
+        setPhotos((current) => current.map((photo, i) => (i === index ? { ...photo, includeMetadata } : photo)));
+    };
 
-        const token = await getAuthToken();
-        if (!token) {
-            throw new Error("Authentication required. Please ensure you're logged in with Clerk.");
+    const saveMarkup = async ({ shapes, annotatedUri }: MarkupResult) => {
+        let uri = annotatedUri;
+        try {
+            // The annotated copy is what gets analyzed, so it has to fit the budget too
+            if (annotatedUri) {
+                uri = (await compressToBudget(annotatedUri, await getImageSize(annotatedUri), UPLOAD_BYTE_BUDGET)).uri;
+            }
+        } catch (e) {
+            console.warn("Failed to compress annotated photo:", e);
         }
-
-        headers["Authorization"] = `Bearer ${token}`;
-        return headers;
+        setPhotos((current) => current.map((photo, i) => (
+            i === previewIndex ? { ...photo, markup: shapes, annotatedUri: uri } : photo
+        )));
+        setShowMarkupEditor(false);
+        setResult(null);
     };
 
-    // Image processing functions (same as before)
-    async function compressClientSide(uri: string, maxSide = 1600, quality = 0.7) {
-        const r = await ImageManipulator.manipulateAsync(
-            uri,
-            [{ resize: { width: maxSide } }],
-            { compress: quality, format: ImageManipulator.SaveFormat.JPEG, base64: true }
+    const openPhotoEditor = () => {
+        if (!previewPhoto?.annotatedUri) {
+            setShowPhotoEditor(true);
+            return;
+        }
+        Alert.alert(
+            "Remove markup?",
+            "Cropping or rotating this photo removes its markup. You can mark it up again afterwards.",
+            [
+                { text: "Cancel", style: "cancel" },
+                { text: "Continue", onPress: () => setShowPhotoEditor(true) },
+            ]
         );
-        return {
-            uri: r.uri,
-            mime: "image/jpeg",
-            base64: r.base64 ?? null,
-            approxBytes: r.base64 ? Math.floor(r.base64.length * 0.75) : 0,
-        };
-    }
+    };
+
+    // The edited photo replaces the original; markup no longer lines up with it, so it is dropped
+    const saveEditedPhoto = async ({ uri, width, height }: EditedPhoto) => {
+        let c = { uri, width, height, bytes: 0, originalBytes: 0 };
+        try {
+            c = await compressToBudget(uri, { width, height }, UPLOAD_BYTE_BUDGET);
+        } catch (e) {
+            console.warn("Failed to compress edited photo:", e);
+        }
+        setPhotos((current) => current.map((photo, i) => (
+            i === previewIndex
+                ? {
+                    ...photo,
+                    uri: c.uri,
+                    width: c.width,
+                    height: c.height,
+                    mimeType: "image/jpeg",
+                    compression: c.uri !== uri ? { originalBytes: c.originalBytes, bytes: c.bytes } : undefined,
+                    markup: undefined,
+                    annotatedUri: null,
+                    qualityIssues: undefined,
+                    qualityAccepted: false,
+                }
+                : photo
+        )));
+        setShowPhotoEditor(false);
+        setResult(null);
+    };
+
+    const removePhoto = (index: number) => {
+        setPhotos((current) => current.filter((_, i) => i !== index));
+        setSelectedPhoto((current) => (current >= index ? Math.max(current - 1, 0) : current));
+        if (photos.length === 1) {
+            setCapturedAt(null);
+            // A draft without photos has nothing left to resume
+            discardActiveDraft();
+        }
+        setResult(null);
+    };
+
+    // Keeps the ref in step so a pending autosave never writes under a stale id or name
+    const updateActiveDraft = (next: ActiveDraft | null) => {
+        activeDraftRef.current = next;
+        setActiveDraft(next);
+    };
+
+    const persistDraft = async () => {
+        if (!userId || photos.length === 0) return;
+        const now = new Date().toISOString();
+        let draft = activeDraftRef.current;
+        if (!draft) {
+            const site = toSiteContext(siteContextForm.getValues())?.site;
+            draft = { id: createDraftId(), name: site || `Capture ${formatCapturedAt(capturedAt ?? now)}`, createdAt: now };
+            updateActiveDraft(draft);
+        }
+        try {
+            const stored = await saveDraft(userId, {
+                ...draft,
+                updatedAt: now,
+                photos,
+                capturedAt,
+                siteContext: toSiteContext(siteContextForm.getValues()),
+                siteId: siteSelection.siteId,
+                areaId: siteSelection.areaId,
+                checklist,
+                result,
+            });
+            setDrafts((current) => [stored, ...current.filter((existing) => existing.id !== stored.id)]);
+        } catch (e) {
+            console.warn("Failed to save draft:", e);
+        }
+    };
+
+    const discardActiveDraft = () => {
+        const draft = activeDraftRef.current;
+        updateActiveDraft(null);
+        if (!draft || !userId) return;
+        setDrafts((current) => current.filter((existing) => existing.id !== draft.id));
+        deleteDraft(userId, draft.id);
+    };
 
-    const handleTakePhoto = async () => {
+    const resumeDraft = (draft: CaptureDraft) => {
+        updateActiveDraft({ id: draft.id, name: draft.name, createdAt: draft.createdAt });
+        setPhotos(draft.photos);
+        setSelectedPhoto(0);
+        setCapturedAt(draft.capturedAt);
+        setResult(draft.result);
         setError(null);
+        siteContextForm.reset(toSiteContextFields(draft.siteContext));
+        setSiteSelection({ siteId: draft.siteId ?? null, areaId: draft.areaId ?? null });
+        setChecklist(draft.checklist ?? null);
+    };
+
+    // The current draft stays saved and can be resumed later
+    const startNewCapture = () => {
+        updateActiveDraft(null);
+        setPhotos([]);
+        setSelectedPhoto(0);
+        setCapturedAt(null);
+        setChecklist(null);
+        setResult(null);
+        setError(null);
+    };
+
+    const handleRenameDraft = (id: string, name: string) => {
+        if (!userId) return;
+        if (activeDraftRef.current?.id === id) updateActiveDraft({ ...activeDraftRef.current, name });
+        setDrafts((current) => current.map((draft) => (draft.id === id ? { ...draft, name } : draft)));
+        renameDraft(userId, id, name);
+    };
+
+    const handleDeleteDraft = (id: string) => {
+        if (activeDraftRef.current?.id === id) {
+            // Its photo files are about to go, so the screen cannot keep showing them
+            discardActiveDraft();
+            startNewCapture();
+            return;
+        }
+        if (!userId) return;
+        setDrafts((current) => current.filter((draft) => draft.id !== id));
+        deleteDraft(userId, id);
+    };
+
+    const photoLimitReached = () => {
+        if (photos.length < MAX_PHOTOS) return false;
+        Alert.alert("Photo limit reached", `An inspection can have up to ${MAX_PHOTOS} photos.`);
+        return true;
+    };
+
+    const handleTakePhoto = async (replaceIndex?: number) => {
+        setError(null);
+        if (replaceIndex === undefined && photoLimitReached()) return;
         const cam = await ImagePicker.requestCameraPermissionsAsync();
         if (cam.status !== "granted") {
             Alert.alert("Permission needed", "Camera permission is required.");
@@ -218,33 +410,19 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
 
         const res = await ImagePicker.launchCameraAsync({
             quality: 0.9,
-            base64: true,
-            exif: false,
+            base64: false,
+            exif: true,
             allowsEditing: false,
             mediaTypes: ImagePicker.MediaTypeOptions.Images,
         });
         if (res.canceled) return;
-        const asset = res.assets?.[0];
-        if (!asset?.uri) return;
-
-        let b64 = asset.base64 ?? null;
-        let mt = asset.mimeType || guessMimeFromUri(asset.uri) || "image/jpeg";
-        if (!b64 || (b64.length * 0.75) > 3_000_000) {
-            const c = await compressClientSide(asset.uri);
-            b64 = c.base64;
-            mt = c.mime;
-        }
 
-        if (b64) {
-            setImageUri(asset.uri);
-            setImageBase64(b64);
-            setMimeType(mt);
-            setResult(null);
-        }
+        await acceptAssets(res.assets?.slice(0, 1) ?? [], true, replaceIndex);
     };
 
     const handlePickFromGallery = async () => {
         setError(null);
+        if (photoLimitReached()) return;
         const lib = await ImagePicker.requestMediaLibraryPermissionsAsync();
         if (lib.status !== "granted") {
             Alert.alert("Permission needed", "Photo library permission is required.");
@@ -253,32 +431,84 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
 
         const res = await ImagePicker.launchImageLibraryAsync({
             quality: 0.9,
-            base64: true,
-            exif: false,
+            base64: false,
+            exif: true,
             mediaTypes: ImagePicker.MediaTypeOptions.Images,
+            allowsMultipleSelection: true,
+            selectionLimit: MAX_PHOTOS - photos.length,
+            orderedSelection: true,
         });
         if (res.canceled) return;
-        const asset = res.assets?.[0];
-        if (!asset?.uri) return;
-
-        let b64 = asset.base64 ?? null;
-        let mt = asset.mimeType || guessMimeFromUri(asset.uri) || "image/jpeg";
-        if (!b64 || (b64.length * 0.75) > 3_000_000) {
-            const c = await compressClientSide(asset.uri);
-            b64 = c.base64;
-            mt = c.mime;
+
+        await acceptAssets(res.assets ?? [], false);
+    };
+
+    // Catches blurry, badly exposed or tiny photos before they cost an analysis call
+    const checkQualityAndAnalyze = async () => {
+        if (photos.length === 0) {
+            analyze();
+            return;
         }
 
-        if (b64) {
-            setImageUri(asset.uri);
-            setImageBase64(b64);
-            setMimeType(mt);
-            setResult(null);
+        setError(null);
+        setCheckingQuality(true);
+        const checked: DraftPhoto[] = [];
+        for (const photo of photos) {
+            if (photo.qualityIssues) {
+                checked.push(photo);
+                continue;
+            }
+            try {
+                checked.push({ ...photo, qualityIssues: await checkPhotoQuality(photo.uri, photo) });
+            } catch (e) {
+                // A check that cannot run never blocks the analysis
+                console.warn("Photo quality check failed:", e);
+                checked.push({ ...photo, qualityIssues: [] });
+            }
+        }
+        setPhotos(checked);
+        setCheckingQuality(false);
+
+        const flagged = checked
+            .map((photo, index) => ({ photo, index }))
+            .filter(({ photo }) => photo.qualityIssues?.length && !photo.qualityAccepted);
+        if (flagged.length === 0) {
+            analyze(checked);
+            return;
         }
+
+        const reasons = flagged.map(({ photo, index }) => {
+            const messages = photo.qualityIssues!.map((issue) => issue.message).join(", ");
+            return checked.length > 1 ? `Photo ${index + 1}: ${messages}` : messages;
+        });
+        const retakeIndex = flagged[0].index;
+        Alert.alert(
+            flagged.length > 1 ? "Some photos may give poor results" : "This photo may give poor results",
+            `${reasons.join("\n")}\n\nRetake it for a more reliable analysis, or analyze it as it is.`,
+            [
+                { text: "Cancel", style: "cancel" },
+                {
+                    text: "Retake",
+                    onPress: () => {
+                        setSelectedPhoto(retakeIndex);
+                        handleTakePhoto(retakeIndex);
+                    },
+                },
+                {
+                    text: "Analyze Anyway",
+                    onPress: () => {
+                        const accepted = checked.map((photo) => ({ ...photo, qualityAccepted: true }));
+                        setPhotos(accepted);
+                        analyze(accepted);
+                    },
+                },
+            ]
+        );
     };
 
-    const analyze = async () => {
-        if (!hasImage) {
+    // `batch` lets callers analyze just-replaced photos before state has caught up
+    const analyze = async (batch = photos) => {
+        if (batch.length === 0) {
             Alert.alert("No image", "Please take or select a photo first.");
             return;
         }
@@ -288,90 +518,205 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
             return;
         }
 
+        if (!(await siteContextForm.trigger())) {
+            setError({ message: "Some site context details are too long. Shorten them and try again." });
+            return;
+        }
+        const siteContext = toSiteContext(siteContextForm.getValues());
+        if (userId) saveSiteContext(userId, siteContext);
+
+        if (checklist) {
+            if (!checklistTemplate) {
+                setError({ message: "The checklist template is no longer available. Pick another one or remove it." });
+                return;
+            }
+            const progress = checklistProgress(checklistTemplate.sections, checklist.answers);
+            if (!isChecklistComplete(progress)) {
+                const remaining = progress.total - progress.answered;
+                Alert.alert("Checklist incomplete", `Answer the remaining ${remaining} checklist ${remaining === 1 ? "item" : "items"} before analyzing.`);
+                return;
+            }
+        }
+
         setError(null);
         setResult(null);
 
+        if (!isOnline) {
+            queueCurrentCapture();
+            return;
+        }
+
+        const signal = analysisRequest.renew();
         try {
             setUploading(true);
-            const uploadHeaders = await buildAuthHeaders();
-            const uploadResp = await fetch(`${apiBaseUrl}/api/uploads/base64`, {
-                method: "POST",
-                headers: uploadHeaders,
-                body: JSON.stringify({
-                    base64: imageBase64,
-                    filename: "inspection",
-                }),
-            });
-
-            if (!uploadResp.ok) {
-                const text = await uploadResp.text();
-                if (uploadResp.status === 401) {
-                    throw new Error("Authentication failed. Please sign in again.");
+            setUploadProgress(null);
+
+            // Files upload one at a time; progress is reported against the whole batch.
+            // A marked-up photo sends its annotated copy for analysis and keeps the original alongside it.
+            const files = batch.map((photo) => (photo.annotatedUri
+                ? [{ uri: photo.annotatedUri, mimeType: "image/jpeg" }, { uri: photo.uri, mimeType: photo.mimeType }]
+                : [{ uri: photo.uri, mimeType: photo.mimeType }]));
+            const sizes = files.flat().map((file) => fileSize(file.uri));
+            const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+            let sent = 0;
+            const imageUrls: string[] = [];
+            const originalImageUrls: (string | null)[] = [];
+            for (const [index, photoFiles] of files.entries()) {
+                const urls: string[] = [];
+                for (const file of photoFiles) {
+                    const before = sizes.slice(0, sent).reduce((sum, size) => sum + size, 0);
+                    const { url } = await api.uploadImage(file.uri, file.mimeType, {
+                        onProgress: ({ bytesSent }) => setUploadProgress({
+                            bytesSent: before + bytesSent,
+                            totalBytes: Math.max(totalBytes, before + bytesSent),
+                            photoNumber: index + 1,
+                            photoCount: batch.length,
+                        }),
+                        signal,
+                    });
+                    urls.push(url);
+                    sent++;
                 }
-                if (uploadResp.status === 413) {
-                    throw new Error("Image too large for server. Please try a smaller photo.");
-                }
-                throw new Error(`Upload failed (${uploadResp.status}): ${text.slice(0, 300)}`);
+                imageUrls.push(urls[0]);
+                originalImageUrls.push(urls[1] ?? null);
             }
-
-            const upJson = await uploadResp.json();
-            if (!upJson?.ok || !upJson?.url) throw new Error("Upload response missing URL.");
-
-            const imageUrl: string = upJson.url;
             setUploading(false);
 
             setAnalyzing(true);
-            const analyzeHeaders = await buildAuthHeaders();
-            const analyzeResp = await fetch(`${apiBaseUrl}/api/inspections/analyze`, {
-                method: "POST",
-                headers: analyzeHeaders,
-                body: JSON.stringify({ imageUrl }),
-            });
+            const json = await api.analyze({
+                imageUrls,
+                originalImageUrls,
+                photoMetadata: batch.map((photo) => (photo.includeMetadata ? photo.metadata : null)),
+                focusRegions: batch.map((photo) => focusRegionsFromMarkup(photo.markup ?? [])),
+                capturedAt: capturedAt ?? undefined,
+                siteContext: siteContext ?? undefined,
+                siteId: siteSelection.siteId ?? undefined,
+                areaId: siteSelection.areaId ?? undefined,
+                checklist: checklist ? toChecklistSubmission(checklist) : undefined,
+            }, { signal });
 
-            const ct = analyzeResp.headers.get("content-type") || "";
-            const isJson = ct.includes("application/json");
+            setResult(json.analysis);
+            fetchRecent();
+        } catch (e: any) {
+            if (isAbortError(e)) return;
+            const apiError = toApiError(e);
+            if (apiError instanceof NetworkError) {
+                Alert.alert(
+                    "No connection",
+                    "The upload could not reach the server. Save these photos to the queue and analyze them when you're back online?",
+                    [
+                        { text: "Cancel", style: "cancel" },
+                        { text: "Add to Queue", onPress: queueCurrentCapture },
+                    ]
+                );
+            }
+            setError(apiError);
+        } finally {
+            setUploading(false);
+            setUploadProgress(null);
+            setAnalyzing(false);
+        }
+    };
 
-            if (!analyzeResp.ok) {
-                const text = await analyzeResp.text();
-                if (analyzeResp.status === 401) {
-                    throw new Error("Authentication failed. Please sign in again.");
+    const handleErrorAction = async (action: RecoveryAction) => {
+        switch (action) {
+            case "retry":
+                analyze();
+                break;
+            case "compressAndRetry": {
+                if (photos.length === 0) return;
+                // The server rejected the usual budget, so aim for half of it
+                const target = UPLOAD_BYTE_BUDGET / 2;
+                const compressed: DraftPhoto[] = [];
+                try {
+                    for (const photo of photos) {
+                        const c = await compressToBudget(photo.uri, photo, target);
+                        const annotated = photo.annotatedUri
+                            ? await compressToBudget(photo.annotatedUri, await getImageSize(photo.annotatedUri), target)
+                            : null;
+                        compressed.push({
+                            ...photo,
+                            uri: c.uri,
+                            mimeType: c.uri !== photo.uri ? "image/jpeg" : photo.mimeType,
+                            width: c.width,
+                            height: c.height,
+                            annotatedUri: annotated?.uri ?? null,
+                            compression: {
+                                originalBytes: photo.compression?.originalBytes ?? c.originalBytes,
+                                bytes: c.bytes,
+                            },
+                        });
+                    }
+                } catch (e) {
+                    setError(toApiError(e));
+                    return;
                 }
-                throw new Error(`Analyze failed (${analyzeResp.status}): ${text.slice(0, 400)}`);
+                setPhotos(compressed);
+                analyze(compressed);
+                break;
             }
+            case "signIn":
+                router.replace("/sign-in");
+                break;
+            case "goBack":
+                setError(null);
+                if (router.canGoBack()) router.back();
+                break;
+        }
+    };
 
-            const json: AnalyzeResponse = isJson
-                ? await analyzeResp.json()
-                : JSON.parse(await analyzeResp.text());
+    const cancelAnalysis = () => {
+        analysisRequest.abort();
+        setUploading(false);
+        setUploadProgress(null);
+        setAnalyzing(false);
+    };
 
-            if (!json?.ok || !json?.analysis) throw new Error("Unexpected analyze response");
+    const queueCurrentCapture = () => {
+        if (photos.length === 0) return;
 
-            setResult(json.analysis);
-            fetchRecent();
+        try {
+            enqueue({
+                photos: photos.map((photo) => ({
+                    sourceUri: photo.uri,
+                    mimeType: photo.mimeType,
+                    metadata: photo.includeMetadata ? photo.metadata : null,
+                    annotatedSourceUri: photo.annotatedUri ?? undefined,
+                    focusRegions: photo.annotatedUri ? focusRegionsFromMarkup(photo.markup ?? []) : undefined,
+                })),
+                capturedAt: capturedAt ?? new Date().toISOString(),
+                siteContext: toSiteContext(siteContextForm.getValues()) ?? undefined,
+                siteId: siteSelection.siteId ?? undefined,
+                areaId: siteSelection.areaId ?? undefined,
+                checklist: checklist ? toChecklistSubmission(checklist) : undefined,
+            });
         } catch (e: any) {
-            setError(e?.message || "Failed to analyze image.");
-        } finally {
-            setUploading(false);
-            setAnalyzing(false);
+            setError({ message: e?.message || "Failed to save photo to the queue." });
+            return;
         }
+
+        // The queue keeps its own copies of the photos
+        discardActiveDraft();
+        setPhotos([]);
+        setSelectedPhoto(0);
+        setCapturedAt(null);
+        setChecklist(null);
+        setError(null);
+        Alert.alert("Saved to queue", "The photos will be uploaded and analyzed automatically once you're online.");
     };
 
     const fetchRecent = async () => {
         if (!session) return;
 
+        const signal = recentRequest.renew();
         try {
             setListLoading(true);
-            const headers = await buildAuthHeaders();
-            const resp = await fetch(
-                `${apiBaseUrl}/api/inspections/list?page=1&pageSize=${PAGE_SIZE}`,
-                { headers }
-            );
-            if (!resp.ok) return;
-            const json: ListResponse = await resp.json();
-            if (json?.ok) setRecent(json.inspections);
+            const json = await api.listInspections(1, PAGE_SIZE, { signal });
+            setRecent(json.inspections);
         } catch (e) {
-            console.warn("Failed to fetch recent inspections:", e);
+            if (!isAbortError(e)) console.warn("Failed to fetch recent inspections:", e);
         } finally {
-            setListLoading(false);
+            if (!signal.aborted) setListLoading(false);
         }
     };
 
@@ -381,10 +726,53 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
         }
     }, [session]);
 
+    useEffect(() => {
+        if (!userId) return;
+        let cancelled = false;
+        loadDrafts(userId).then((saved) => {
+            if (!cancelled) setDrafts(saved);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    // The autosave timer calls whichever save the latest render produced, so it sees the current capture
+    const persistDraftRef = useRef(persistDraft);
+    useEffect(() => {
+        persistDraftRef.current = persistDraft;
+    });
+
+    // Saves the capture as it changes so it survives the app being backgrounded or killed
+    useEffect(() => {
+        if (photos.length === 0) return;
+        const timer = setTimeout(() => persistDraftRef.current(), DRAFT_SAVE_DELAY_MS);
+        return () => clearTimeout(timer);
+    }, [photos, capturedAt, result, siteContextValues, siteSelection, checklist]);
+
+    // Start from the context this inspector used last, unless they have already typed something
+    useEffect(() => {
+        if (!userId) return;
+        let cancelled = false;
+        loadSiteContext(userId).then((saved) => {
+            if (!cancelled && saved && !siteContextForm.formState.isDirty) {
+                siteContextForm.reset(toSiteContextFields(saved));
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [userId, siteContextForm]);
+
+    // Failed checklist items are reported next to the AI's hazards, as they are on the inspection
     const sections = useMemo(() => {
-        if (!result?.hazards?.length) return [];
+        const failedItems = result && checklist && checklistTemplate
+            ? checklistHazards(checklistTemplate.sections, Object.values(checklist.answers))
+            : [];
+        const hazards = [...(result?.hazards ?? []), ...failedItems];
+        if (!hazards.length) return [];
         const map = new Map<HazardCategory, Hazard[]>();
-        for (const h of result.hazards) {
+        for (const h of hazards) {
             const arr = map.get(h.category) ?? [];
             arr.push(h);
             map.set(h.category, arr);
@@ -392,7 +780,7 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
         return Array.from(map.entries())
             .sort((a, b) => a[0].localeCompare(b[0]))
             .map(([title, data]) => ({ title, data }));
-    }, [result]);
+    }, [result, checklist, checklistTemplate]);
 
     if (!session) {
         return (
@@ -418,21 +806,72 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
                         ],
                     }}
                 >
+                    <DraftsPanel
+                        drafts={drafts}
+                        activeDraftId={activeDraft?.id ?? null}
+                        hasPhotos={hasImage}
+                        onResume={resumeDraft}
+                        onRename={handleRenameDraft}
+                        onDelete={handleDeleteDraft}
+                        onNewCapture={startNewCapture}
+                        disabled={checkingQuality || uploading || analyzing}
+                    />
+
                     <StepCard
                         number="1"
-                        title="Capture Image"
-                        description="Take a photo or select from gallery"
+                        title="Capture Images"
+                        description={`Take photos or select from gallery (up to ${MAX_PHOTOS})`}
                     >
                         <ActionButtons
-                            onTakePhoto={handleTakePhoto}
+                            onTakePhoto={() => handleTakePhoto()}
                             onPickFromGallery={handlePickFromGallery}
                         />
 
-                        {imageUri ? (
-                            <ImagePreview
-                                imageUri={imageUri}
-                                onPress={() => setShowImageModal(true)}
-                            />
+                        {!hasImage && <BatchLink />}
+
+                        {previewPhoto ? (
+                            <>
+                                <ImagePreview
+                                    imageUri={displayUri(previewPhoto)}
+                                    onPress={() => setShowImageModal(true)}
+                                />
+                                <View style={{ flexDirection: "row", gap: 12 }}>
+                                    <PhotoToolButton
+                                        icon="crop-outline"
+                                        label="Crop & Rotate"
+                                        onPress={openPhotoEditor}
+                                        disabled={uploading || analyzing}
+                                    />
+                                    <PhotoToolButton
+                                        icon="brush-outline"
+                                        label={previewPhoto.annotatedUri ? "Edit Markup" : "Mark Up"}
+                                        active={Boolean(previewPhoto.annotatedUri)}
+                                        onPress={() => setShowMarkupEditor(true)}
+                                        disabled={uploading || analyzing}
+                                    />
+                                </View>
+                                <UploadSizeRow photo={previewPhoto} />
+                                {!!previewPhoto.qualityIssues?.length && (
+                                    <QualityWarning
+                                        issues={previewPhoto.qualityIssues}
+                                        accepted={Boolean(previewPhoto.qualityAccepted)}
+                                        onRetake={() => handleTakePhoto(previewIndex)}
+                                        disabled={uploading || analyzing}
+                                    />
+                                )}
+                                <PhotoMetadataRow
+                                    photo={previewPhoto}
+                                    onToggle={(include) => toggleMetadata(previewIndex, include)}
+                                    disabled={uploading || analyzing}
+                                />
+                                <PhotoStrip
+                                    photos={photos}
+                                    selected={selectedPhoto}
+                                    onSelect={setSelectedPhoto}
+                                    onRemove={removePhoto}
+                                    disabled={uploading || analyzing}
+                                />
+                            </>
                         ) : (
                             <EmptyImageState />
                         )}
@@ -441,16 +880,46 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
                     <StepCard
                         number="2"
                         title="AI Analysis"
-                        description="Process image for safety hazards"
+                        description="Process photos for safety hazards"
                     >
+                        <SitePicker
+                            sites={sitesState.sites}
+                            loading={sitesState.loading}
+                            value={siteSelection}
+                            onChange={setSiteSelection}
+                            onCreateSite={sitesState.createSite}
+                            onCreateArea={sitesState.createArea}
+                            disabled={uploading || analyzing}
+                        />
+
+                        <ChecklistPanel
+                            templates={checklistState.templates}
+                            loading={checklistState.loading}
+                            canManage={checklistState.canManage}
+                            value={checklist}
+                            onChange={setChecklist}
+                            disabled={uploading || analyzing}
+                        />
+
+                        <SiteContextForm
+                            control={siteContextForm.control}
+                            onClear={() => siteContextForm.reset(EMPTY_SITE_CONTEXT)}
+                            disabled={uploading || analyzing}
+                        />
+
                         <AnalyzeButton
-                            onPress={analyze}
-                            disabled={!hasImage || uploading || analyzing}
+                            onPress={checkQualityAndAnalyze}
+                            disabled={!hasImage || checkingQuality || uploading || analyzing}
+                            checking={checkingQuality}
                             uploading={uploading}
                             analyzing={analyzing}
                         />
 
-                        {error && <ErrorCard error={error} />}
+                        {uploading && <UploadProgressBar progress={uploadProgress} />}
+
+                        {(uploading || analyzing) && <CancelButton onPress={cancelAnalysis} />}
+
+                        {error && <ErrorCard error={error} onAction={handleErrorAction} />}
                     </StepCard>
 
                     {result && (
@@ -459,23 +928,51 @@ const AnalyzePhotoScreen: React.FC<AnalyzePhotoScreenProps> = ({
                             title="Analysis Results"
                             description="Safety assessment complete"
                         >
+                            {result.partial && (
+                                <PartialResultBanner hazardCount={result.hazards.length} issues={result.issues} />
+                            )}
                             <AssessmentCard result={result} />
 
                             {sections.map((section) => (
-                                <HazardSection key={section.title} section={section} />
+                                <HazardSection
+                                    key={section.title}
+                                    section={section}
+                                    showPhoto={photos.length > 1}
+                                    onPhotoPress={(index) => {
+                                        setSelectedPhoto(index);
+                                        setShowImageModal(true);
+                                    }}
+                                />
                             ))}
                         </StepCard>
                     )}
 
+                    <CaptureQueueList />
+
                     {recent.length > 0 && <RecentSection recent={recent} />}
                 </Animated.View>
             </ScrollView>
 
             <ImageModal
                 visible={showImageModal}
-                imageUri={imageUri}
+                imageUri={previewUri}
                 onClose={() => setShowImageModal(false)}
             />
+
+            <PhotoEditor
+                visible={showPhotoEditor}
+                imageUri={previewPhoto?.uri ?? null}
+                onCancel={() => setShowPhotoEditor(false)}
+                onSave={saveEditedPhoto}
+            />
+
+            <MarkupEditor
+                visible={showMarkupEditor}
+                imageUri={previewPhoto?.uri ?? null}
+                initialShapes={previewPhoto?.markup}
+                onCancel={() => setShowMarkupEditor(false)}
+                onSave={saveMarkup}
+            />
         </>
     );
 };
@@ -715,12 +1212,35 @@ function ActionButtons({
             <TouchableOpacity style={buttonStyle} onPress={onPickFromGallery}>
                 <Text style={iconStyle}>🖼️</Text>
                 <Text style={titleStyle}>Gallery</Text>
-                <Text style={subtitleStyle}>Choose photo</Text>
+                <Text style={subtitleStyle}>Choose photos</Text>
             </TouchableOpacity>
         </View>
     );
 }
 
+// Separate inspections per photo, for a site walk's worth of gallery photos
+function BatchLink() {
+    const { colors } = useTheme();
+
+    const linkStyle: ViewStyle = {
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 6,
+        paddingVertical: 8,
+        marginBottom: 8,
+    };
+
+    return (
+        <TouchableOpacity style={linkStyle} onPress={() => router.push("/batch")}>
+            <Ionicons name="layers-outline" size={16} color={colors.primary} />
+            <Text style={{ fontSize: 14, fontWeight: "600", color: colors.primary }}>
+                Analyze many photos separately
+            </Text>
+        </TouchableOpacity>
+    );
+}
+
 function ImagePreview({
                           imageUri,
                           onPress
@@ -767,6 +1287,261 @@ function ImagePreview({
     );
 }
 
+function PhotoToolButton({
+                             icon,
+                             label,
+                             active = false,
+                             onPress,
+                             disabled,
+                         }: {
+    icon: string;
+    label: string;
+    active?: boolean;
+    onPress: () => void;
+    disabled: boolean;
+}) {
+    const { colors } = useTheme();
+
+    const buttonStyle: ViewStyle = {
+        flex: 1,
+        flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 8,
+        marginTop: 12,
+        paddingVertical: 10,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: active ? colors.primary : colors.border,
+        backgroundColor: active ? colors.infoBackground : colors.surface,
+        opacity: disabled ? 0.5 : 1,
+    };
+
+    const textStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: "600",
+        color: active ? colors.primary : colors.text,
+    };
+
+    return (
+        <TouchableOpacity style={buttonStyle} onPress={onPress} disabled={disabled}>
+            <Ionicons name={icon as any} size={18} color={active ? colors.primary : colors.text} />
+            <Text style={textStyle}>{label}</Text>
+        </TouchableOpacity>
+    );
+}
+
+function QualityWarning({
+                            issues,
+                            accepted,
+                            onRetake,
+                            disabled,
+                        }: {
+    issues: QualityIssue[];
+    accepted: boolean;
+    onRetake: () => void;
+    disabled: boolean;
+}) {
+    const { colors } = useTheme();
+
+    const containerStyle: ViewStyle = {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 12,
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: colors.warningBackground,
+        borderWidth: 1,
+        borderColor: colors.warning,
+    };
+
+    const messageStyle: TextStyle = {
+        fontSize: 13,
+        fontWeight: "600",
+        color: colors.warning,
+    };
+
+    const hintStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const retakeStyle: ViewStyle = {
+        paddingHorizontal: 12,
+        paddingVertical: 8,
+        borderRadius: 10,
+        backgroundColor: colors.warning,
+        opacity: disabled ? 0.5 : 1,
+    };
+
+    return (
+        <View style={containerStyle}>
+            <Ionicons name="warning-outline" size={20} color={colors.warning} />
+            <View style={{ flex: 1 }}>
+                {issues.map((issue) => (
+                    <Text key={issue.kind} style={messageStyle}>{issue.message}</Text>
+                ))}
+                <Text style={hintStyle}>
+                    {accepted ? "Will be analyzed anyway" : "Results from this photo may be unreliable"}
+                </Text>
+            </View>
+            <TouchableOpacity style={retakeStyle} onPress={onRetake} disabled={disabled}>
+                <Text style={{ color: "#fff", fontSize: 13, fontWeight: "700" }}>Retake</Text>
+            </TouchableOpacity>
+        </View>
+    );
+}
+
+/** Size the photo will upload at, including its annotated copy */
+function UploadSizeRow({ photo }: { photo: DraftPhoto }) {
+    const { colors } = useTheme();
+    const bytes = fileSize(photo.uri) + (photo.annotatedUri ? fileSize(photo.annotatedUri) : 0);
+    const { compression } = photo;
+    const saved = compression && compression.bytes < compression.originalBytes ? compression : null;
+
+    const textStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 8,
+        textAlign: "center",
+    };
+
+    return (
+        <Text style={textStyle}>
+            Uploads at {photo.width} × {photo.height} px · {formatBytes(bytes)}
+            {photo.annotatedUri ? " with markup" : ""}
+            {saved
+                ? `\nCompressed from ${formatBytes(saved.originalBytes)} to ${Math.round((saved.bytes / saved.originalBytes) * 100)}% of the original`
+                : ""}
+        </Text>
+    );
+}
+
+function PhotoMetadataRow({
+                              photo,
+                              onToggle,
+                              disabled,
+                          }: {
+    photo: DraftPhoto;
+    onToggle: (include: boolean) => void;
+    disabled: boolean;
+}) {
+    const { colors } = useTheme();
+    const { capturedAt, location } = photo.metadata;
+
+    const containerStyle: ViewStyle = {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 12,
+        marginTop: 12,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const lineStyle: TextStyle = {
+        fontSize: 13,
+        color: photo.includeMetadata ? colors.text : colors.textTertiary,
+    };
+
+    const hintStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    return (
+        <View style={containerStyle}>
+            <View style={{ flex: 1 }}>
+                <Text style={lineStyle}>
+                    🕒 {capturedAt ? formatCapturedAt(capturedAt) : "Capture time unknown"}
+                </Text>
+                <Text style={lineStyle}>
+                    📍 {location ? formatCoordinates(location) : "No location recorded"}
+                </Text>
+                <Text style={hintStyle}>
+                    {photo.includeMetadata ? "Included with this photo" : "Not shared for this photo"}
+                </Text>
+            </View>
+            <Switch
+                value={photo.includeMetadata}
+                onValueChange={onToggle}
+                disabled={disabled || (!capturedAt && !location)}
+                trackColor={{ false: colors.border, true: colors.primary }}
+                thumbColor={colors.surface}
+                ios_backgroundColor={colors.border}
+            />
+        </View>
+    );
+}
+
+function PhotoStrip({
+                        photos,
+                        selected,
+                        onSelect,
+                        onRemove,
+                        disabled,
+                    }: {
+    photos: DraftPhoto[];
+    selected: number;
+    onSelect: (index: number) => void;
+    onRemove: (index: number) => void;
+    disabled: boolean;
+}) {
+    const { colors } = useTheme();
+
+    const countStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 12,
+        marginBottom: 8,
+    };
+
+    const thumbStyle = (active: boolean): ViewStyle => ({
+        width: 64,
+        height: 64,
+        borderRadius: 10,
+        overflow: "hidden",
+        borderWidth: 2,
+        borderColor: active ? colors.primary : colors.border,
+        backgroundColor: colors.backgroundTertiary,
+    });
+
+    const removeStyle: ViewStyle = {
+        position: "absolute",
+        top: 2,
+        right: 2,
+        width: 20,
+        height: 20,
+        borderRadius: 10,
+        backgroundColor: "rgba(0,0,0,0.6)",
+        justifyContent: "center",
+        alignItems: "center",
+    };
+
+    return (
+        <View>
+            <Text style={countStyle}>
+                {photos.length} of {MAX_PHOTOS} photos
+            </Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 8 }}>
+                {photos.map((photo, index) => (
+                    <Pressable key={photo.uri} style={thumbStyle(index === selected)} onPress={() => onSelect(index)}>
+                        <Image source={{ uri: displayUri(photo) }} style={{ width: "100%", height: "100%" }} resizeMode="cover" />
+                        {!disabled && (
+                            <TouchableOpacity style={removeStyle} onPress={() => onRemove(index)} hitSlop={6}>
+                                <Ionicons name="close" size={14} color="#fff" />
+                            </TouchableOpacity>
+                        )}
+                    </Pressable>
+                ))}
+            </ScrollView>
+        </View>
+    );
+}
+
 function EmptyImageState() {
     const { colors } = useTheme();
 
@@ -801,11 +1576,13 @@ function EmptyImageState() {
 function AnalyzeButton({
                            onPress,
                            disabled,
+                           checking,
                            uploading,
                            analyzing
                        }: {
     onPress: () => void;
     disabled: boolean;
+    checking: boolean;
     uploading: boolean;
     analyzing: boolean;
 }) {
@@ -832,6 +1609,7 @@ function AnalyzeButton({
     };
 
     const getButtonText = () => {
+        if (checking) return "Checking photos...";
         if (uploading) return "Uploading...";
         if (analyzing) return "Analyzing...";
         return "Start Analysis";
@@ -844,7 +1622,7 @@ function AnalyzeButton({
             disabled={disabled}
             activeOpacity={disabled ? 1 : 0.8}
         >
-            {(uploading || analyzing) ? (
+            {(checking || uploading || analyzing) ? (
                 <ActivityIndicator color="#fff" size="small" />
             ) : (
                 <Text style={iconStyle}>🔍</Text>
@@ -854,21 +1632,107 @@ function AnalyzeButton({
     );
 }
 
-function ErrorCard({ error }: { error: string }) {
+function CancelButton({ onPress }: { onPress: () => void }) {
     const { colors } = useTheme();
 
-    const containerStyle: ViewStyle = {
+    const buttonStyle: ViewStyle = {
         flexDirection: "row",
+        alignItems: "center",
+        justifyContent: "center",
+        gap: 6,
+        marginTop: 12,
+        paddingVertical: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const textStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: "600",
+        color: colors.textSecondary,
+    };
+
+    return (
+        <TouchableOpacity style={buttonStyle} onPress={onPress} activeOpacity={0.7}>
+            <Ionicons name="close-circle-outline" size={18} color={colors.textSecondary} />
+            <Text style={textStyle}>Cancel</Text>
+        </TouchableOpacity>
+    );
+}
+
+function UploadProgressBar({ progress }: { progress: BatchUploadProgress | null }) {
+    const { colors } = useTheme();
+
+    const fraction = progress && progress.totalBytes > 0
+        ? Math.min(progress.bytesSent / progress.totalBytes, 1)
+        : 0;
+
+    const containerStyle: ViewStyle = {
+        marginTop: 12,
+    };
+
+    const trackStyle: ViewStyle = {
+        height: 8,
+        borderRadius: 4,
+        backgroundColor: colors.border,
+        overflow: "hidden",
+    };
+
+    const fillStyle: ViewStyle = {
+        height: "100%",
+        width: `${Math.round(fraction * 100)}%`,
+        borderRadius: 4,
+        backgroundColor: colors.primary,
+    };
+
+    const labelStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 6,
+        textAlign: "center",
+    };
+
+    return (
+        <View style={containerStyle}>
+            <View style={trackStyle}>
+                <View style={fillStyle} />
+            </View>
+            <Text style={labelStyle}>
+                {progress
+                    ? `${progress.photoCount > 1 ? `Photo ${progress.photoNumber} of ${progress.photoCount} · ` : ""}` +
+                      `${formatBytes(progress.bytesSent)} of ${formatBytes(progress.totalBytes)} (${Math.round(fraction * 100)}%)`
+                    : "Preparing upload..."}
+            </Text>
+        </View>
+    );
+}
+
+function ErrorCard({
+                       error,
+                       onAction,
+                   }: {
+    error: ScreenError;
+    onAction: (action: RecoveryAction) => void;
+}) {
+    const { colors } = useTheme();
+
+    const containerStyle: ViewStyle = {
         backgroundColor: colors.errorBackground,
         borderRadius: 12,
         padding: 16,
         marginTop: 12,
-        alignItems: "center",
         gap: 12,
         borderWidth: 1,
         borderColor: colors.error,
     };
 
+    const rowStyle: ViewStyle = {
+        flexDirection: "row",
+        alignItems: "center",
+        gap: 12,
+    };
+
     const iconStyle: TextStyle = {
         fontSize: 24,
     };
@@ -880,10 +1744,33 @@ function ErrorCard({ error }: { error: string }) {
         lineHeight: 20,
     };
 
+    const actionStyle: ViewStyle = {
+        alignSelf: "flex-end",
+        paddingVertical: 8,
+        paddingHorizontal: 16,
+        borderRadius: 10,
+        backgroundColor: colors.error,
+    };
+
+    const actionTextStyle: TextStyle = {
+        color: "#fff",
+        fontSize: 14,
+        fontWeight: "600",
+    };
+
+    const { action } = error;
+
     return (
         <View style={containerStyle}>
-            <Text style={iconStyle}>⚠️</Text>
-            <Text style={textStyle}>{error}</Text>
+            <View style={rowStyle}>
+                <Text style={iconStyle}>⚠️</Text>
+                <Text style={textStyle}>{error.message}</Text>
+            </View>
+            {action && (
+                <TouchableOpacity style={actionStyle} onPress={() => onAction(action)} activeOpacity={0.8}>
+                    <Text style={actionTextStyle}>{ACTION_LABELS[action]}</Text>
+                </TouchableOpacity>
+            )}
         </View>
     );
 }
@@ -918,24 +1805,26 @@ function AssessmentCard({ result }: { result: AnalysisResult }) {
         gap: 12,
     };
 
+    const overall = result.overallAssessment;
+
     return (
         <View style={containerStyle}>
             <View style={headerStyle}>
                 <Text style={titleStyle}>Overall Assessment</Text>
-                <GradeBadge grade={result.overallAssessment.safetyGrade} />
+                {overall && <GradeBadge grade={overall.safetyGrade} />}
             </View>
 
             <View style={gridStyle}>
                 <MetricCard
                     icon="⚡"
                     label="Risk Score"
-                    value={String(result.overallAssessment.riskScore)}
+                    value={overall ? String(overall.riskScore) : "-"}
                     color={colors.error}
                 />
                 <MetricCard
                     icon="🛡️"
                     label="Confidence"
-                    value={`${result.metadata.confidence}%`}
+                    value={result.metadata ? `${result.metadata.confidence}%` : "-"}
                     color={colors.success}
                 />
                 <MetricCard
@@ -1027,7 +1916,15 @@ function GradeBadge({ grade }: { grade: SafetyGrade }) {
     );
 }
 
-function HazardSection({ section }: { section: { title: string; data: Hazard[] } }) {
+function HazardSection({
+                           section,
+                           showPhoto,
+                           onPhotoPress,
+                       }: {
+    section: { title: string; data: Hazard[] };
+    showPhoto: boolean;
+    onPhotoPress: (index: number) => void;
+}) {
     const { colors } = useTheme();
 
     const containerStyle: ViewStyle = {
@@ -1067,13 +1964,26 @@ function HazardSection({ section }: { section: { title: string; data: Hazard[] }
                 </Text>
             </View>
             {section.data.map((hazard) => (
-                <EnhancedHazardCard key={hazard.id} hazard={hazard} />
+                <EnhancedHazardCard
+                    key={hazard.id}
+                    hazard={hazard}
+                    showPhoto={showPhoto}
+                    onPhotoPress={onPhotoPress}
+                />
             ))}
         </View>
     );
 }
 
-function EnhancedHazardCard({ hazard }: { hazard: Hazard }) {
+function EnhancedHazardCard({
+                                hazard,
+                                showPhoto,
+                                onPhotoPress,
+                            }: {
+    hazard: Hazard;
+    showPhoto: boolean;
+    onPhotoPress: (index: number) => void;
+}) {
     const { colors } = useTheme();
 
     const severityColors = {
@@ -1129,12 +2039,38 @@ function EnhancedHazardCard({ hazard }: { hazard: Hazard }) {
         color: severityColors[hazard.severity],
     };
 
+    const photoChipStyle: ViewStyle = {
+        flexDirection: "row",
+        alignItems: "center",
+        alignSelf: "flex-start",
+        gap: 4,
+        marginTop: 8,
+        paddingHorizontal: 8,
+        paddingVertical: 4,
+        borderRadius: 8,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const photoChipTextStyle: TextStyle = {
+        fontSize: 12,
+        fontWeight: "600",
+        color: colors.primary,
+    };
+
+    const photoIndex = hazard.photoIndex;
+
     return (
         <View style={cardStyle}>
             <View style={headerStyle}>
                 <View style={titleSectionStyle}>
                     <Text style={titleStyle}>{hazard.description}</Text>
                     <Text style={locationStyle}>📍 {hazard.location}</Text>
+                    {showPhoto && photoIndex != null && (
+                        <TouchableOpacity style={photoChipStyle} onPress={() => onPhotoPress(photoIndex)}>
+                            <Ionicons name="image-outline" size={14} color={colors.primary} />
+                            <Text style={photoChipTextStyle}>Photo {photoIndex + 1}</Text>
+                        </TouchableOpacity>
+                    )}
                 </View>
                 <View style={severityBadgeStyle}>
                     <Text style={severityTextStyle}>{hazard.severity}</Text>
@@ -1145,7 +2081,7 @@ function EnhancedHazardCard({ hazard }: { hazard: Hazard }) {
     );
 }
 
-function RecentSection({ recent }: { recent: ListResponse["inspections"] }) {
+function RecentSection({ recent }: { recent: InspectionSummary[] }) {
     const { colors } = useTheme();
 
     const containerStyle: ViewStyle = {
@@ -1181,7 +2117,7 @@ function RecentCard({
                         item,
                         onPress
                     }: {
-    item: ListResponse["inspections"][0];
+    item: InspectionSummary;
     onPress: () => void;
 }) {
     const { colors } = useTheme();
@@ -1313,6 +2249,10 @@ function ImageModal({
 }
 
 // Helper functions
+function displayUri(photo: DraftPhoto) {
+    return photo.annotatedUri ?? photo.uri;
+}
+
 function guessMimeFromUri(uri: string | null | undefined) {
     if (!uri) return null;
     const lower = uri.toLowerCase();
@@ -1323,6 +2263,11 @@ function guessMimeFromUri(uri: string | null | undefined) {
     return null;
 }
 
+function formatBytes(bytes: number): string {
+    if (bytes >= 1_000_000) return `${(bytes / 1_000_000).toFixed(1)} MB`;
+    return `${Math.round(bytes / 1000)} KB`;
+}
+
 function getCategoryIcon(category: string): string {
     const icons: Record<string, string> = {
         PPE: "🦺",
@@ -0,0 +1,190 @@
+// src/components/CaptureQueueList.tsx
+import React from 'react';
+import {
+    View,
+    Text,
+    Image,
+    TouchableOpacity,
+    ActivityIndicator,
+    ViewStyle,
+    TextStyle,
+    ImageStyle,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useCaptureQueue } from '@/contexts/CaptureQueueContext';
+import type { QueuedCapture, QueueItemStatus } from '@/storage/captureQueue';
+
+export default function CaptureQueueList() {
+    const { colors } = useTheme();
+    const { items, isOnline } = useCaptureQueue();
+
+    if (items.length === 0) return null;
+
+    const containerStyle: ViewStyle = {
+        backgroundColor: colors.surface,
+        borderRadius: 20,
+        padding: 20,
+        marginBottom: 20,
+        borderWidth: 1,
+        borderColor: colors.border,
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        justifyContent: 'space-between',
+        alignItems: 'center',
+        marginBottom: 12,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 18,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const connectivityStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 6,
+        paddingHorizontal: 10,
+        paddingVertical: 4,
+        borderRadius: 12,
+        backgroundColor: isOnline ? colors.successBackground : colors.warningBackground,
+    };
+
+    const connectivityTextStyle: TextStyle = {
+        fontSize: 12,
+        fontWeight: '600',
+        color: isOnline ? colors.success : colors.warning,
+    };
+
+    const pending = items.filter((item) => item.status !== 'done').length;
+
+    return (
+        <View style={containerStyle}>
+            <View style={headerStyle}>
+                <Text style={titleStyle}>Upload Queue ({pending})</Text>
+                <View style={connectivityStyle}>
+                    <Ionicons
+                        name={isOnline ? 'cloud-done' : 'cloud-offline'}
+                        size={14}
+                        color={isOnline ? colors.success : colors.warning}
+                    />
+                    <Text style={connectivityTextStyle}>{isOnline ? 'Online' : 'Offline'}</Text>
+                </View>
+            </View>
+            {items.map((item) => (
+                <QueueRow key={item.id} item={item} />
+            ))}
+        </View>
+    );
+}
+
+function QueueRow({ item }: { item: QueuedCapture }) {
+    const { colors } = useTheme();
+    const { retry, discard } = useCaptureQueue();
+
+    const statusInfo: Record<QueueItemStatus, { label: string; color: string }> = {
+        queued: { label: 'Queued', color: colors.textTertiary },
+        uploading: { label: 'Uploading', color: colors.info },
+        analyzing: { label: 'Analyzing', color: colors.warning },
+        done: { label: 'Done', color: colors.success },
+        failed: { label: 'Failed', color: colors.error },
+    };
+    const status = statusInfo[item.status];
+    const busy = item.status === 'uploading' || item.status === 'analyzing';
+
+    const rowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        paddingVertical: 10,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+        gap: 12,
+    };
+
+    const thumbStyle: ImageStyle = {
+        width: 48,
+        height: 48,
+        borderRadius: 8,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const timeStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text,
+    };
+
+    const statusStyle: TextStyle = {
+        fontSize: 12,
+        fontWeight: '600',
+        color: status.color,
+        marginTop: 2,
+    };
+
+    const errorStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.error,
+        marginTop: 2,
+    };
+
+    const actionStyle: ViewStyle = {
+        width: 36,
+        height: 36,
+        borderRadius: 18,
+        backgroundColor: colors.backgroundTertiary,
+        justifyContent: 'center',
+        alignItems: 'center',
+    };
+
+    return (
+        <View style={rowStyle}>
+            {item.status === 'done' ? (
+                <View style={[thumbStyle, { justifyContent: 'center', alignItems: 'center' }]}>
+                    <Ionicons name="checkmark-circle" size={24} color={colors.success} />
+                </View>
+            ) : (
+                <Image source={{ uri: item.photos[0]?.fileUri }} style={thumbStyle} resizeMode="cover" />
+            )}
+            <View style={{ flex: 1 }}>
+                <Text style={timeStyle}>
+                    {new Date(item.capturedAt).toLocaleString('en-US', {
+                        month: 'short',
+                        day: 'numeric',
+                        hour: '2-digit',
+                        minute: '2-digit',
+                    })}
+                </Text>
+                <Text style={statusStyle}>
+                    {status.label}
+                    {item.photos.length > 1 ? ` · ${item.photos.length} photos` : ''}
+                    {item.attempts > 1 ? ` · attempt ${item.attempts}` : ''}
+                </Text>
+                {item.error && <Text style={errorStyle} numberOfLines={2}>{item.error}</Text>}
+            </View>
+
+            {busy && <ActivityIndicator size="small" color={status.color} />}
+            {item.status === 'failed' && (
+                <TouchableOpacity style={actionStyle} onPress={() => retry(item.id)}>
+                    <Ionicons name="refresh" size={18} color={colors.primary} />
+                </TouchableOpacity>
+            )}
+            {item.status === 'done' && item.inspectionId && (
+                <TouchableOpacity
+                    style={actionStyle}
+                    onPress={() => router.push(`/inspection/${item.inspectionId}`)}
+                >
+                    <Ionicons name="arrow-forward" size={18} color={colors.primary} />
+                </TouchableOpacity>
+            )}
+            {!busy && (
+                <TouchableOpacity style={actionStyle} onPress={() => discard(item.id)}>
+                    <Ionicons name="trash-outline" size={18} color={colors.error} />
+                </TouchableOpacity>
+            )}
+        </View>
+    );
+}
@@ -0,0 +1,322 @@
+// src/components/ChecklistPanel.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    ScrollView,
+    Text,
+    TextInput,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { router } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { checklistAnswerSchema } from '@/api/schemas';
+import type { ChecklistAnswer, ChecklistItem, ChecklistTemplate } from '@/api/types';
+import {
+    CHECKLIST_ANSWER_LABELS,
+    ChecklistDraft,
+    checklistItems,
+    checklistProgress,
+} from '@/utils/checklist';
+
+interface ChecklistPanelProps {
+    templates: ChecklistTemplate[];
+    loading?: boolean;
+    /** Shows a link to the template editor */
+    canManage?: boolean;
+    value: ChecklistDraft | null;
+    onChange: (value: ChecklistDraft | null) => void;
+    disabled?: boolean;
+}
+
+/**
+ * Picks the checklist template an inspection is started from and collects
+ * a Yes / No / N/A answer for each of its items. Items answered "No" are
+ * raised as hazards alongside the AI's findings.
+ */
+export default function ChecklistPanel({
+                                           templates,
+                                           loading,
+                                           canManage,
+                                           value,
+                                           onChange,
+                                           disabled,
+                                       }: ChecklistPanelProps) {
+    const { colors } = useTheme();
+    const [open, setOpen] = useState(false);
+
+    const template = templates.find((entry) => entry.id === value?.templateId) ?? null;
+    const answers = value?.answers ?? {};
+    const progress = template ? checklistProgress(template.sections, answers) : null;
+
+    const choose = (next: ChecklistTemplate | null) => {
+        setOpen(false);
+        if (next?.id === value?.templateId) return;
+        const apply = () => onChange(next ? { templateId: next.id, answers: {} } : null);
+        if (!progress?.answered) return apply();
+        Alert.alert(
+            next ? 'Switch checklist?' : 'Remove checklist?',
+            'The answers given so far will be lost.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: next ? 'Switch' : 'Remove', style: 'destructive', onPress: apply },
+            ],
+        );
+    };
+
+    const answer = (item: ChecklistItem, next: ChecklistAnswer) => {
+        if (!value) return;
+        const note = next === 'no' ? answers[item.id]?.note : undefined;
+        onChange({ ...value, answers: { ...answers, [item.id]: { itemId: item.id, answer: next, note } } });
+    };
+
+    const setNote = (item: ChecklistItem, note: string) => {
+        if (!value) return;
+        onChange({ ...value, answers: { ...answers, [item.id]: { itemId: item.id, answer: 'no', note } } });
+    };
+
+    const markRemainingYes = () => {
+        if (!value || !template) return;
+        const filled = { ...answers };
+        for (const { item } of checklistItems(template.sections)) {
+            if (!filled[item.id]) filled[item.id] = { itemId: item.id, answer: 'yes' };
+        }
+        onChange({ ...value, answers: filled });
+    };
+
+    const fieldStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.backgroundSecondary,
+        opacity: disabled ? 0.6 : 1,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '600',
+        color: colors.text,
+    };
+
+    const detailStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const sectionTitleStyle: TextStyle = {
+        fontSize: 12,
+        fontWeight: '700',
+        color: colors.textSecondary,
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginBottom: 8,
+    };
+
+    const itemStyle: ViewStyle = {
+        paddingVertical: 12,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+    };
+
+    const answerColor = (option: ChecklistAnswer) =>
+        option === 'yes' ? colors.success : option === 'no' ? colors.error : colors.textSecondary;
+
+    const answerChipStyle = (option: ChecklistAnswer, selected: boolean): ViewStyle => ({
+        flex: 1,
+        alignItems: 'center',
+        paddingVertical: 8,
+        borderRadius: 10,
+        borderWidth: 1,
+        borderColor: selected ? answerColor(option) : colors.border,
+        backgroundColor: selected ? answerColor(option) : colors.surface,
+    });
+
+    const answerChipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const noteStyle: TextStyle = {
+        marginTop: 8,
+        borderWidth: 1,
+        borderColor: colors.border,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 14,
+        color: colors.text,
+        backgroundColor: colors.backgroundSecondary,
+    };
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '85%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const rowStyle = (selected: boolean): ViewStyle => ({
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 12,
+        paddingHorizontal: 12,
+        borderRadius: 10,
+        backgroundColor: selected ? colors.backgroundTertiary : 'transparent',
+    });
+
+    const linkStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.primary,
+    };
+
+    return (
+        <>
+            <TouchableOpacity style={fieldStyle} onPress={() => setOpen(true)} disabled={disabled}>
+                <Ionicons name="list-outline" size={20} color={template ? colors.primary : colors.textSecondary} />
+                <View style={{ flex: 1 }}>
+                    <Text style={titleStyle}>Checklist</Text>
+                    <Text style={detailStyle} numberOfLines={1}>
+                        {template && progress
+                            ? `${template.name} · ${progress.answered}/${progress.total} answered`
+                            : 'No checklist'}
+                    </Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            {value && !template && !loading && (
+                <Text style={[detailStyle, { color: colors.error, marginTop: -8, marginBottom: 16 }]}>
+                    This checklist template is no longer available. Pick another one or remove it.
+                </Text>
+            )}
+
+            {template && progress && (
+                <View style={{ marginBottom: 16 }}>
+                    {progress.failed > 0 && (
+                        <Text style={[detailStyle, { color: colors.error, marginTop: 0, marginBottom: 12 }]}>
+                            {progress.failed} {progress.failed === 1 ? 'item' : 'items'} answered No will be
+                            added to the report as {progress.failed === 1 ? 'a hazard' : 'hazards'}
+                        </Text>
+                    )}
+
+                    {template.sections.map((section) => (
+                        <View key={section.id} style={{ marginBottom: 12 }}>
+                            <Text style={sectionTitleStyle}>{section.title}</Text>
+                            {section.items.map((item) => {
+                                const entry = answers[item.id];
+                                return (
+                                    <View key={item.id} style={itemStyle}>
+                                        <Text style={[titleStyle, { fontWeight: '400', marginBottom: 8 }]}>{item.text}</Text>
+                                        <View style={{ flexDirection: 'row', gap: 8 }}>
+                                            {checklistAnswerSchema.options.map((option) => (
+                                                <TouchableOpacity
+                                                    key={option}
+                                                    style={answerChipStyle(option, entry?.answer === option)}
+                                                    onPress={() => answer(item, option)}
+                                                    disabled={disabled}
+                                                >
+                                                    <Text style={answerChipTextStyle(entry?.answer === option)}>
+                                                        {CHECKLIST_ANSWER_LABELS[option]}
+                                                    </Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                        {entry?.answer === 'no' && (
+                                            <TextInput
+                                                value={entry.note ?? ''}
+                                                onChangeText={(note) => setNote(item, note)}
+                                                placeholder="What is wrong? (optional)"
+                                                placeholderTextColor={colors.textTertiary}
+                                                maxLength={300}
+                                                editable={!disabled}
+                                                style={noteStyle}
+                                            />
+                                        )}
+                                    </View>
+                                );
+                            })}
+                        </View>
+                    ))}
+
+                    {progress.answered < progress.total && (
+                        <TouchableOpacity onPress={markRemainingYes} disabled={disabled} style={{ paddingVertical: 8 }}>
+                            <Text style={linkStyle}>Mark remaining items Yes</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
+
+            <Modal visible={open} transparent animationType="slide" onRequestClose={() => setOpen(false)}>
+                <View style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+                    <View style={sheetStyle}>
+                        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                            <Text style={[titleStyle, { fontSize: 18, fontWeight: '700' }]}>Checklist</Text>
+                            <TouchableOpacity onPress={() => setOpen(false)} style={{ padding: 4 }}>
+                                <Ionicons name="close" size={24} color={colors.text} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView>
+                            <TouchableOpacity style={rowStyle(!value)} onPress={() => choose(null)}>
+                                <Ionicons name="remove-circle-outline" size={20} color={colors.textSecondary} />
+                                <Text style={[titleStyle, { flex: 1, color: colors.textSecondary }]}>No checklist</Text>
+                                {!value && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                            </TouchableOpacity>
+
+                            {loading && templates.length === 0 && (
+                                <ActivityIndicator color={colors.primary} style={{ marginVertical: 16 }} />
+                            )}
+
+                            {templates.map((entry) => {
+                                const selected = entry.id === value?.templateId;
+                                const count = checklistItems(entry.sections).length;
+                                return (
+                                    <TouchableOpacity key={entry.id} style={rowStyle(selected)} onPress={() => choose(entry)}>
+                                        <Ionicons name="clipboard-outline" size={20} color={colors.primary} />
+                                        <View style={{ flex: 1 }}>
+                                            <Text style={titleStyle}>{entry.name}</Text>
+                                            <Text style={detailStyle} numberOfLines={1}>
+                                                {[entry.description, `${count} ${count === 1 ? 'item' : 'items'}`]
+                                                    .filter(Boolean)
+                                                    .join(' · ')}
+                                            </Text>
+                                        </View>
+                                        {selected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                                    </TouchableOpacity>
+                                );
+                            })}
+
+                            {canManage && (
+                                <TouchableOpacity
+                                    style={[rowStyle(false), { marginTop: 8 }]}
+                                    onPress={() => {
+                                        setOpen(false);
+                                        router.push('/templates');
+                                    }}
+                                >
+                                    <Ionicons name="create-outline" size={20} color={colors.primary} />
+                                    <Text style={[linkStyle, { flex: 1 }]}>Manage Templates</Text>
+                                </TouchableOpacity>
+                            )}
+                        </ScrollView>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+}
@@ -0,0 +1,354 @@
+// src/components/ChecklistTemplateForm.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Control, Controller, useFieldArray, useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import { useTheme } from '@/contexts/ThemeContext';
+import { toApiError } from '@/api/errors';
+import { hazardCategorySchema, severitySchema } from '@/api/schemas';
+import type { ChecklistTemplateInput } from '@/api/client';
+import type { ChecklistTemplate } from '@/api/types';
+
+const itemFormSchema = z.object({
+    id: z.string(),
+    text: z.string().trim().min(1, 'Write the item').max(200, 'Items should be at most 200 characters'),
+    severity: severitySchema,
+    category: hazardCategorySchema,
+});
+
+const sectionFormSchema = z.object({
+    id: z.string(),
+    title: z.string().trim().min(1, 'Name the section').max(80, 'Titles should be at most 80 characters'),
+    items: z.array(itemFormSchema).min(1, 'Add at least one item'),
+});
+
+export const checklistTemplateFormSchema = z.object({
+    name: z.string().trim().min(1, 'Name the template').max(80, 'Names should be at most 80 characters'),
+    description: z.string().trim().max(200, 'Descriptions should be at most 200 characters'),
+    sections: z.array(sectionFormSchema).min(1, 'Add at least one section'),
+});
+
+export type ChecklistTemplateFields = z.infer<typeof checklistTemplateFormSchema>;
+
+// Items and sections keep their ids across edits; new ones only need to be unique within the template
+const createEntryId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const newItem = (): ChecklistTemplateFields['sections'][number]['items'][number] => ({
+    id: createEntryId(),
+    text: '',
+    severity: 'Medium',
+    category: 'Other',
+});
+
+const newSection = (): ChecklistTemplateFields['sections'][number] => ({
+    id: createEntryId(),
+    title: '',
+    items: [newItem()],
+});
+
+const toFields = (template: ChecklistTemplate | null): ChecklistTemplateFields => ({
+    name: template?.name ?? '',
+    description: template?.description ?? '',
+    sections: template?.sections ?? [newSection()],
+});
+
+interface ChecklistTemplateFormProps {
+    /** The template to edit; null creates a new one */
+    template: ChecklistTemplate | null;
+    onSubmit: (template: ChecklistTemplateInput) => Promise<void>;
+    onDelete?: () => Promise<void>;
+    onClose: () => void;
+}
+
+/** Creates or edits a checklist template: named sections of items, each raising a hazard when answered "No" */
+export default function ChecklistTemplateForm({ template, onSubmit, onDelete, onClose }: ChecklistTemplateFormProps) {
+    const { colors } = useTheme();
+    const [saving, setSaving] = useState(false);
+    const { control, handleSubmit, formState: { errors } } = useForm<ChecklistTemplateFields>({
+        resolver: zodResolver(checklistTemplateFormSchema),
+        defaultValues: toFields(template),
+    });
+    const sections = useFieldArray({ control, name: 'sections', keyName: 'key' });
+
+    const submit = handleSubmit(async (fields) => {
+        setSaving(true);
+        try {
+            await onSubmit({ ...fields, id: template?.id });
+            onClose();
+        } catch (e) {
+            Alert.alert('Could not save template', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    });
+
+    const confirmDelete = () => {
+        if (!onDelete) return;
+        Alert.alert(
+            'Delete template?',
+            'Inspections already started from it keep their answers.',
+            [
+                { text: 'Cancel', style: 'cancel' },
+                {
+                    text: 'Delete',
+                    style: 'destructive',
+                    onPress: async () => {
+                        setSaving(true);
+                        try {
+                            await onDelete();
+                            onClose();
+                        } catch (e) {
+                            Alert.alert('Could not delete template', toApiError(e).message);
+                        } finally {
+                            setSaving(false);
+                        }
+                    },
+                },
+            ],
+        );
+    };
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '90%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 18,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const addButtonStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'center',
+        gap: 8,
+        paddingVertical: 12,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: colors.primary,
+        marginBottom: 16,
+    };
+
+    const saveButtonStyle: ViewStyle = {
+        alignItems: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: colors.primary,
+        opacity: saving ? 0.6 : 1,
+        marginTop: 8,
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}
+            >
+                <View style={sheetStyle}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 16 }}>
+                        <Text style={titleStyle}>{template ? 'Edit Template' : 'New Template'}</Text>
+                        <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+                            <Ionicons name="close" size={24} color={colors.text} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                        <CustomInput control={control} name="name" label="Name" placeholder="e.g. Forklift pre-use" />
+                        <CustomInput
+                            control={control}
+                            name="description"
+                            label="Description"
+                            placeholder="e.g. Operator check at the start of each shift"
+                        />
+
+                        {sections.fields.map((section, index) => (
+                            <SectionFields
+                                key={section.key}
+                                control={control}
+                                index={index}
+                                onRemove={sections.fields.length > 1 ? () => sections.remove(index) : undefined}
+                            />
+                        ))}
+                        {errors.sections?.root?.message && (
+                            <Text style={{ color: colors.error, fontSize: 12, marginBottom: 8 }}>
+                                {errors.sections.root.message}
+                            </Text>
+                        )}
+
+                        <TouchableOpacity style={addButtonStyle} onPress={() => sections.append(newSection())}>
+                            <Ionicons name="add" size={18} color={colors.primary} />
+                            <Text style={{ color: colors.primary, fontSize: 15, fontWeight: '600' }}>Add Section</Text>
+                        </TouchableOpacity>
+
+                        <TouchableOpacity style={saveButtonStyle} onPress={submit} disabled={saving}>
+                            {saving
+                                ? <ActivityIndicator color="#fff" />
+                                : <Text style={{ color: '#fff', fontSize: 16, fontWeight: '700' }}>Save Template</Text>}
+                        </TouchableOpacity>
+
+                        {onDelete && (
+                            <TouchableOpacity
+                                style={{ alignItems: 'center', paddingVertical: 14 }}
+                                onPress={confirmDelete}
+                                disabled={saving}
+                            >
+                                <Text style={{ color: colors.error, fontSize: 15, fontWeight: '600' }}>Delete Template</Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+interface SectionFieldsProps {
+    control: Control<ChecklistTemplateFields>;
+    index: number;
+    onRemove?: () => void;
+}
+
+// Each section owns the field array of its items
+function SectionFields({ control, index, onRemove }: SectionFieldsProps) {
+    const { colors } = useTheme();
+    const items = useFieldArray({ control, name: `sections.${index}.items`, keyName: 'key' });
+
+    const sectionStyle: ViewStyle = {
+        padding: 12,
+        marginBottom: 16,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.backgroundSecondary,
+    };
+
+    const itemStyle: ViewStyle = {
+        paddingTop: 12,
+        marginTop: 4,
+        borderTopWidth: 1,
+        borderTopColor: colors.border,
+    };
+
+    const labelStyle: TextStyle = {
+        fontSize: 12,
+        fontWeight: '600',
+        color: colors.textSecondary,
+        marginBottom: 6,
+    };
+
+    const chipStyle = (selected: boolean): ViewStyle => ({
+        paddingHorizontal: 12,
+        paddingVertical: 6,
+        borderRadius: 14,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary : colors.surface,
+    });
+
+    const chipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 12,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const linkStyle: TextStyle = {
+        fontSize: 13,
+        fontWeight: '600',
+        color: colors.primary,
+    };
+
+    return (
+        <View style={sectionStyle}>
+            <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: 8 }}>
+                <View style={{ flex: 1 }}>
+                    <CustomInput
+                        control={control}
+                        name={`sections.${index}.title`}
+                        label={`Section ${index + 1}`}
+                        placeholder="e.g. Platforms"
+                    />
+                </View>
+                {onRemove && (
+                    <TouchableOpacity onPress={onRemove} style={{ padding: 4, marginTop: 32 }}>
+                        <Ionicons name="trash-outline" size={20} color={colors.error} />
+                    </TouchableOpacity>
+                )}
+            </View>
+
+            {items.fields.map((item, itemIndex) => (
+                <View key={item.key} style={itemStyle}>
+                    <View style={{ flexDirection: 'row', alignItems: 'flex-start', gap: 8 }}>
+                        <View style={{ flex: 1 }}>
+                            <CustomInput
+                                control={control}
+                                name={`sections.${index}.items.${itemIndex}.text`}
+                                placeholder="e.g. Guardrails are fitted on open sides"
+                                multiline
+                            />
+                        </View>
+                        {items.fields.length > 1 && (
+                            <TouchableOpacity onPress={() => items.remove(itemIndex)} style={{ padding: 4, marginTop: 12 }}>
+                                <Ionicons name="close-circle-outline" size={20} color={colors.textSecondary} />
+                            </TouchableOpacity>
+                        )}
+                    </View>
+
+                    <Text style={labelStyle}>If answered No</Text>
+                    <Controller
+                        control={control}
+                        name={`sections.${index}.items.${itemIndex}.severity`}
+                        render={({ field: { value, onChange } }) => (
+                            <View style={{ flexDirection: 'row', flexWrap: 'wrap', gap: 6, marginBottom: 8 }}>
+                                {severitySchema.options.map((option) => (
+                                    <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                        <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                    </TouchableOpacity>
+                                ))}
+                            </View>
+                        )}
+                    />
+                    <Controller
+                        control={control}
+                        name={`sections.${index}.items.${itemIndex}.category`}
+                        render={({ field: { value, onChange } }) => (
+                            <ScrollView horizontal showsHorizontalScrollIndicator={false} style={{ marginBottom: 12 }}>
+                                <View style={{ flexDirection: 'row', gap: 6 }}>
+                                    {hazardCategorySchema.options.map((option) => (
+                                        <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                            <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            </ScrollView>
+                        )}
+                    />
+                </View>
+            ))}
+
+            <TouchableOpacity onPress={() => items.append(newItem())} style={{ paddingVertical: 8 }}>
+                <Text style={linkStyle}>+ Add Item</Text>
+            </TouchableOpacity>
+        </View>
+    );
+}
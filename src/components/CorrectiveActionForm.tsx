@@ -0,0 +1,384 @@
+// src/components/CorrectiveActionForm.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Image,
+    ImageStyle,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Controller, useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import * as ImagePicker from 'expo-image-picker';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import { Colors, useTheme } from '@/contexts/ThemeContext';
+import { toApiError } from '@/api/errors';
+import { actionStatusSchema, isOpenActionStatus, severitySchema } from '@/api/schemas';
+import type { ActionStatus, CorrectiveAction, Severity } from '@/api/types';
+
+const MAX_EVIDENCE_PHOTOS = 4;
+
+export const ACTION_STATUS_LABELS: Record<ActionStatus, string> = {
+    open: 'Open',
+    in_progress: 'In progress',
+    done: 'Done',
+    verified: 'Verified',
+};
+
+/** Local calendar date as YYYY-MM-DD, the format due dates are stored in */
+export function toDateString(date: Date): string {
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+// Rejects dates like 2026-02-31 that Date would otherwise roll over into the next month
+const isCalendarDate = (value: string) => {
+    const [year, month, day] = value.split('-').map(Number);
+    const date = new Date(year, month - 1, day);
+    return date.getFullYear() === year && date.getMonth() === month - 1 && date.getDate() === day;
+};
+
+const daysFromToday = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return toDateString(date);
+};
+
+/** Still open or in progress after its due date */
+export const isOverdue = (action: Pick<CorrectiveAction, 'dueDate' | 'status'>) =>
+    isOpenActionStatus(action.status) && action.dueDate < toDateString(new Date());
+
+/** Overdue actions stand out whatever their status */
+export function actionStatusColor(action: Pick<CorrectiveAction, 'dueDate' | 'status'>, colors: Colors): string {
+    if (isOverdue(action)) return colors.error;
+    switch (action.status) {
+        case 'open': return colors.warning;
+        case 'in_progress': return colors.primary;
+        default: return colors.success;
+    }
+}
+
+const DUE_DATE_SHORTCUTS = [
+    { label: 'Today', days: 0 },
+    { label: '1 week', days: 7 },
+    { label: '2 weeks', days: 14 },
+    { label: '1 month', days: 30 },
+];
+
+export const correctiveActionFormSchema = z.object({
+    owner: z.string().trim().min(1, 'Who is responsible?').max(80, 'Owner should be at most 80 characters'),
+    dueDate: z.string()
+        .trim()
+        .regex(/^\d{4}-\d{2}-\d{2}$/, 'Use the format YYYY-MM-DD')
+        .refine(isCalendarDate, 'Not a valid date'),
+    priority: severitySchema,
+    status: actionStatusSchema,
+    evidenceUrls: z.array(z.string()),
+});
+
+export type CorrectiveActionFields = z.infer<typeof correctiveActionFormSchema>;
+
+interface CorrectiveActionFormProps {
+    /** The solution being acted on */
+    solution: string;
+    hazardDescription?: string;
+    /** Priority for a new action; usually the hazard's severity */
+    defaultPriority: Severity;
+    /** The saved action when editing one */
+    action?: CorrectiveAction | null;
+    onSubmit: (fields: CorrectiveActionFields) => Promise<void>;
+    /** Uploads an evidence photo and resolves to its URL */
+    onUploadEvidence: (asset: ImagePicker.ImagePickerAsset) => Promise<string>;
+    onClose: () => void;
+}
+
+/** Assigns a hazard's solution to an owner with a due date, and tracks it through to verification */
+export default function CorrectiveActionForm({
+                                                 solution,
+                                                 hazardDescription,
+                                                 defaultPriority,
+                                                 action,
+                                                 onSubmit,
+                                                 onUploadEvidence,
+                                                 onClose,
+                                             }: CorrectiveActionFormProps) {
+    const { colors } = useTheme();
+    const [saving, setSaving] = useState(false);
+    const [uploading, setUploading] = useState(false);
+    const { control, handleSubmit, setValue, getValues } = useForm<CorrectiveActionFields>({
+        resolver: zodResolver(correctiveActionFormSchema),
+        defaultValues: {
+            owner: action?.owner ?? '',
+            dueDate: action?.dueDate ?? daysFromToday(7),
+            priority: action?.priority ?? defaultPriority,
+            status: action?.status ?? 'open',
+            evidenceUrls: action?.evidenceUrls ?? [],
+        },
+    });
+    const evidenceUrls = useWatch({ control, name: 'evidenceUrls' });
+
+    const addEvidence = async (fromCamera: boolean) => {
+        const permission = fromCamera
+            ? await ImagePicker.requestCameraPermissionsAsync()
+            : await ImagePicker.requestMediaLibraryPermissionsAsync();
+        if (permission.status !== 'granted') {
+            Alert.alert('Permission needed', fromCamera ? 'Camera permission is required.' : 'Photo library permission is required.');
+            return;
+        }
+
+        const options: ImagePicker.ImagePickerOptions = {
+            quality: 0.9,
+            mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        };
+        const res = fromCamera
+            ? await ImagePicker.launchCameraAsync(options)
+            : await ImagePicker.launchImageLibraryAsync(options);
+        const asset = res.assets?.[0];
+        if (res.canceled || !asset) return;
+
+        setUploading(true);
+        try {
+            const url = await onUploadEvidence(asset);
+            // Read fresh; photos may have been removed while this one uploaded
+            setValue('evidenceUrls', [...getValues('evidenceUrls'), url]);
+        } catch (e) {
+            Alert.alert('Upload failed', toApiError(e).message);
+        } finally {
+            setUploading(false);
+        }
+    };
+
+    const chooseEvidenceSource = () => {
+        Alert.alert('Add evidence photo', undefined, [
+            { text: 'Take Photo', onPress: () => addEvidence(true) },
+            { text: 'Choose from Library', onPress: () => addEvidence(false) },
+            { text: 'Cancel', style: 'cancel' },
+        ]);
+    };
+
+    const removeEvidence = (url: string) => {
+        setValue('evidenceUrls', evidenceUrls.filter((entry) => entry !== url));
+    };
+
+    const submit = handleSubmit(async (fields) => {
+        setSaving(true);
+        try {
+            await onSubmit(fields);
+            onClose();
+        } catch (e) {
+            Alert.alert('Could not save action', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    });
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '90%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 18,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const solutionStyle: TextStyle = {
+        fontSize: 15,
+        color: colors.text,
+        lineHeight: 21,
+        marginTop: 12,
+    };
+
+    const hazardStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 4,
+        marginBottom: 16,
+    };
+
+    const labelStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text,
+        marginBottom: 8,
+    };
+
+    const chipRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 20,
+    };
+
+    const chipStyle = (selected: boolean): ViewStyle => ({
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary : colors.surface,
+    });
+
+    const chipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const thumbStyle: ImageStyle = {
+        width: 72,
+        height: 72,
+        borderRadius: 8,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const addPhotoStyle: ViewStyle = {
+        width: 72,
+        height: 72,
+        borderRadius: 8,
+        borderWidth: 1,
+        borderStyle: 'dashed',
+        borderColor: colors.border,
+        alignItems: 'center',
+        justifyContent: 'center',
+    };
+
+    const removePhotoStyle: ViewStyle = {
+        position: 'absolute',
+        top: -6,
+        right: -6,
+        backgroundColor: colors.surface,
+        borderRadius: 10,
+    };
+
+    const saveButtonStyle: ViewStyle = {
+        alignItems: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: colors.primary,
+        opacity: saving || uploading ? 0.6 : 1,
+        marginTop: 8,
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}
+            >
+                <View style={sheetStyle}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Text style={titleStyle}>{action ? 'Corrective Action' : 'New Corrective Action'}</Text>
+                        <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+                            <Ionicons name="close" size={24} color={colors.text} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                        <Text style={solutionStyle}>{solution}</Text>
+                        {hazardDescription ? <Text style={hazardStyle}>{hazardDescription}</Text> : <View style={{ height: 16 }} />}
+
+                        <CustomInput
+                            control={control}
+                            name="owner"
+                            label="Owner"
+                            placeholder="Name or role, e.g. Site supervisor"
+                            autoCapitalize="words"
+                        />
+
+                        <CustomInput
+                            control={control}
+                            name="dueDate"
+                            label="Due date"
+                            placeholder="YYYY-MM-DD"
+                            keyboardType="numbers-and-punctuation"
+                            maxLength={10}
+                        />
+                        <View style={[chipRowStyle, { marginTop: -4 }]}>
+                            {DUE_DATE_SHORTCUTS.map(({ label, days }) => (
+                                <TouchableOpacity
+                                    key={label}
+                                    style={chipStyle(false)}
+                                    onPress={() => setValue('dueDate', daysFromToday(days), { shouldValidate: true })}
+                                >
+                                    <Text style={chipTextStyle(false)}>{label}</Text>
+                                </TouchableOpacity>
+                            ))}
+                        </View>
+
+                        <Text style={labelStyle}>Priority</Text>
+                        <Controller
+                            control={control}
+                            name="priority"
+                            render={({ field: { value, onChange } }) => (
+                                <View style={chipRowStyle}>
+                                    {severitySchema.options.map((option) => (
+                                        <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                            <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                        />
+
+                        <Text style={labelStyle}>Status</Text>
+                        <Controller
+                            control={control}
+                            name="status"
+                            render={({ field: { value, onChange } }) => (
+                                <View style={chipRowStyle}>
+                                    {actionStatusSchema.options.map((option) => (
+                                        <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                            <Text style={chipTextStyle(value === option)}>{ACTION_STATUS_LABELS[option]}</Text>
+                                        </TouchableOpacity>
+                                    ))}
+                                </View>
+                            )}
+                        />
+
+                        <Text style={labelStyle}>Evidence photos (optional)</Text>
+                        <View style={chipRowStyle}>
+                            {evidenceUrls.map((url) => (
+                                <View key={url}>
+                                    <Image source={{ uri: url }} style={thumbStyle} resizeMode="cover" />
+                                    <TouchableOpacity style={removePhotoStyle} onPress={() => removeEvidence(url)}>
+                                        <Ionicons name="close-circle" size={20} color={colors.error} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+                            {evidenceUrls.length < MAX_EVIDENCE_PHOTOS && (
+                                <TouchableOpacity style={addPhotoStyle} onPress={chooseEvidenceSource} disabled={uploading}>
+                                    {uploading
+                                        ? <ActivityIndicator color={colors.primary} />
+                                        : <Ionicons name="camera-outline" size={24} color={colors.textSecondary} />}
+                                </TouchableOpacity>
+                            )}
+                        </View>
+
+                        <TouchableOpacity style={saveButtonStyle} onPress={submit} disabled={saving || uploading}>
+                            {saving
+                                ? <ActivityIndicator color="#fff" />
+                                : <Text style={{ color: '#fff', fontSize: 16, fontWeight: '700' }}>
+                                    {action ? 'Save Changes' : 'Create Action'}
+                                </Text>}
+                        </TouchableOpacity>
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
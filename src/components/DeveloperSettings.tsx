@@ -0,0 +1,130 @@
+// src/components/DeveloperSettings.tsx
+import React from 'react';
+import {
+    View,
+    Text,
+    TouchableOpacity,
+    ViewStyle,
+    TextStyle,
+} from 'react-native';
+import { useForm } from 'react-hook-form';
+import { z } from 'zod';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import CustomButton from '@/components/CustomButton';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useApiConfig } from '@/contexts/ApiConfigContext';
+import { API_ENVIRONMENTS, CONFIGURED_BASE_URL } from '@/api/config';
+
+const customUrlSchema = z.object({
+    url: z
+        .string({ message: 'URL is required' })
+        .url('Enter a full URL, e.g. http://192.168.1.20:3000'),
+});
+
+type CustomUrlFields = z.infer<typeof customUrlSchema>;
+
+export default function DeveloperSettings() {
+    const { colors } = useTheme();
+    const { baseUrl, override, setOverride } = useApiConfig();
+
+    const { control, handleSubmit, reset } = useForm<CustomUrlFields>({
+        resolver: zodResolver(customUrlSchema),
+        defaultValues: { url: override ?? '' },
+    });
+
+    const isCustom = !!override && !API_ENVIRONMENTS.some((env) => env.baseUrl === override);
+
+    const selectEnvironment = (url: string) => {
+        setOverride(url === CONFIGURED_BASE_URL ? null : url);
+        reset({ url: '' });
+    };
+
+    const onApplyCustom = (data: CustomUrlFields) => {
+        setOverride(data.url);
+    };
+
+    const optionsStyle: ViewStyle = {
+        backgroundColor: colors.surface,
+        borderRadius: 12,
+        overflow: 'hidden',
+        borderWidth: 1,
+        borderColor: colors.border,
+        marginBottom: 16,
+    };
+
+    const optionStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        padding: 16,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    };
+
+    const optionTitleStyle: TextStyle = {
+        fontSize: 16,
+        fontWeight: '500',
+        color: colors.text,
+    };
+
+    const optionSubtitleStyle: TextStyle = {
+        fontSize: 12,
+        marginTop: 2,
+        color: colors.textSecondary,
+    };
+
+    const activeStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginBottom: 12,
+        paddingHorizontal: 4,
+    };
+
+    return (
+        <View>
+            <Text style={activeStyle}>Requests currently go to {baseUrl}</Text>
+
+            <View style={optionsStyle}>
+                {API_ENVIRONMENTS.map((env, index) => {
+                    const selected = env.key === 'configured' ? !override : override === env.baseUrl;
+                    return (
+                        <TouchableOpacity
+                            key={env.key}
+                            style={[
+                                optionStyle,
+                                index === API_ENVIRONMENTS.length - 1 && { borderBottomWidth: 0 },
+                            ]}
+                            onPress={() => selectEnvironment(env.baseUrl)}
+                        >
+                            <View style={{ flex: 1 }}>
+                                <Text style={optionTitleStyle}>{env.label}</Text>
+                                <Text style={optionSubtitleStyle}>{env.baseUrl}</Text>
+                            </View>
+                            {selected && (
+                                <Ionicons name="checkmark-circle" size={20} color={colors.primary} />
+                            )}
+                        </TouchableOpacity>
+                    );
+                })}
+            </View>
+
+            <CustomInput
+                control={control}
+                name="url"
+                label="Custom server"
+                placeholder="http://192.168.1.20:3000"
+                autoCapitalize="none"
+                autoCorrect={false}
+                keyboardType="url"
+                helperText={isCustom ? `Using ${override}` : undefined}
+                leftIcon={<Ionicons name="server" size={20} color={colors.textTertiary} />}
+            />
+            <CustomButton
+                text="Use Custom Server"
+                variant="outline"
+                onPress={handleSubmit(onApplyCustom)}
+            />
+        </View>
+    );
+}
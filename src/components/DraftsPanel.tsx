@@ -0,0 +1,290 @@
+// src/components/DraftsPanel.tsx
+import React, { useState } from 'react';
+import {
+    Alert,
+    Image,
+    ImageStyle,
+    Modal,
+    ScrollView,
+    Text,
+    TextInput,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { CaptureDraft } from '@/storage/drafts';
+
+const MAX_NAME_LENGTH = 60;
+
+interface DraftsPanelProps {
+    drafts: CaptureDraft[];
+    /** The draft the screen is currently editing, if it has been saved */
+    activeDraftId: string | null;
+    /** True while the screen holds photos, saved or not */
+    hasPhotos: boolean;
+    onResume: (draft: CaptureDraft) => void;
+    onRename: (id: string, name: string) => void;
+    onDelete: (id: string) => void;
+    onNewCapture: () => void;
+    disabled?: boolean;
+}
+
+const formatUpdatedAt = (iso: string) =>
+    new Date(iso).toLocaleString('en-US', {
+        month: 'short',
+        day: 'numeric',
+        hour: '2-digit',
+        minute: '2-digit',
+    });
+
+const describeDraft = (draft: CaptureDraft) =>
+    [
+        `${draft.photos.length} ${draft.photos.length === 1 ? 'photo' : 'photos'}`,
+        draft.result ? 'Analyzed' : null,
+        `Saved ${formatUpdatedAt(draft.updatedAt)}`,
+    ].filter(Boolean).join(' · ');
+
+/**
+ * Offers to resume the latest saved draft, shows which draft is being edited,
+ * and lists every draft for resuming, renaming or deleting.
+ */
+export default function DraftsPanel({
+                                        drafts,
+                                        activeDraftId,
+                                        hasPhotos,
+                                        onResume,
+                                        onRename,
+                                        onDelete,
+                                        onNewCapture,
+                                        disabled,
+                                    }: DraftsPanelProps) {
+    const { colors } = useTheme();
+    const [showList, setShowList] = useState(false);
+    const [renaming, setRenaming] = useState<CaptureDraft | null>(null);
+    const [name, setName] = useState('');
+
+    const active = drafts.find((draft) => draft.id === activeDraftId) ?? null;
+    const latest = drafts.find((draft) => draft.id !== activeDraftId) ?? null;
+
+    // Nothing to resume and nothing saved yet
+    if (!active && (!latest || hasPhotos)) return null;
+
+    const startRename = (draft: CaptureDraft) => {
+        setName(draft.name);
+        setRenaming(draft);
+    };
+
+    const saveRename = () => {
+        const trimmed = name.trim();
+        if (renaming && trimmed) onRename(renaming.id, trimmed.slice(0, MAX_NAME_LENGTH));
+        setRenaming(null);
+    };
+
+    const confirmDelete = (draft: CaptureDraft) => {
+        Alert.alert(
+            'Delete draft?',
+            `"${draft.name}" and its photos will be removed from this device.`,
+            [
+                { text: 'Cancel', style: 'cancel' },
+                { text: 'Delete', style: 'destructive', onPress: () => onDelete(draft.id) },
+            ]
+        );
+    };
+
+    const resume = (draft: CaptureDraft) => {
+        setShowList(false);
+        onResume(draft);
+    };
+
+    const bannerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 16,
+        marginBottom: 20,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: active ? colors.border : colors.primary,
+        backgroundColor: active ? colors.surface : colors.backgroundSecondary,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const detailStyle: TextStyle = {
+        fontSize: 12,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const linkStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.primary,
+    };
+
+    const primaryButtonStyle: ViewStyle = {
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 10,
+        backgroundColor: colors.primary,
+        opacity: disabled ? 0.5 : 1,
+    };
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '80%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const rowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 12,
+        borderBottomWidth: 1,
+        borderBottomColor: colors.borderLight,
+    };
+
+    const thumbStyle: ImageStyle = {
+        width: 48,
+        height: 48,
+        borderRadius: 8,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const iconButtonStyle: ViewStyle = {
+        padding: 8,
+    };
+
+    const dialogStyle: ViewStyle = {
+        margin: 24,
+        padding: 20,
+        borderRadius: 20,
+        backgroundColor: colors.surface,
+    };
+
+    const inputStyle: TextStyle = {
+        borderWidth: 1,
+        borderColor: colors.border,
+        borderRadius: 12,
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+        fontSize: 16,
+        color: colors.text,
+        backgroundColor: colors.backgroundSecondary,
+        marginVertical: 16,
+    };
+
+    return (
+        <>
+            {active ? (
+                <View style={bannerStyle}>
+                    <Ionicons name="document-text-outline" size={24} color={colors.primary} />
+                    <View style={{ flex: 1 }}>
+                        <Text style={titleStyle} numberOfLines={1}>{active.name}</Text>
+                        <Text style={detailStyle}>Draft saved automatically</Text>
+                    </View>
+                    <TouchableOpacity onPress={() => startRename(active)} disabled={disabled} style={iconButtonStyle}>
+                        <Ionicons name="pencil" size={18} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={() => setShowList(true)} disabled={disabled} style={iconButtonStyle}>
+                        <Ionicons name="albums-outline" size={20} color={colors.textSecondary} />
+                    </TouchableOpacity>
+                    <TouchableOpacity onPress={onNewCapture} disabled={disabled}>
+                        <Text style={linkStyle}>New</Text>
+                    </TouchableOpacity>
+                </View>
+            ) : latest && (
+                <View style={bannerStyle}>
+                    <Image source={{ uri: latest.photos[0]?.uri }} style={thumbStyle} resizeMode="cover" />
+                    <View style={{ flex: 1 }}>
+                        <Text style={titleStyle} numberOfLines={1}>Resume draft: {latest.name}</Text>
+                        <Text style={detailStyle} numberOfLines={1}>{describeDraft(latest)}</Text>
+                        {drafts.length > 1 && (
+                            <TouchableOpacity onPress={() => setShowList(true)} disabled={disabled}>
+                                <Text style={[linkStyle, { fontSize: 13, marginTop: 4 }]}>
+                                    All drafts ({drafts.length})
+                                </Text>
+                            </TouchableOpacity>
+                        )}
+                    </View>
+                    <TouchableOpacity style={primaryButtonStyle} onPress={() => resume(latest)} disabled={disabled}>
+                        <Text style={{ color: '#fff', fontSize: 14, fontWeight: '700' }}>Resume</Text>
+                    </TouchableOpacity>
+                </View>
+            )}
+
+            <Modal visible={showList} transparent animationType="slide" onRequestClose={() => setShowList(false)}>
+                <View style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+                    <View style={sheetStyle}>
+                        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+                            <Text style={[titleStyle, { fontSize: 18 }]}>Drafts ({drafts.length})</Text>
+                            <TouchableOpacity onPress={() => setShowList(false)} style={iconButtonStyle}>
+                                <Ionicons name="close" size={24} color={colors.text} />
+                            </TouchableOpacity>
+                        </View>
+                        <ScrollView>
+                            {drafts.map((draft) => (
+                                <View key={draft.id} style={rowStyle}>
+                                    <Image source={{ uri: draft.photos[0]?.uri }} style={thumbStyle} resizeMode="cover" />
+                                    <TouchableOpacity
+                                        style={{ flex: 1 }}
+                                        onPress={() => resume(draft)}
+                                        disabled={disabled || draft.id === activeDraftId}
+                                    >
+                                        <Text style={titleStyle} numberOfLines={1}>
+                                            {draft.name}{draft.id === activeDraftId ? ' (open)' : ''}
+                                        </Text>
+                                        <Text style={detailStyle} numberOfLines={1}>{describeDraft(draft)}</Text>
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={() => startRename(draft)} style={iconButtonStyle}>
+                                        <Ionicons name="pencil" size={18} color={colors.textSecondary} />
+                                    </TouchableOpacity>
+                                    <TouchableOpacity onPress={() => confirmDelete(draft)} style={iconButtonStyle}>
+                                        <Ionicons name="trash-outline" size={18} color={colors.error} />
+                                    </TouchableOpacity>
+                                </View>
+                            ))}
+                        </ScrollView>
+                    </View>
+                </View>
+            </Modal>
+
+            <Modal visible={renaming !== null} transparent animationType="fade" onRequestClose={() => setRenaming(null)}>
+                <View style={{ flex: 1, justifyContent: 'center', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+                    <View style={dialogStyle}>
+                        <Text style={[titleStyle, { fontSize: 18 }]}>Rename draft</Text>
+                        <TextInput
+                            value={name}
+                            onChangeText={setName}
+                            placeholder="Draft name"
+                            placeholderTextColor={colors.textTertiary}
+                            maxLength={MAX_NAME_LENGTH}
+                            autoFocus
+                            selectTextOnFocus
+                            onSubmitEditing={saveRename}
+                            style={inputStyle}
+                        />
+                        <View style={{ flexDirection: 'row', justifyContent: 'flex-end', gap: 24 }}>
+                            <TouchableOpacity onPress={() => setRenaming(null)}>
+                                <Text style={[linkStyle, { color: colors.textSecondary }]}>Cancel</Text>
+                            </TouchableOpacity>
+                            <TouchableOpacity onPress={saveRename} disabled={!name.trim()}>
+                                <Text style={[linkStyle, { opacity: name.trim() ? 1 : 0.5 }]}>Save</Text>
+                            </TouchableOpacity>
+                        </View>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+}
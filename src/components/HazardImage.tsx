@@ -0,0 +1,129 @@
+// src/components/HazardImage.tsx
+import React, { useEffect, useState } from 'react';
+import { Image, LayoutChangeEvent, Text, TouchableOpacity, View, ViewStyle, TextStyle, StyleProp } from 'react-native';
+import type { Hazard, ImageRegion, Severity } from '@/api/types';
+
+type Size = { width: number; height: number };
+
+interface HazardImageProps {
+    uri: string;
+    style: StyleProp<ViewStyle>;
+    resizeMode: 'cover' | 'contain';
+    /** Hazards found on this photo; those without regions draw nothing */
+    hazards: Hazard[];
+    severityColors: Record<Severity, string>;
+    selectedHazardId?: string | null;
+    onHazardPress?: (hazard: Hazard) => void;
+}
+
+/** Where the image actually lands inside its container for the given resize mode */
+function imageFrame(container: Size, image: Size, resizeMode: 'cover' | 'contain') {
+    const fit = resizeMode === 'cover' ? Math.max : Math.min;
+    const scale = fit(container.width / image.width, container.height / image.height);
+    const width = image.width * scale;
+    const height = image.height * scale;
+    return {
+        left: (container.width - width) / 2,
+        top: (container.height - height) / 2,
+        width,
+        height,
+    };
+}
+
+/** A photo with the analysis' hazard regions drawn over it as severity-coloured boxes */
+export default function HazardImage({
+    uri,
+    style,
+    resizeMode,
+    hazards,
+    severityColors,
+    selectedHazardId,
+    onHazardPress,
+}: HazardImageProps) {
+    const [container, setContainer] = useState<Size | null>(null);
+    const [imageSize, setImageSize] = useState<Size | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        Image.getSize(
+            uri,
+            (width, height) => {
+                if (!cancelled) setImageSize({ width, height });
+            },
+            () => {
+                // Without the natural size the boxes cannot be placed, so the photo shows alone
+                if (!cancelled) setImageSize(null);
+            },
+        );
+        return () => {
+            cancelled = true;
+        };
+    }, [uri]);
+
+    const frame = container && imageSize ? imageFrame(container, imageSize, resizeMode) : null;
+    const boxes = hazards.flatMap((hazard) =>
+        (hazard.regions ?? []).map((region, index) => ({ hazard, region, key: `${hazard.id}-${index}` })),
+    );
+
+    const boxStyle = (hazard: Hazard, region: ImageRegion): ViewStyle => {
+        const selected = hazard.id === selectedHazardId;
+        const color = severityColors[hazard.severity];
+        return {
+            position: 'absolute',
+            left: frame!.left + region.x * frame!.width,
+            top: frame!.top + region.y * frame!.height,
+            width: region.width * frame!.width,
+            height: region.height * frame!.height,
+            borderWidth: selected ? 3 : 2,
+            borderColor: color,
+            borderRadius: 4,
+            backgroundColor: selected ? `${color}33` : 'transparent',
+            // Keep the selected hazard readable when boxes overlap
+            opacity: selectedHazardId && !selected ? 0.45 : 1,
+            zIndex: selected ? 1 : 0,
+        };
+    };
+
+    const tagStyle = (hazard: Hazard): ViewStyle => ({
+        position: 'absolute',
+        top: -2,
+        left: -2,
+        paddingHorizontal: 5,
+        paddingVertical: 1,
+        borderBottomRightRadius: 4,
+        backgroundColor: severityColors[hazard.severity],
+    });
+
+    const tagTextStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 10,
+        fontWeight: '700',
+    };
+
+    return (
+        <View
+            style={[{ overflow: 'hidden' }, style]}
+            onLayout={(event: LayoutChangeEvent) => setContainer(event.nativeEvent.layout)}
+        >
+            <Image
+                source={{ uri }}
+                style={{ position: 'absolute', top: 0, left: 0, right: 0, bottom: 0 }}
+                resizeMode={resizeMode}
+            />
+            {frame && boxes.map(({ hazard, region, key }) => (
+                <TouchableOpacity
+                    key={key}
+                    style={boxStyle(hazard, region)}
+                    onPress={onHazardPress ? () => onHazardPress(hazard) : undefined}
+                    disabled={!onHazardPress}
+                    activeOpacity={0.6}
+                    accessibilityLabel={`${hazard.severity} hazard: ${hazard.description}`}
+                >
+                    <View style={tagStyle(hazard)}>
+                        <Text style={tagTextStyle}>{hazard.severity}</Text>
+                    </View>
+                </TouchableOpacity>
+            ))}
+        </View>
+    );
+}
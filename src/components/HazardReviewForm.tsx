@@ -0,0 +1,290 @@
+// src/components/HazardReviewForm.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    KeyboardAvoidingView,
+    Modal,
+    Platform,
+    ScrollView,
+    Switch,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Controller, useForm, useWatch } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import { useTheme } from '@/contexts/ThemeContext';
+import { toApiError } from '@/api/errors';
+import { hazardCategorySchema, severitySchema } from '@/api/schemas';
+import type { HazardReviewChanges } from '@/api/client';
+import type { ReviewedHazard } from '@/utils/hazardReview';
+
+export const hazardReviewFormSchema = z.object({
+    category: hazardCategorySchema,
+    severity: severitySchema,
+    description: z.string().trim().min(1, 'Describe the hazard').max(300, 'Description should be at most 300 characters'),
+    location: z.string().trim().max(120, 'Location should be at most 120 characters'),
+    dismissed: z.boolean(),
+    dismissReason: z.string().trim().max(300, 'Reason should be at most 300 characters'),
+}).refine((fields) => !fields.dismissed || fields.dismissReason.length > 0, {
+    path: ['dismissReason'],
+    message: 'Say why this is not a hazard',
+});
+
+export type HazardReviewFields = z.infer<typeof hazardReviewFormSchema>;
+
+/** Only what differs from the AI's hazard; null when the inspector changed nothing */
+export function toReviewChanges(fields: HazardReviewFields, original: ReviewedHazard['original']): HazardReviewChanges | null {
+    const changes: HazardReviewChanges = {
+        severity: fields.severity !== original.severity ? fields.severity : undefined,
+        category: fields.category !== original.category ? fields.category : undefined,
+        description: fields.description !== original.description ? fields.description : undefined,
+        location: fields.location !== original.location ? fields.location : undefined,
+        dismissed: fields.dismissed || undefined,
+        dismissReason: fields.dismissed ? fields.dismissReason : undefined,
+    };
+    return Object.values(changes).some((value) => value !== undefined) ? changes : null;
+}
+
+interface HazardReviewFormProps {
+    hazard: ReviewedHazard;
+    /** Saves the corrections, or clears the review when `changes` is null */
+    onSubmit: (changes: HazardReviewChanges | null) => Promise<void>;
+    onClose: () => void;
+}
+
+/** Lets the inspector correct an AI hazard or dismiss it as a false positive */
+export default function HazardReviewForm({ hazard, onSubmit, onClose }: HazardReviewFormProps) {
+    const { colors } = useTheme();
+    const [saving, setSaving] = useState(false);
+    const { original } = hazard;
+    const { control, handleSubmit } = useForm<HazardReviewFields>({
+        resolver: zodResolver(hazardReviewFormSchema),
+        defaultValues: {
+            category: hazard.category,
+            severity: hazard.severity,
+            description: hazard.description,
+            location: hazard.location,
+            dismissed: Boolean(hazard.review?.dismissed),
+            dismissReason: hazard.review?.dismissReason ?? '',
+        },
+    });
+    const dismissed = useWatch({ control, name: 'dismissed' });
+
+    const save = async (changes: HazardReviewChanges | null) => {
+        setSaving(true);
+        try {
+            await onSubmit(changes);
+            onClose();
+        } catch (e) {
+            Alert.alert('Could not save review', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const submit = handleSubmit((fields) => save(toReviewChanges(fields, original)));
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '90%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 18,
+        fontWeight: '700',
+        color: colors.text,
+    };
+
+    const originalStyle: ViewStyle = {
+        marginTop: 12,
+        marginBottom: 16,
+        padding: 12,
+        borderRadius: 12,
+        backgroundColor: colors.backgroundTertiary,
+    };
+
+    const originalLabelStyle: TextStyle = {
+        fontSize: 11,
+        color: colors.textSecondary,
+        textTransform: 'uppercase',
+        letterSpacing: 0.5,
+        marginBottom: 4,
+    };
+
+    const originalTextStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        lineHeight: 18,
+    };
+
+    const labelStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.text,
+        marginBottom: 8,
+    };
+
+    const chipRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        flexWrap: 'wrap',
+        gap: 8,
+        marginBottom: 20,
+    };
+
+    const chipStyle = (selected: boolean): ViewStyle => ({
+        paddingHorizontal: 14,
+        paddingVertical: 8,
+        borderRadius: 16,
+        borderWidth: 1,
+        borderColor: selected ? colors.primary : colors.border,
+        backgroundColor: selected ? colors.primary : colors.surface,
+    });
+
+    const chipTextStyle = (selected: boolean): TextStyle => ({
+        fontSize: 13,
+        fontWeight: '600',
+        color: selected ? '#fff' : colors.text,
+    });
+
+    const switchRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 12,
+        marginBottom: 12,
+        borderTopWidth: 1,
+        borderTopColor: colors.borderLight,
+    };
+
+    const saveButtonStyle: ViewStyle = {
+        alignItems: 'center',
+        paddingVertical: 14,
+        borderRadius: 12,
+        backgroundColor: dismissed ? colors.error : colors.primary,
+        opacity: saving ? 0.6 : 1,
+        marginTop: 8,
+    };
+
+    return (
+        <Modal visible transparent animationType="slide" onRequestClose={onClose}>
+            <KeyboardAvoidingView
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+                style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}
+            >
+                <View style={sheetStyle}>
+                    <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center' }}>
+                        <Text style={titleStyle}>Review Hazard</Text>
+                        <TouchableOpacity onPress={onClose} style={{ padding: 4 }}>
+                            <Ionicons name="close" size={24} color={colors.text} />
+                        </TouchableOpacity>
+                    </View>
+
+                    <ScrollView keyboardShouldPersistTaps="handled" showsVerticalScrollIndicator={false}>
+                        <View style={originalStyle}>
+                            <Text style={originalLabelStyle}>AI result</Text>
+                            <Text style={originalTextStyle}>
+                                {original.severity} · {original.category} · {original.location}
+                            </Text>
+                            <Text style={originalTextStyle}>{original.description}</Text>
+                        </View>
+
+                        <View style={switchRowStyle}>
+                            <View style={{ flex: 1 }}>
+                                <Text style={labelStyle}>Not a hazard</Text>
+                                <Text style={[originalTextStyle, { marginTop: -4 }]}>
+                                    Dismiss as a false positive; it no longer counts toward the score
+                                </Text>
+                            </View>
+                            <Controller
+                                control={control}
+                                name="dismissed"
+                                render={({ field: { value, onChange } }) => (
+                                    <Switch
+                                        value={value}
+                                        onValueChange={onChange}
+                                        trackColor={{ false: colors.border, true: colors.error }}
+                                        thumbColor={colors.surface}
+                                        ios_backgroundColor={colors.border}
+                                    />
+                                )}
+                            />
+                        </View>
+
+                        {dismissed ? (
+                            <CustomInput
+                                control={control}
+                                name="dismissReason"
+                                label="Reason"
+                                placeholder="e.g. Guard is fitted, hidden by the angle of the photo"
+                                multiline
+                            />
+                        ) : (
+                            <>
+                                <Text style={labelStyle}>Severity</Text>
+                                <Controller
+                                    control={control}
+                                    name="severity"
+                                    render={({ field: { value, onChange } }) => (
+                                        <View style={chipRowStyle}>
+                                            {severitySchema.options.map((option) => (
+                                                <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                                    <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                    )}
+                                />
+
+                                <Text style={labelStyle}>Category</Text>
+                                <Controller
+                                    control={control}
+                                    name="category"
+                                    render={({ field: { value, onChange } }) => (
+                                        <View style={chipRowStyle}>
+                                            {hazardCategorySchema.options.map((option) => (
+                                                <TouchableOpacity key={option} style={chipStyle(value === option)} onPress={() => onChange(option)}>
+                                                    <Text style={chipTextStyle(value === option)}>{option}</Text>
+                                                </TouchableOpacity>
+                                            ))}
+                                        </View>
+                                    )}
+                                />
+
+                                <CustomInput control={control} name="description" label="Description" multiline />
+                                <CustomInput control={control} name="location" label="Location" />
+                            </>
+                        )}
+
+                        <TouchableOpacity style={saveButtonStyle} onPress={submit} disabled={saving}>
+                            {saving
+                                ? <ActivityIndicator color="#fff" />
+                                : <Text style={{ color: '#fff', fontSize: 16, fontWeight: '700' }}>
+                                    {dismissed ? 'Dismiss Hazard' : 'Save Review'}
+                                </Text>}
+                        </TouchableOpacity>
+
+                        {hazard.review && (
+                            <TouchableOpacity
+                                style={{ alignItems: 'center', paddingVertical: 14 }}
+                                onPress={() => save(null)}
+                                disabled={saving}
+                            >
+                                <Text style={{ color: colors.primary, fontSize: 15, fontWeight: '600' }}>Restore AI Result</Text>
+                            </TouchableOpacity>
+                        )}
+                    </ScrollView>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
@@ -0,0 +1,475 @@
+// src/components/MarkupEditor.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Image,
+    KeyboardAvoidingView,
+    LayoutChangeEvent,
+    Modal,
+    PanResponder,
+    Platform,
+    Text,
+    TextInput,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import Svg, { Line, Path, Polygon, Rect, Text as SvgText } from 'react-native-svg';
+import { captureRef } from 'react-native-view-shot';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { MarkupPoint, MarkupShape, MarkupTool } from '@/utils/markup';
+
+// Fixed colours so the flattened copy looks the same in light and dark mode
+const MARKUP_COLORS = ['#EF4444', '#F59E0B', '#10B981', '#3B82F6', '#FFFFFF'];
+const STROKE_WIDTH = 4;
+const LABEL_SIZE = 18;
+// Flattened copies are capped so they stay well under the upload limit
+const MAX_EXPORT_SIDE = 2048;
+
+const TOOLS: { tool: MarkupTool; icon: string; label: string }[] = [
+    { tool: 'pen', icon: 'brush-outline', label: 'Pen' },
+    { tool: 'arrow', icon: 'arrow-forward-outline', label: 'Arrow' },
+    { tool: 'rect', icon: 'square-outline', label: 'Box' },
+    { tool: 'text', icon: 'text-outline', label: 'Label' },
+];
+
+export interface MarkupResult {
+    shapes: MarkupShape[];
+    /** Flattened copy of the image with the markup drawn in; null when the markup was cleared */
+    annotatedUri: string | null;
+}
+
+interface MarkupEditorProps {
+    visible: boolean;
+    /** Always the unannotated original, so markup can be edited again later */
+    imageUri: string | null;
+    initialShapes?: MarkupShape[];
+    onCancel: () => void;
+    onSave: (result: MarkupResult) => void;
+}
+
+type Size = { width: number; height: number };
+
+export default function MarkupEditor({ visible, imageUri, initialShapes, onCancel, onSave }: MarkupEditorProps) {
+    const { colors } = useTheme();
+    const canvasRef = useRef<View>(null);
+    // Mirrors `draft` so the gesture handlers always see the shape being drawn
+    const draftRef = useRef<MarkupShape | null>(null);
+
+    const [imageSize, setImageSize] = useState<Size | null>(null);
+    const [areaSize, setAreaSize] = useState<Size | null>(null);
+    const [shapes, setShapes] = useState<MarkupShape[]>([]);
+    const [draft, setDraft] = useState<MarkupShape | null>(null);
+    const [tool, setTool] = useState<MarkupTool>('pen');
+    const [color, setColor] = useState(MARKUP_COLORS[0]);
+    const [labelAt, setLabelAt] = useState<MarkupPoint | null>(null);
+    const [labelText, setLabelText] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    // Opening the editor starts from the photo's saved markup; it cannot change while the editor is up
+    useEffect(() => {
+        if (!visible) return;
+        setShapes(initialShapes ?? []);
+        draftRef.current = null;
+        setDraft(null);
+        setLabelAt(null);
+        setLabelText('');
+    }, [visible, initialShapes]);
+
+    useEffect(() => {
+        if (!imageUri) return;
+        setImageSize(null);
+        Image.getSize(
+            imageUri,
+            (width, height) => setImageSize({ width, height }),
+            (error) => console.warn('Failed to read image size for markup:', error),
+        );
+    }, [imageUri]);
+
+    // The canvas matches the image's aspect ratio so shape coordinates map straight onto it
+    const canvas = useMemo<Size | null>(() => {
+        if (!imageSize || !areaSize) return null;
+        const scale = Math.min(areaSize.width / imageSize.width, areaSize.height / imageSize.height);
+        return { width: imageSize.width * scale, height: imageSize.height * scale };
+    }, [imageSize, areaSize]);
+
+    const updateDraft = (shape: MarkupShape | null) => {
+        draftRef.current = shape;
+        setDraft(shape);
+    };
+
+    const panResponder = useMemo(() => {
+        const toPoint = (x: number, y: number): MarkupPoint => ({
+            x: canvas ? Math.min(Math.max(x / canvas.width, 0), 1) : 0,
+            y: canvas ? Math.min(Math.max(y / canvas.height, 0), 1) : 0,
+        });
+
+        return PanResponder.create({
+            onStartShouldSetPanResponder: () => !saving,
+            onMoveShouldSetPanResponder: () => !saving,
+            onPanResponderGrant: (event) => {
+                const point = toPoint(event.nativeEvent.locationX, event.nativeEvent.locationY);
+                switch (tool) {
+                    case 'pen':
+                        updateDraft({ type: 'pen', color, points: [point] });
+                        break;
+                    case 'arrow':
+                    case 'rect':
+                        updateDraft({ type: tool, color, from: point, to: point });
+                        break;
+                    case 'text':
+                        setLabelAt(point);
+                        break;
+                }
+            },
+            onPanResponderMove: (event) => {
+                const point = toPoint(event.nativeEvent.locationX, event.nativeEvent.locationY);
+                const current = draftRef.current;
+                if (current?.type === 'pen') updateDraft({ ...current, points: [...current.points, point] });
+                if (current?.type === 'arrow' || current?.type === 'rect') updateDraft({ ...current, to: point });
+            },
+            onPanResponderRelease: () => {
+                const current = draftRef.current;
+                // Taps without a drag leave nothing worth keeping
+                if (current && isMeaningful(current)) setShapes((existing) => [...existing, current]);
+                updateDraft(null);
+            },
+            onPanResponderTerminate: () => updateDraft(null),
+        });
+    }, [tool, color, canvas, saving]);
+
+    const addLabel = () => {
+        const text = labelText.trim();
+        if (labelAt && text) setShapes((existing) => [...existing, { type: 'text', color, at: labelAt, text }]);
+        setLabelAt(null);
+        setLabelText('');
+    };
+
+    const handleSave = async () => {
+        if (shapes.length === 0) {
+            onSave({ shapes: [], annotatedUri: null });
+            return;
+        }
+        if (!imageSize) return;
+
+        setSaving(true);
+        try {
+            const scale = Math.min(1, MAX_EXPORT_SIDE / Math.max(imageSize.width, imageSize.height));
+            const annotatedUri = await captureRef(canvasRef, {
+                format: 'jpg',
+                quality: 0.9,
+                result: 'tmpfile',
+                width: Math.round(imageSize.width * scale),
+                height: Math.round(imageSize.height * scale),
+            });
+            onSave({ shapes, annotatedUri });
+        } catch (error) {
+            console.warn('Failed to flatten markup:', error);
+            Alert.alert('Markup not saved', 'The annotated copy could not be created. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const containerStyle: ViewStyle = {
+        flex: 1,
+        backgroundColor: '#000',
+        paddingTop: Platform.select({ ios: 54, android: 24, default: 24 }),
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    };
+
+    const headerButtonTextStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    };
+
+    const titleStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 17,
+        fontWeight: '700',
+    };
+
+    const areaStyle: ViewStyle = {
+        flex: 1,
+        justifyContent: 'center',
+        alignItems: 'center',
+    };
+
+    const toolbarStyle: ViewStyle = {
+        padding: 16,
+        paddingBottom: Platform.select({ ios: 36, android: 20, default: 20 }),
+        gap: 14,
+        backgroundColor: 'rgba(255,255,255,0.06)',
+    };
+
+    const rowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    };
+
+    const toolStyle = (active: boolean): ViewStyle => ({
+        alignItems: 'center',
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+        borderRadius: 10,
+        backgroundColor: active ? colors.primary : 'transparent',
+    });
+
+    const toolLabelStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 11,
+        marginTop: 2,
+    };
+
+    const swatchStyle = (swatch: string): ViewStyle => ({
+        width: 28,
+        height: 28,
+        borderRadius: 14,
+        backgroundColor: swatch,
+        borderWidth: 3,
+        borderColor: swatch === color ? '#fff' : 'rgba(255,255,255,0.2)',
+    });
+
+    const labelBarStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+    };
+
+    const labelInputStyle: TextStyle = {
+        flex: 1,
+        color: '#fff',
+        fontSize: 15,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        borderRadius: 10,
+        backgroundColor: 'rgba(255,255,255,0.12)',
+    };
+
+    const hintStyle: TextStyle = {
+        color: 'rgba(255,255,255,0.6)',
+        fontSize: 12,
+        textAlign: 'center',
+    };
+
+    const visibleShapes = draft ? [...shapes, draft] : shapes;
+
+    return (
+        <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+            <KeyboardAvoidingView
+                style={containerStyle}
+                behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+            >
+                <View style={headerStyle}>
+                    <TouchableOpacity onPress={onCancel} disabled={saving} hitSlop={8}>
+                        <Text style={headerButtonTextStyle}>Cancel</Text>
+                    </TouchableOpacity>
+                    <Text style={titleStyle}>Mark Up Photo</Text>
+                    <TouchableOpacity onPress={handleSave} disabled={saving || !imageSize} hitSlop={8}>
+                        {saving ? (
+                            <ActivityIndicator color="#fff" />
+                        ) : (
+                            <Text style={[headerButtonTextStyle, { color: colors.primaryLight }]}>Done</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+
+                <View
+                    style={areaStyle}
+                    onLayout={(event: LayoutChangeEvent) => setAreaSize(event.nativeEvent.layout)}
+                >
+                    {canvas && imageUri ? (
+                        <View
+                            ref={canvasRef}
+                            collapsable={false}
+                            style={{ width: canvas.width, height: canvas.height }}
+                            {...panResponder.panHandlers}
+                        >
+                            <Image
+                                source={{ uri: imageUri }}
+                                style={{ width: canvas.width, height: canvas.height }}
+                            />
+                            <Svg
+                                width={canvas.width}
+                                height={canvas.height}
+                                style={{ position: 'absolute', top: 0, left: 0 }}
+                                pointerEvents="none"
+                            >
+                                {visibleShapes.map((shape, index) => (
+                                    <ShapeView key={index} shape={shape} canvas={canvas} />
+                                ))}
+                            </Svg>
+                        </View>
+                    ) : (
+                        <ActivityIndicator color="#fff" />
+                    )}
+                </View>
+
+                <View style={toolbarStyle}>
+                    {labelAt ? (
+                        <View style={labelBarStyle}>
+                            <TextInput
+                                value={labelText}
+                                onChangeText={setLabelText}
+                                onSubmitEditing={addLabel}
+                                placeholder="Label text"
+                                placeholderTextColor="rgba(255,255,255,0.5)"
+                                style={labelInputStyle}
+                                returnKeyType="done"
+                                maxLength={40}
+                                autoFocus
+                            />
+                            <TouchableOpacity onPress={addLabel} hitSlop={8}>
+                                <Ionicons name="checkmark-circle" size={32} color={colors.primaryLight} />
+                            </TouchableOpacity>
+                        </View>
+                    ) : (
+                        <Text style={hintStyle}>
+                            {tool === 'text'
+                                ? 'Tap where the label should go'
+                                : 'Draw over the areas the analysis should focus on'}
+                        </Text>
+                    )}
+
+                    <View style={rowStyle}>
+                        {TOOLS.map((entry) => (
+                            <TouchableOpacity
+                                key={entry.tool}
+                                style={toolStyle(entry.tool === tool)}
+                                onPress={() => setTool(entry.tool)}
+                            >
+                                <Ionicons name={entry.icon as any} size={22} color="#fff" />
+                                <Text style={toolLabelStyle}>{entry.label}</Text>
+                            </TouchableOpacity>
+                        ))}
+                        <TouchableOpacity
+                            style={toolStyle(false)}
+                            onPress={() => setShapes((existing) => existing.slice(0, -1))}
+                            disabled={shapes.length === 0}
+                        >
+                            <Ionicons name="arrow-undo-outline" size={22} color={shapes.length ? '#fff' : 'rgba(255,255,255,0.3)'} />
+                            <Text style={toolLabelStyle}>Undo</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={toolStyle(false)}
+                            onPress={() => setShapes([])}
+                            disabled={shapes.length === 0}
+                        >
+                            <Ionicons name="trash-outline" size={22} color={shapes.length ? '#fff' : 'rgba(255,255,255,0.3)'} />
+                            <Text style={toolLabelStyle}>Clear</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={[rowStyle, { justifyContent: 'center', gap: 14 }]}>
+                        {MARKUP_COLORS.map((swatch) => (
+                            <TouchableOpacity key={swatch} style={swatchStyle(swatch)} onPress={() => setColor(swatch)} />
+                        ))}
+                    </View>
+                </View>
+            </KeyboardAvoidingView>
+        </Modal>
+    );
+}
+
+function ShapeView({ shape, canvas }: { shape: MarkupShape; canvas: Size }) {
+    const px = (point: MarkupPoint) => ({ x: point.x * canvas.width, y: point.y * canvas.height });
+
+    switch (shape.type) {
+        case 'pen': {
+            const d = shape.points
+                .map(px)
+                .map(({ x, y }, index) => `${index === 0 ? 'M' : 'L'}${x.toFixed(1)} ${y.toFixed(1)}`)
+                .join(' ');
+            return (
+                <Path
+                    d={d}
+                    stroke={shape.color}
+                    strokeWidth={STROKE_WIDTH}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    fill="none"
+                />
+            );
+        }
+        case 'rect': {
+            const from = px(shape.from);
+            const to = px(shape.to);
+            return (
+                <Rect
+                    x={Math.min(from.x, to.x)}
+                    y={Math.min(from.y, to.y)}
+                    width={Math.abs(to.x - from.x)}
+                    height={Math.abs(to.y - from.y)}
+                    stroke={shape.color}
+                    strokeWidth={STROKE_WIDTH}
+                    fill="none"
+                />
+            );
+        }
+        case 'arrow': {
+            const from = px(shape.from);
+            const to = px(shape.to);
+            const angle = Math.atan2(to.y - from.y, to.x - from.x);
+            const head = STROKE_WIDTH * 4;
+            const corner = (offset: number) =>
+                `${to.x - head * Math.cos(angle + offset)},${to.y - head * Math.sin(angle + offset)}`;
+            return (
+                <>
+                    <Line
+                        x1={from.x}
+                        y1={from.y}
+                        x2={to.x}
+                        y2={to.y}
+                        stroke={shape.color}
+                        strokeWidth={STROKE_WIDTH}
+                        strokeLinecap="round"
+                    />
+                    <Polygon points={`${to.x},${to.y} ${corner(0.5)} ${corner(-0.5)}`} fill={shape.color} />
+                </>
+            );
+        }
+        case 'text': {
+            const at = px(shape.at);
+            return (
+                <SvgText
+                    x={at.x}
+                    y={at.y}
+                    fill={shape.color}
+                    stroke="#000"
+                    strokeWidth={0.75}
+                    fontSize={LABEL_SIZE}
+                    fontWeight="bold"
+                    textAnchor="middle"
+                >
+                    {shape.text}
+                </SvgText>
+            );
+        }
+    }
+}
+
+// Ignores accidental taps, which would otherwise become invisible shapes and focus regions
+function isMeaningful(shape: MarkupShape) {
+    const MIN_EXTENT = 0.01;
+    switch (shape.type) {
+        case 'pen':
+            return shape.points.length > 1;
+        case 'arrow':
+        case 'rect':
+            return Math.hypot(shape.to.x - shape.from.x, shape.to.y - shape.from.y) > MIN_EXTENT;
+        case 'text':
+            return shape.text.length > 0;
+    }
+}
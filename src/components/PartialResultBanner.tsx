@@ -0,0 +1,51 @@
+// src/components/PartialResultBanner.tsx
+import React from 'react';
+import { View, Text, ViewStyle, TextStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+
+interface PartialResultBannerProps {
+    hazardCount: number;
+    issues: string[];
+}
+
+export default function PartialResultBanner({ hazardCount, issues }: PartialResultBannerProps) {
+    const { colors } = useTheme();
+
+    const containerStyle: ViewStyle = {
+        flexDirection: 'row',
+        backgroundColor: colors.warningBackground,
+        borderRadius: 12,
+        padding: 16,
+        marginBottom: 16,
+        gap: 12,
+        borderWidth: 1,
+        borderColor: colors.warning,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '700',
+        color: colors.warning,
+        marginBottom: 4,
+    };
+
+    const textStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        lineHeight: 18,
+    };
+
+    return (
+        <View style={containerStyle}>
+            <Ionicons name="warning" size={22} color={colors.warning} />
+            <View style={{ flex: 1 }}>
+                <Text style={titleStyle}>Partial Result</Text>
+                <Text style={textStyle}>
+                    Part of the analysis could not be read ({issues.length} problem{issues.length !== 1 ? 's' : ''}).
+                    Showing the {hazardCount} hazard{hazardCount !== 1 ? 's' : ''} that came through intact.
+                </Text>
+            </View>
+        </View>
+    );
+}
@@ -0,0 +1,364 @@
+// src/components/PhotoEditor.tsx
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Image,
+    LayoutChangeEvent,
+    Modal,
+    PanResponder,
+    Platform,
+    Text,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { ImageRegion } from '@/api/types';
+import {
+    applyPhotoEdits,
+    editedSize,
+    fitLongestSide,
+    FULL_CROP,
+    getImageSize,
+    hasEdits,
+    MAX_STRAIGHTEN,
+    NO_EDITS,
+    PhotoEdits,
+    Size,
+    straightenScale,
+    turnCropClockwise,
+    turnedSize,
+} from '@/utils/imageProcessing';
+
+const STRAIGHTEN_STEP = 0.5;
+// Smallest crop, as a fraction of the photo, so the handles never cross
+const MIN_CROP = 0.1;
+
+type Corner = 'topLeft' | 'topRight' | 'bottomLeft' | 'bottomRight';
+const CORNERS: Corner[] = ['topLeft', 'topRight', 'bottomLeft', 'bottomRight'];
+
+export interface EditedPhoto {
+    uri: string;
+    width: number;
+    height: number;
+}
+
+interface PhotoEditorProps {
+    visible: boolean;
+    imageUri: string | null;
+    onCancel: () => void;
+    onSave: (photo: EditedPhoto) => void;
+}
+
+/** Moves one corner of the crop by a drag, keeping it inside the photo and above the minimum size */
+function dragCorner(start: ImageRegion, corner: Corner, dx: number, dy: number): ImageRegion {
+    let left = start.x;
+    let top = start.y;
+    let right = start.x + start.width;
+    let bottom = start.y + start.height;
+
+    if (corner === 'topLeft' || corner === 'bottomLeft') left = Math.min(Math.max(left + dx, 0), right - MIN_CROP);
+    else right = Math.max(Math.min(right + dx, 1), left + MIN_CROP);
+    if (corner === 'topLeft' || corner === 'topRight') top = Math.min(Math.max(top + dy, 0), bottom - MIN_CROP);
+    else bottom = Math.max(Math.min(bottom + dy, 1), top + MIN_CROP);
+
+    return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+export default function PhotoEditor({ visible, imageUri, onCancel, onSave }: PhotoEditorProps) {
+    const { colors } = useTheme();
+    const [imageSize, setImageSize] = useState<Size | null>(null);
+    const [areaSize, setAreaSize] = useState<Size | null>(null);
+    const [edits, setEdits] = useState<PhotoEdits>(NO_EDITS);
+    const [saving, setSaving] = useState(false);
+    // Mirrors `edits` so the drag handlers always start from the current crop
+    const editsRef = useRef<PhotoEdits>(NO_EDITS);
+    // Crop at the start of a handle drag; moves are applied relative to it
+    const dragStart = useRef<ImageRegion>(FULL_CROP);
+    // Laid-out size of the preview, which drag distances are measured against
+    const previewSize = useRef<Size>({ width: 1, height: 1 });
+
+    const updateEdits = (next: PhotoEdits) => {
+        editsRef.current = next;
+        setEdits(next);
+    };
+
+    useEffect(() => {
+        if (visible) updateEdits(NO_EDITS);
+    }, [visible]);
+
+    useEffect(() => {
+        if (!imageUri) return;
+        setImageSize(null);
+        getImageSize(imageUri)
+            .then(setImageSize)
+            .catch((error) => console.warn('Failed to read image size for editing:', error));
+    }, [imageUri]);
+
+    const turned = imageSize ? turnedSize(imageSize, edits.quarterTurns) : null;
+    const scale = turned ? straightenScale(turned, edits.straighten) : 1;
+
+    // The preview shows the straightened photo with its empty corners already trimmed
+    const fit = turned && areaSize ? Math.min(areaSize.width / turned.width, areaSize.height / turned.height) : 0;
+    const canvas = turned && fit > 0 ? { width: turned.width * fit, height: turned.height * fit } : null;
+
+    // Created once so a drag survives the re-renders it causes
+    const cornerResponders = useMemo(() => Object.fromEntries(CORNERS.map((corner) => [corner, PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onPanResponderGrant: () => {
+            dragStart.current = editsRef.current.crop;
+        },
+        onPanResponderMove: (_event, gesture) => {
+            const dx = gesture.dx / previewSize.current.width;
+            const dy = gesture.dy / previewSize.current.height;
+            updateEdits({ ...editsRef.current, crop: dragCorner(dragStart.current, corner, dx, dy) });
+        },
+    })])) as Record<Corner, ReturnType<typeof PanResponder.create>>, []);
+
+    const turn = (clockwise: boolean) => {
+        // Three clockwise turns make one anticlockwise turn
+        const turns = clockwise ? 1 : 3;
+        let crop = edits.crop;
+        for (let i = 0; i < turns; i++) crop = turnCropClockwise(crop);
+        updateEdits({ ...edits, quarterTurns: (edits.quarterTurns + turns) % 4, crop });
+    };
+
+    const straighten = (delta: number) => {
+        updateEdits({
+            ...edits,
+            straighten: Math.min(Math.max(edits.straighten + delta, -MAX_STRAIGHTEN), MAX_STRAIGHTEN),
+        });
+    };
+
+    const handleSave = async () => {
+        if (!imageUri || !imageSize) return;
+        if (!hasEdits(edits)) {
+            onCancel();
+            return;
+        }
+
+        setSaving(true);
+        try {
+            const result = await applyPhotoEdits(imageUri, imageSize, edits);
+            onSave({ uri: result.uri, width: result.width, height: result.height });
+        } catch (error) {
+            console.warn('Failed to apply photo edits:', error);
+            Alert.alert('Edit failed', 'The photo could not be edited. Please try again.');
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const output = imageSize ? fitLongestSide(editedSize(imageSize, edits)) : null;
+
+    const containerStyle: ViewStyle = {
+        flex: 1,
+        backgroundColor: '#000',
+        paddingTop: Platform.select({ ios: 54, android: 24, default: 24 }),
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        paddingHorizontal: 16,
+        paddingVertical: 12,
+    };
+
+    const headerButtonTextStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 16,
+        fontWeight: '600',
+    };
+
+    const titleStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 17,
+        fontWeight: '700',
+    };
+
+    const areaStyle: ViewStyle = {
+        flex: 1,
+        margin: 20,
+        justifyContent: 'center',
+        alignItems: 'center',
+    };
+
+    const toolbarStyle: ViewStyle = {
+        padding: 16,
+        paddingBottom: Platform.select({ ios: 36, android: 20, default: 20 }),
+        gap: 14,
+        backgroundColor: 'rgba(255,255,255,0.06)',
+    };
+
+    const rowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+    };
+
+    const controlStyle: ViewStyle = {
+        alignItems: 'center',
+        paddingVertical: 6,
+        paddingHorizontal: 10,
+    };
+
+    const controlLabelStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 11,
+        marginTop: 2,
+    };
+
+    const angleStyle: TextStyle = {
+        color: '#fff',
+        fontSize: 15,
+        fontWeight: '600',
+        minWidth: 64,
+        textAlign: 'center',
+    };
+
+    const outputStyle: TextStyle = {
+        color: 'rgba(255,255,255,0.7)',
+        fontSize: 12,
+        textAlign: 'center',
+    };
+
+    const handleStyle = (corner: Corner): ViewStyle => ({
+        position: 'absolute',
+        width: 28,
+        height: 28,
+        borderColor: '#fff',
+        ...(corner.startsWith('top') ? { top: -3, borderTopWidth: 4 } : { bottom: -3, borderBottomWidth: 4 }),
+        ...(corner.endsWith('Left') ? { left: -3, borderLeftWidth: 4 } : { right: -3, borderRightWidth: 4 }),
+    });
+
+    const renderCanvas = () => {
+        if (!canvas || !imageSize || !turned || !imageUri) return <ActivityIndicator color="#fff" />;
+
+        // Display scale of the photo inside the trimmed preview
+        const k = canvas.width / (turned.width * scale);
+        const { crop } = edits;
+        const shade = 'rgba(0,0,0,0.6)';
+
+        return (
+            <View
+                style={{ width: canvas.width, height: canvas.height, overflow: 'hidden' }}
+                onLayout={(event: LayoutChangeEvent) => {
+                    previewSize.current = event.nativeEvent.layout;
+                }}
+            >
+                <Image
+                    source={{ uri: imageUri }}
+                    style={{
+                        position: 'absolute',
+                        width: imageSize.width * k,
+                        height: imageSize.height * k,
+                        left: (canvas.width - imageSize.width * k) / 2,
+                        top: (canvas.height - imageSize.height * k) / 2,
+                        transform: [
+                            { rotate: `${edits.quarterTurns * 90 + edits.straighten}deg` },
+                            { scale: 1 / scale },
+                        ],
+                    }}
+                />
+
+                {/* Shade everything outside the crop */}
+                <View pointerEvents="none" style={{ position: 'absolute', left: 0, right: 0, top: 0, height: crop.y * canvas.height, backgroundColor: shade }} />
+                <View pointerEvents="none" style={{ position: 'absolute', left: 0, right: 0, bottom: 0, height: (1 - crop.y - crop.height) * canvas.height, backgroundColor: shade }} />
+                <View pointerEvents="none" style={{ position: 'absolute', left: 0, width: crop.x * canvas.width, top: crop.y * canvas.height, height: crop.height * canvas.height, backgroundColor: shade }} />
+                <View pointerEvents="none" style={{ position: 'absolute', right: 0, width: (1 - crop.x - crop.width) * canvas.width, top: crop.y * canvas.height, height: crop.height * canvas.height, backgroundColor: shade }} />
+
+                <View
+                    style={{
+                        position: 'absolute',
+                        left: crop.x * canvas.width,
+                        top: crop.y * canvas.height,
+                        width: crop.width * canvas.width,
+                        height: crop.height * canvas.height,
+                        borderWidth: 1,
+                        borderColor: 'rgba(255,255,255,0.8)',
+                    }}
+                >
+                    {CORNERS.map((corner) => (
+                        <View
+                            key={corner}
+                            style={handleStyle(corner)}
+                            hitSlop={16}
+                            {...cornerResponders[corner].panHandlers}
+                        />
+                    ))}
+                </View>
+            </View>
+        );
+    };
+
+    return (
+        <Modal visible={visible} animationType="slide" onRequestClose={onCancel}>
+            <View style={containerStyle}>
+                <View style={headerStyle}>
+                    <TouchableOpacity onPress={onCancel} disabled={saving} hitSlop={8}>
+                        <Text style={headerButtonTextStyle}>Cancel</Text>
+                    </TouchableOpacity>
+                    <Text style={titleStyle}>Crop & Rotate</Text>
+                    <TouchableOpacity onPress={handleSave} disabled={saving || !imageSize} hitSlop={8}>
+                        {saving ? (
+                            <ActivityIndicator color="#fff" />
+                        ) : (
+                            <Text style={[headerButtonTextStyle, { color: colors.primaryLight }]}>Done</Text>
+                        )}
+                    </TouchableOpacity>
+                </View>
+
+                <View
+                    style={areaStyle}
+                    onLayout={(event: LayoutChangeEvent) => setAreaSize(event.nativeEvent.layout)}
+                >
+                    {renderCanvas()}
+                </View>
+
+                <View style={toolbarStyle}>
+                    <View style={rowStyle}>
+                        <TouchableOpacity style={controlStyle} onPress={() => straighten(-STRAIGHTEN_STEP)}>
+                            <Ionicons name="remove-circle-outline" size={26} color="#fff" />
+                        </TouchableOpacity>
+                        <View style={{ alignItems: 'center' }}>
+                            <Text style={angleStyle}>{edits.straighten.toFixed(1)}°</Text>
+                            <Text style={controlLabelStyle}>Straighten</Text>
+                        </View>
+                        <TouchableOpacity style={controlStyle} onPress={() => straighten(STRAIGHTEN_STEP)}>
+                            <Ionicons name="add-circle-outline" size={26} color="#fff" />
+                        </TouchableOpacity>
+                    </View>
+
+                    <View style={rowStyle}>
+                        <TouchableOpacity style={controlStyle} onPress={() => turn(false)}>
+                            <Ionicons name="arrow-undo-outline" size={22} color="#fff" />
+                            <Text style={controlLabelStyle}>Rotate Left</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity style={controlStyle} onPress={() => turn(true)}>
+                            <Ionicons name="arrow-redo-outline" size={22} color="#fff" />
+                            <Text style={controlLabelStyle}>Rotate Right</Text>
+                        </TouchableOpacity>
+                        <TouchableOpacity
+                            style={controlStyle}
+                            onPress={() => updateEdits(NO_EDITS)}
+                            disabled={!hasEdits(edits)}
+                        >
+                            <Ionicons name="refresh-outline" size={22} color={hasEdits(edits) ? '#fff' : 'rgba(255,255,255,0.3)'} />
+                            <Text style={controlLabelStyle}>Reset</Text>
+                        </TouchableOpacity>
+                    </View>
+
+                    {output && (
+                        <Text style={outputStyle}>
+                            Uploads at up to {output.width} × {output.height} px
+                        </Text>
+                    )}
+                </View>
+            </View>
+        </Modal>
+    );
+}
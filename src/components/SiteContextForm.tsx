@@ -0,0 +1,171 @@
+// src/components/SiteContextForm.tsx
+import React, { useState } from 'react';
+import { Text, TextStyle, TouchableOpacity, View, ViewStyle } from 'react-native';
+import { Control, useFormState, useWatch } from 'react-hook-form';
+import { z } from 'zod';
+import { Ionicons } from '@expo/vector-icons';
+import CustomInput from '@/components/CustomInput';
+import { useTheme } from '@/contexts/ThemeContext';
+import type { SiteContext } from '@/api/types';
+
+const field = (label: string, max: number) =>
+    z.string().trim().max(max, `${label} should be at most ${max} characters`);
+
+export const siteContextFormSchema = z.object({
+    site: field('Site or project', 120),
+    activity: field('Work activity', 120),
+    industry: field('Industry', 80),
+    regulations: field('Regulations', 200),
+    notes: field('Notes', 1000),
+});
+
+export type SiteContextFields = z.infer<typeof siteContextFormSchema>;
+
+export const EMPTY_SITE_CONTEXT: SiteContextFields = {
+    site: '',
+    activity: '',
+    industry: '',
+    regulations: '',
+    notes: '',
+};
+
+/** Drops blank fields; null when nothing was filled in */
+export function toSiteContext(fields: SiteContextFields): SiteContext | null {
+    const entries = Object.entries(fields)
+        .map(([key, value]) => [key, value.trim()] as const)
+        .filter(([, value]) => value.length > 0);
+    return entries.length > 0 ? Object.fromEntries(entries) : null;
+}
+
+export const toSiteContextFields = (context: SiteContext | null | undefined): SiteContextFields => ({
+    site: context?.site ?? '',
+    activity: context?.activity ?? '',
+    industry: context?.industry ?? '',
+    regulations: context?.regulations ?? '',
+    notes: context?.notes ?? '',
+});
+
+interface SiteContextFormProps {
+    control: Control<SiteContextFields>;
+    onClear: () => void;
+    disabled?: boolean;
+}
+
+/** Optional details about the site, sent with the photos so the analysis knows what it is looking at */
+export default function SiteContextForm({ control, onClear, disabled }: SiteContextFormProps) {
+    const { colors } = useTheme();
+    const [open, setOpen] = useState(false);
+    const values = useWatch({ control });
+    const { errors } = useFormState({ control });
+    // Invalid fields stay visible so their messages can be read
+    const expanded = open || Object.keys(errors).length > 0;
+    const summary = [values.site, values.activity, values.industry]
+        .map((value) => value?.trim())
+        .filter(Boolean)
+        .join(' · ');
+    const filled = Boolean(toSiteContext({ ...EMPTY_SITE_CONTEXT, ...values }));
+
+    const containerStyle: ViewStyle = {
+        marginBottom: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.backgroundSecondary,
+        overflow: 'hidden',
+    };
+
+    const headerStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '600',
+        color: colors.text,
+    };
+
+    const summaryStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const bodyStyle: ViewStyle = {
+        paddingHorizontal: 14,
+        paddingBottom: 8,
+    };
+
+    const clearStyle: TextStyle = {
+        fontSize: 14,
+        fontWeight: '600',
+        color: colors.primary,
+        textAlign: 'right',
+        paddingVertical: 8,
+    };
+
+    return (
+        <View style={containerStyle}>
+            <TouchableOpacity
+                style={headerStyle}
+                onPress={() => setOpen(!expanded)}
+                accessibilityRole="button"
+                accessibilityState={{ expanded }}
+            >
+                <Ionicons name="business-outline" size={20} color={filled ? colors.primary : colors.textSecondary} />
+                <View style={{ flex: 1 }}>
+                    <Text style={titleStyle}>Site Context</Text>
+                    <Text style={summaryStyle} numberOfLines={1}>
+                        {summary || (filled ? 'Details added' : 'Optional: tell the analysis where and what')}
+                    </Text>
+                </View>
+                <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            {expanded && (
+                <View style={bodyStyle} pointerEvents={disabled ? 'none' : 'auto'}>
+                    <CustomInput
+                        control={control}
+                        name="site"
+                        label="Site or project"
+                        placeholder="e.g. North Refinery, Unit 4"
+                    />
+                    <CustomInput
+                        control={control}
+                        name="activity"
+                        label="Work activity"
+                        placeholder="e.g. Hot work, scaffolding erection"
+                    />
+                    <CustomInput
+                        control={control}
+                        name="industry"
+                        label="Industry"
+                        placeholder="e.g. Oil & gas, warehousing, roofing"
+                    />
+                    <CustomInput
+                        control={control}
+                        name="regulations"
+                        label="Applicable regulations"
+                        placeholder="e.g. OSHA 1926 Subpart M"
+                        helperText="Standards the findings should be checked against"
+                    />
+                    <CustomInput
+                        control={control}
+                        name="notes"
+                        label="Notes"
+                        placeholder="Anything else the analysis should know"
+                        multiline
+                        style={{ minHeight: 72, textAlignVertical: 'top' }}
+                    />
+                    {filled && (
+                        <TouchableOpacity onPress={onClear} disabled={disabled}>
+                            <Text style={clearStyle}>Clear</Text>
+                        </TouchableOpacity>
+                    )}
+                </View>
+            )}
+        </View>
+    );
+}
@@ -0,0 +1,299 @@
+// src/components/SitePicker.tsx
+import React, { useState } from 'react';
+import {
+    ActivityIndicator,
+    Alert,
+    Modal,
+    ScrollView,
+    Text,
+    TextInput,
+    TextStyle,
+    TouchableOpacity,
+    View,
+    ViewStyle,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '@/contexts/ThemeContext';
+import { toApiError } from '@/api/errors';
+import type { Area, Site } from '@/api/types';
+
+export interface SiteSelection {
+    siteId: string | null;
+    areaId: string | null;
+}
+
+export const NO_SITE: SiteSelection = { siteId: null, areaId: null };
+
+interface SitePickerProps {
+    sites: Site[];
+    loading?: boolean;
+    value: SiteSelection;
+    onChange: (value: SiteSelection) => void;
+    onCreateSite: (name: string) => Promise<Site>;
+    onCreateArea: (siteId: string, name: string) => Promise<Area>;
+    disabled?: boolean;
+}
+
+/** "Site › Area" for a selection, or null when no site is picked */
+export function describeSelection(sites: Site[], { siteId, areaId }: SiteSelection): string | null {
+    const site = sites.find((entry) => entry.id === siteId);
+    if (!site) return null;
+    const area = site.areas.find((entry) => entry.id === areaId);
+    return area ? `${site.name} › ${area.name}` : site.name;
+}
+
+/** Chooses the site and area an inspection is filed under, creating them on the spot if needed */
+export default function SitePicker({
+                                       sites,
+                                       loading,
+                                       value,
+                                       onChange,
+                                       onCreateSite,
+                                       onCreateArea,
+                                       disabled,
+                                   }: SitePickerProps) {
+    const { colors } = useTheme();
+    const [open, setOpen] = useState(false);
+    const [expandedSiteId, setExpandedSiteId] = useState<string | null>(null);
+    const [newSiteName, setNewSiteName] = useState('');
+    const [newAreaName, setNewAreaName] = useState('');
+    const [saving, setSaving] = useState(false);
+
+    const label = describeSelection(sites, value);
+
+    const openPicker = () => {
+        setExpandedSiteId(value.siteId);
+        setOpen(true);
+    };
+
+    const choose = (selection: SiteSelection) => {
+        onChange(selection);
+        setOpen(false);
+    };
+
+    const addSite = async () => {
+        const name = newSiteName.trim();
+        if (!name) return;
+        setSaving(true);
+        try {
+            const site = await onCreateSite(name);
+            setNewSiteName('');
+            setExpandedSiteId(site.id);
+            onChange({ siteId: site.id, areaId: null });
+        } catch (e) {
+            Alert.alert('Could not add site', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const addArea = async (siteId: string) => {
+        const name = newAreaName.trim();
+        if (!name) return;
+        setSaving(true);
+        try {
+            const area = await onCreateArea(siteId, name);
+            setNewAreaName('');
+            choose({ siteId, areaId: area.id });
+        } catch (e) {
+            Alert.alert('Could not add area', toApiError(e).message);
+        } finally {
+            setSaving(false);
+        }
+    };
+
+    const fieldStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        padding: 14,
+        marginBottom: 16,
+        borderRadius: 12,
+        borderWidth: 1,
+        borderColor: colors.border,
+        backgroundColor: colors.backgroundSecondary,
+        opacity: disabled ? 0.6 : 1,
+    };
+
+    const titleStyle: TextStyle = {
+        fontSize: 15,
+        fontWeight: '600',
+        color: colors.text,
+    };
+
+    const detailStyle: TextStyle = {
+        fontSize: 13,
+        color: colors.textSecondary,
+        marginTop: 2,
+    };
+
+    const sheetStyle: ViewStyle = {
+        maxHeight: '85%',
+        backgroundColor: colors.surface,
+        borderTopLeftRadius: 24,
+        borderTopRightRadius: 24,
+        padding: 20,
+    };
+
+    const rowStyle = (selected: boolean): ViewStyle => ({
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 12,
+        paddingVertical: 12,
+        paddingHorizontal: 12,
+        borderRadius: 10,
+        backgroundColor: selected ? colors.backgroundTertiary : 'transparent',
+    });
+
+    const inputRowStyle: ViewStyle = {
+        flexDirection: 'row',
+        alignItems: 'center',
+        gap: 8,
+        marginTop: 8,
+    };
+
+    const inputStyle: TextStyle = {
+        flex: 1,
+        borderWidth: 1,
+        borderColor: colors.border,
+        borderRadius: 10,
+        paddingHorizontal: 12,
+        paddingVertical: 10,
+        fontSize: 15,
+        color: colors.text,
+        backgroundColor: colors.backgroundSecondary,
+    };
+
+    const addButtonStyle = (enabled: boolean): ViewStyle => ({
+        paddingHorizontal: 14,
+        paddingVertical: 10,
+        borderRadius: 10,
+        backgroundColor: colors.primary,
+        opacity: enabled ? 1 : 0.5,
+    });
+
+    return (
+        <>
+            <TouchableOpacity style={fieldStyle} onPress={openPicker} disabled={disabled}>
+                <Ionicons name="location-outline" size={20} color={label ? colors.primary : colors.textSecondary} />
+                <View style={{ flex: 1 }}>
+                    <Text style={titleStyle}>Site & Area</Text>
+                    <Text style={detailStyle} numberOfLines={1}>{label ?? 'Not filed under a site'}</Text>
+                </View>
+                <Ionicons name="chevron-forward" size={20} color={colors.textSecondary} />
+            </TouchableOpacity>
+
+            <Modal visible={open} transparent animationType="slide" onRequestClose={() => setOpen(false)}>
+                <View style={{ flex: 1, justifyContent: 'flex-end', backgroundColor: 'rgba(0,0,0,0.5)' }}>
+                    <View style={sheetStyle}>
+                        <View style={{ flexDirection: 'row', justifyContent: 'space-between', alignItems: 'center', marginBottom: 8 }}>
+                            <Text style={[titleStyle, { fontSize: 18, fontWeight: '700' }]}>Site & Area</Text>
+                            <TouchableOpacity onPress={() => setOpen(false)} style={{ padding: 4 }}>
+                                <Ionicons name="close" size={24} color={colors.text} />
+                            </TouchableOpacity>
+                        </View>
+
+                        <ScrollView keyboardShouldPersistTaps="handled">
+                            <TouchableOpacity style={rowStyle(!value.siteId)} onPress={() => choose(NO_SITE)}>
+                                <Ionicons name="remove-circle-outline" size={20} color={colors.textSecondary} />
+                                <Text style={[titleStyle, { flex: 1, color: colors.textSecondary }]}>No site</Text>
+                                {!value.siteId && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                            </TouchableOpacity>
+
+                            {loading && sites.length === 0 && (
+                                <ActivityIndicator color={colors.primary} style={{ marginVertical: 16 }} />
+                            )}
+
+                            {sites.map((site) => {
+                                const expanded = expandedSiteId === site.id;
+                                const siteSelected = value.siteId === site.id;
+                                return (
+                                    <View key={site.id}>
+                                        <TouchableOpacity
+                                            style={rowStyle(siteSelected && !value.areaId)}
+                                            onPress={() => {
+                                                setExpandedSiteId(expanded ? null : site.id);
+                                                setNewAreaName('');
+                                            }}
+                                        >
+                                            <Ionicons name="business-outline" size={20} color={colors.primary} />
+                                            <View style={{ flex: 1 }}>
+                                                <Text style={titleStyle}>{site.name}</Text>
+                                                <Text style={detailStyle}>
+                                                    {site.areas.length} {site.areas.length === 1 ? 'area' : 'areas'}
+                                                </Text>
+                                            </View>
+                                            <Ionicons name={expanded ? 'chevron-up' : 'chevron-down'} size={18} color={colors.textSecondary} />
+                                        </TouchableOpacity>
+
+                                        {expanded && (
+                                            <View style={{ paddingLeft: 32, paddingBottom: 8 }}>
+                                                <TouchableOpacity
+                                                    style={rowStyle(siteSelected && !value.areaId)}
+                                                    onPress={() => choose({ siteId: site.id, areaId: null })}
+                                                >
+                                                    <Text style={[titleStyle, { flex: 1, fontWeight: '400' }]}>Whole site</Text>
+                                                    {siteSelected && !value.areaId && (
+                                                        <Ionicons name="checkmark" size={20} color={colors.primary} />
+                                                    )}
+                                                </TouchableOpacity>
+                                                {site.areas.map((area) => {
+                                                    const selected = siteSelected && value.areaId === area.id;
+                                                    return (
+                                                        <TouchableOpacity
+                                                            key={area.id}
+                                                            style={rowStyle(selected)}
+                                                            onPress={() => choose({ siteId: site.id, areaId: area.id })}
+                                                        >
+                                                            <Text style={[titleStyle, { flex: 1, fontWeight: '400' }]}>{area.name}</Text>
+                                                            {selected && <Ionicons name="checkmark" size={20} color={colors.primary} />}
+                                                        </TouchableOpacity>
+                                                    );
+                                                })}
+                                                <View style={inputRowStyle}>
+                                                    <TextInput
+                                                        value={newAreaName}
+                                                        onChangeText={setNewAreaName}
+                                                        placeholder="New area, e.g. Loading bay"
+                                                        placeholderTextColor={colors.textTertiary}
+                                                        onSubmitEditing={() => addArea(site.id)}
+                                                        style={inputStyle}
+                                                    />
+                                                    <TouchableOpacity
+                                                        style={addButtonStyle(Boolean(newAreaName.trim()) && !saving)}
+                                                        onPress={() => addArea(site.id)}
+                                                        disabled={!newAreaName.trim() || saving}
+                                                    >
+                                                        <Text style={{ color: '#fff', fontWeight: '700' }}>Add</Text>
+                                                    </TouchableOpacity>
+                                                </View>
+                                            </View>
+                                        )}
+                                    </View>
+                                );
+                            })}
+
+                            <View style={[inputRowStyle, { marginTop: 16, marginBottom: 8 }]}>
+                                <TextInput
+                                    value={newSiteName}
+                                    onChangeText={setNewSiteName}
+                                    placeholder="New site or project"
+                                    placeholderTextColor={colors.textTertiary}
+                                    onSubmitEditing={addSite}
+                                    style={inputStyle}
+                                />
+                                <TouchableOpacity
+                                    style={addButtonStyle(Boolean(newSiteName.trim()) && !saving)}
+                                    onPress={addSite}
+                                    disabled={!newSiteName.trim() || saving}
+                                >
+                                    <Text style={{ color: '#fff', fontWeight: '700' }}>Add Site</Text>
+                                </TouchableOpacity>
+                            </View>
+                        </ScrollView>
+                    </View>
+                </View>
+            </Modal>
+        </>
+    );
+}
@@ -0,0 +1,74 @@
+// src/contexts/ApiConfigContext.tsx
+import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CONFIGURED_BASE_URL, DEV_SETTINGS_ENABLED, normalizeBaseUrl } from '@/api/config';
+
+export interface ApiConfigContextType {
+    baseUrl: string;
+    override: string | null;
+    devSettingsEnabled: boolean;
+    setOverride: (url: string | null) => void;
+}
+
+const ApiConfigContext = createContext<ApiConfigContextType | undefined>(undefined);
+
+interface ApiConfigProviderProps {
+    children: ReactNode;
+}
+
+const API_BASE_URL_STORAGE_KEY = '@api_base_url_override';
+
+export const ApiConfigProvider: React.FC<ApiConfigProviderProps> = ({ children }) => {
+    const [override, setOverrideState] = useState<string | null>(null);
+
+    // Load the developer override from storage
+    useEffect(() => {
+        if (!DEV_SETTINGS_ENABLED) return;
+
+        const loadOverride = async () => {
+            try {
+                const saved = await AsyncStorage.getItem(API_BASE_URL_STORAGE_KEY);
+                if (saved) setOverrideState(saved);
+            } catch (error) {
+                console.warn('Failed to load API base URL override:', error);
+            }
+        };
+
+        loadOverride();
+    }, []);
+
+    const setOverride = async (url: string | null) => {
+        const next = url ? normalizeBaseUrl(url) : null;
+        try {
+            setOverrideState(next);
+            if (next) {
+                await AsyncStorage.setItem(API_BASE_URL_STORAGE_KEY, next);
+            } else {
+                await AsyncStorage.removeItem(API_BASE_URL_STORAGE_KEY);
+            }
+        } catch (error) {
+            console.warn('Failed to save API base URL override:', error);
+        }
+    };
+
+    const value: ApiConfigContextType = {
+        baseUrl: (DEV_SETTINGS_ENABLED && override) || CONFIGURED_BASE_URL,
+        override,
+        devSettingsEnabled: DEV_SETTINGS_ENABLED,
+        setOverride,
+    };
+
+    return (
+        <ApiConfigContext.Provider value={value}>
+            {children}
+        </ApiConfigContext.Provider>
+    );
+};
+
+export const useApiConfig = (): ApiConfigContextType => {
+    const context = useContext(ApiConfigContext);
+    if (!context) {
+        throw new Error('useApiConfig must be used within an ApiConfigProvider');
+    }
+    return context;
+};
@@ -0,0 +1,211 @@
+// src/contexts/CaptureQueueContext.tsx
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import { useAuth } from '@clerk/clerk-expo';
+import { useNetworkState } from 'expo-network';
+import { useApiClient } from '@/hooks/useApiClient';
+import { useAbortController } from '@/hooks/useAbortController';
+import { retryDelay, wait } from '@/api/client';
+import { NetworkError, toApiError } from '@/api/errors';
+import {
+    QueuedCapture,
+    NewCapture,
+    loadQueue,
+    saveQueue,
+    persistCapture,
+    deleteCaptureFiles,
+} from '@/storage/captureQueue';
+
+export interface CaptureQueueContextType {
+    items: QueuedCapture[];
+    isOnline: boolean;
+    enqueue: (capture: NewCapture) => QueuedCapture;
+    retry: (id: string) => void;
+    discard: (id: string) => void;
+}
+
+// An unreachable server is retried with growing pauses, up to this many attempts per capture
+const MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 5000;
+
+const CaptureQueueContext = createContext<CaptureQueueContextType | undefined>(undefined);
+
+interface CaptureQueueProviderProps {
+    children: ReactNode;
+}
+
+export const CaptureQueueProvider: React.FC<CaptureQueueProviderProps> = ({ children }) => {
+    const { userId } = useAuth();
+    const api = useApiClient();
+    const network = useNetworkState();
+    const [items, setItems] = useState<QueuedCapture[]>([]);
+    const itemsRef = useRef<QueuedCapture[]>([]);
+    const processingRef = useRef(false);
+    const backoff = useAbortController();
+
+    // Unknown reachability (undefined) counts as online; the upload itself is the real test
+    const isOnline = network.isConnected !== false && network.isInternetReachable !== false;
+    const isOnlineRef = useRef(isOnline);
+    const [queueLoaded, setQueueLoaded] = useState(false);
+
+    const commit = useCallback((next: QueuedCapture[]) => {
+        itemsRef.current = next;
+        setItems(next);
+        if (userId) saveQueue(userId, next);
+    }, [userId]);
+
+    const update = useCallback((id: string, patch: Partial<QueuedCapture>) => {
+        commit(itemsRef.current.map((item) => (item.id === id ? { ...item, ...patch } : item)));
+    }, [commit]);
+
+    // Load the persisted queue for the signed-in user
+    useEffect(() => {
+        if (!userId) return;
+        let cancelled = false;
+
+        loadQueue(userId).then((loaded) => {
+            if (cancelled) return;
+            itemsRef.current = loaded;
+            setItems(loaded);
+            setQueueLoaded(true);
+        });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [userId]);
+
+    /** Returns false when the server could not be reached and the item is waiting for another attempt */
+    const processItem = useCallback(async (item: QueuedCapture): Promise<boolean> => {
+        const attempts = item.attempts + 1;
+        update(item.id, { status: 'uploading', attempts, error: undefined });
+
+        try {
+            // Each upload is saved on the item as it finishes, so a retry skips the photos already uploaded
+            const photos = [...item.photos];
+            for (const [index, photo] of photos.entries()) {
+                if (!photo.uploadedUrl) {
+                    const { url } = await api.uploadImage(photo.fileUri, photo.mimeType);
+                    photos[index] = { ...photos[index], uploadedUrl: url };
+                    update(item.id, { photos: [...photos] });
+                }
+                if (photo.annotatedFileUri && !photo.annotatedUploadedUrl) {
+                    const annotated = await api.uploadImage(photo.annotatedFileUri, 'image/jpeg');
+                    photos[index] = { ...photos[index], annotatedUploadedUrl: annotated.url };
+                    update(item.id, { photos: [...photos] });
+                }
+            }
+
+            // The marked-up copy is what gets analyzed; the original is kept alongside it
+            const imageUrls = photos.map((photo) => photo.annotatedUploadedUrl ?? photo.uploadedUrl!);
+            const originalImageUrls = photos.map((photo) => (photo.annotatedUploadedUrl ? photo.uploadedUrl! : null));
+
+            update(item.id, { status: 'analyzing' });
+            const json = await api.analyze({
+                imageUrls,
+                originalImageUrls,
+                photoMetadata: item.photos.map((photo) => photo.metadata ?? null),
+                focusRegions: item.photos.map((photo) => photo.focusRegions ?? []),
+                capturedAt: item.capturedAt,
+                siteContext: item.siteContext,
+                siteId: item.siteId,
+                areaId: item.areaId,
+                checklist: item.checklist,
+            });
+
+            deleteCaptureFiles(item);
+            update(item.id, { status: 'done', inspectionId: json.inspection.id });
+            return true;
+        } catch (e) {
+            const error = toApiError(e);
+            // Dropping offline is not the server's fault, so it does not use up an attempt
+            if (error instanceof NetworkError && !isOnlineRef.current) {
+                update(item.id, { status: 'queued', attempts: item.attempts });
+                return false;
+            }
+            // The request never reached the server, so try again later unless it keeps failing
+            if (error instanceof NetworkError && attempts < MAX_ATTEMPTS) {
+                update(item.id, { status: 'queued' });
+                return false;
+            }
+            update(item.id, { status: 'failed', error: error.message });
+            return true;
+        }
+    }, [api, update]);
+
+    const processQueue = useCallback(async () => {
+        if (processingRef.current) return;
+        processingRef.current = true;
+
+        const signal = backoff.renew();
+        try {
+            let next = itemsRef.current.find((item) => item.status === 'queued');
+            while (next && isOnlineRef.current) {
+                const reachedServer = await processItem(next);
+                if (!reachedServer) {
+                    const attempts = itemsRef.current.find((item) => item.id === next?.id)?.attempts ?? 1;
+                    await wait(retryDelay(attempts - 1, RETRY_BASE_DELAY_MS), signal);
+                }
+                next = itemsRef.current.find((item) => item.status === 'queued');
+            }
+        } catch {
+            // Going offline or unmounting cuts the pause short; reconnecting starts the queue again
+        } finally {
+            processingRef.current = false;
+        }
+    }, [processItem, backoff]);
+
+    // Drain what was left from the last session once it is loaded
+    useEffect(() => {
+        if (queueLoaded) processQueue();
+    }, [queueLoaded, processQueue]);
+
+    // Going offline cuts any retry pause short; coming back online starts the queue again
+    useEffect(() => {
+        const cameOnline = isOnline && !isOnlineRef.current;
+        isOnlineRef.current = isOnline;
+        if (!isOnline) backoff.abort();
+        else if (cameOnline) processQueue();
+    }, [isOnline, processQueue, backoff]);
+
+    const enqueue = useCallback((capture: NewCapture) => {
+        const item = persistCapture(capture);
+        commit([...itemsRef.current, item]);
+        if (isOnlineRef.current) processQueue();
+        return item;
+    }, [commit, processQueue]);
+
+    // A manual retry gets a fresh set of attempts
+    const retry = useCallback((id: string) => {
+        update(id, { status: 'queued', attempts: 0, error: undefined });
+        if (isOnlineRef.current) processQueue();
+    }, [update, processQueue]);
+
+    const discard = useCallback((id: string) => {
+        const item = itemsRef.current.find((entry) => entry.id === id);
+        if (!item || item.status === 'uploading' || item.status === 'analyzing') return;
+        deleteCaptureFiles(item);
+        commit(itemsRef.current.filter((entry) => entry.id !== id));
+    }, [commit]);
+
+    const value: CaptureQueueContextType = {
+        items,
+        isOnline,
+        enqueue,
+        retry,
+        discard,
+    };
+
+    return (
+        <CaptureQueueContext.Provider value={value}>
+            {children}
+        </CaptureQueueContext.Provider>
+    );
+};
+
+export const useCaptureQueue = (): CaptureQueueContextType => {
+    const context = useContext(CaptureQueueContext);
+    if (!context) {
+        throw new Error('useCaptureQueue must be used within a CaptureQueueProvider');
+    }
+    return context;
+};
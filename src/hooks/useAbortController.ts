@@ -0,0 +1,27 @@
+// src/hooks/useAbortController.ts
+import { useCallback, useEffect, useMemo, useRef } from "react";
+
+/**
+ * Hands out one AbortSignal at a time. Starting a new request aborts the
+ * previous one, and whatever is still in flight is aborted on unmount.
+ */
+export function useAbortController() {
+    const controllerRef = useRef<AbortController | null>(null);
+
+    const abort = useCallback(() => {
+        controllerRef.current?.abort();
+        controllerRef.current = null;
+    }, []);
+
+    const renew = useCallback(() => {
+        controllerRef.current?.abort();
+        const controller = new AbortController();
+        controllerRef.current = controller;
+        return controller.signal;
+    }, []);
+
+    useEffect(() => abort, [abort]);
+
+    // Stable across renders so callers can list it as a dependency
+    return useMemo(() => ({ renew, abort }), [renew, abort]);
+}
@@ -0,0 +1,42 @@
+// src/hooks/useApiClient.ts
+import { useCallback, useMemo } from "react";
+import { useSession } from "@clerk/clerk-expo";
+import { router } from "expo-router";
+import { createApiClient, ApiClient } from "@/api/client";
+import { useApiConfig } from "@/contexts/ApiConfigContext";
+
+interface UseApiClientOptions {
+    apiBaseUrl?: string;
+    tokenTemplate?: string;
+}
+
+export function useApiClient({ apiBaseUrl, tokenTemplate }: UseApiClientOptions = {}): ApiClient {
+    const { session } = useSession();
+    const { baseUrl } = useApiConfig();
+    const resolvedBaseUrl = apiBaseUrl ?? baseUrl;
+
+    const getToken = useCallback(async ({ skipCache = false } = {}): Promise<string | null> => {
+        if (!session) {
+            console.warn("No active Clerk session found.");
+            return null;
+        }
+
+        try {
+            return await session.getToken({ template: tokenTemplate, skipCache });
+        } catch (error) {
+            console.error("Error getting Clerk token:", error);
+            return null;
+        }
+    }, [session, tokenTemplate]);
+
+    // A token refresh can also fail transiently, so only leave when Clerk agrees the session ended
+    const handleSessionExpired = useCallback(() => {
+        if (session?.status === "active") return;
+        router.replace("/sign-in");
+    }, [session]);
+
+    return useMemo(
+        () => createApiClient({ baseUrl: resolvedBaseUrl, getToken, onSessionExpired: handleSessionExpired }),
+        [resolvedBaseUrl, getToken, handleSessionExpired],
+    );
+}
@@ -0,0 +1,165 @@
+// src/hooks/useBatchAnalysis.ts
+import { useCallback, useRef, useState } from "react";
+import type { ImagePickerAsset } from "expo-image-picker";
+import type { ApiClient } from "@/api/client";
+import { isAbortError, toApiError } from "@/api/errors";
+import type { PhotoMetadata, SafetyGrade, SiteContext } from "@/api/types";
+import { UPLOAD_BYTE_BUDGET } from "@/api/config";
+import { useAbortController } from "@/hooks/useAbortController";
+import { compressToBudget, getImageSize } from "@/utils/imageProcessing";
+import { metadataFromExif } from "@/utils/photoMetadata";
+import { runWithConcurrency } from "@/utils/concurrency";
+
+/** Photos processed at once; enough to keep the network busy without flooding the server */
+export const BATCH_CONCURRENCY = 3;
+
+export type BatchItemStatus = "queued" | "preparing" | "uploading" | "analyzing" | "done" | "failed";
+
+/** One gallery photo, analyzed on its own into a separate inspection */
+export interface BatchItem {
+    id: string;
+    uri: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    metadata: PhotoMetadata;
+    /** From the EXIF data, or when the photo was picked if it has no capture time */
+    capturedAt: string;
+    status: BatchItemStatus;
+    /** Share of the upload sent, 0-1 */
+    progress: number;
+    hazardCount?: number;
+    riskScore?: number;
+    safetyGrade?: SafetyGrade;
+    inspectionId?: string;
+    error?: string;
+}
+
+/** Sent with every photo of the batch */
+export interface BatchOptions {
+    siteContext?: SiteContext | null;
+    siteId?: string | null;
+    areaId?: string | null;
+}
+
+let nextItemId = 0;
+
+/**
+ * Uploads and analyzes many photos, each into its own inspection, with at
+ * most BATCH_CONCURRENCY in flight. Cancelling puts unfinished photos back in
+ * the queue; failed ones are retried on the next run.
+ */
+export function useBatchAnalysis(api: ApiClient, { siteContext, siteId, areaId }: BatchOptions = {}) {
+    const [items, setItems] = useState<BatchItem[]>([]);
+    const [running, setRunning] = useState(false);
+    const itemsRef = useRef<BatchItem[]>([]);
+    const runRequest = useAbortController();
+
+    const updateItems = useCallback((update: (current: BatchItem[]) => BatchItem[]) => {
+        itemsRef.current = update(itemsRef.current);
+        setItems(itemsRef.current);
+    }, []);
+
+    const patch = useCallback((id: string, changes: Partial<BatchItem>) => {
+        updateItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+    }, [updateItems]);
+
+    const add = useCallback((assets: ImagePickerAsset[]) => {
+        const pickedAt = new Date().toISOString();
+        const added = assets
+            .filter((asset) => asset.uri)
+            .map((asset): BatchItem => {
+                const metadata = metadataFromExif(asset.exif);
+                return {
+                    id: `batch-${nextItemId++}`,
+                    uri: asset.uri,
+                    mimeType: asset.mimeType || "image/jpeg",
+                    width: asset.width,
+                    height: asset.height,
+                    metadata,
+                    capturedAt: metadata.capturedAt ?? pickedAt,
+                    status: "queued",
+                    progress: 0,
+                };
+            });
+        updateItems((current) => [...current, ...added]);
+    }, [updateItems]);
+
+    const remove = useCallback((id: string) => {
+        updateItems((current) => current.filter((item) => item.id !== id));
+    }, [updateItems]);
+
+    const clear = useCallback(() => updateItems(() => []), [updateItems]);
+
+    const processItem = useCallback(async (item: BatchItem, signal: AbortSignal) => {
+        // Cancelling puts the photo back in the queue straight away, so a worker from a cancelled
+        // run must not touch it again; the next run may already have picked it up
+        const update = (changes: Partial<BatchItem>) => {
+            if (!signal.aborted) patch(item.id, changes);
+        };
+
+        try {
+            update({ status: "preparing", progress: 0, error: undefined });
+            const size = item.width && item.height ? { width: item.width, height: item.height } : await getImageSize(item.uri);
+            const compressed = await compressToBudget(item.uri, size, UPLOAD_BYTE_BUDGET);
+            if (signal.aborted) return;
+
+            update({ status: "uploading" });
+            const { url } = await api.uploadImage(
+                compressed.uri,
+                compressed.uri !== item.uri ? "image/jpeg" : item.mimeType,
+                {
+                    onProgress: ({ bytesSent, totalBytes }) =>
+                        update({ progress: totalBytes > 0 ? bytesSent / totalBytes : 0 }),
+                    signal,
+                },
+            );
+
+            update({ status: "analyzing", progress: 1 });
+            const { inspection } = await api.analyze({
+                imageUrls: [url],
+                photoMetadata: [item.metadata],
+                capturedAt: item.capturedAt,
+                siteContext: siteContext ?? undefined,
+                siteId: siteId ?? undefined,
+                areaId: areaId ?? undefined,
+            }, { signal });
+
+            update({
+                status: "done",
+                hazardCount: inspection.hazardCount,
+                riskScore: inspection.riskScore,
+                safetyGrade: inspection.safetyGrade,
+                inspectionId: inspection.id,
+            });
+        } catch (e) {
+            if (isAbortError(e) || signal.aborted) return;
+            update({ status: "failed", error: toApiError(e).message });
+        }
+    }, [api, patch, siteContext, siteId, areaId]);
+
+    const run = useCallback(async () => {
+        const pending = itemsRef.current.filter((item) => item.status === "queued" || item.status === "failed");
+        if (pending.length === 0) return;
+
+        const signal = runRequest.renew();
+        setRunning(true);
+        try {
+            await runWithConcurrency(pending, BATCH_CONCURRENCY, (item) => processItem(item, signal), signal);
+        } finally {
+            if (!signal.aborted) setRunning(false);
+        }
+    }, [processItem, runRequest]);
+
+    const cancel = useCallback(() => {
+        runRequest.abort();
+        setRunning(false);
+        updateItems((current) => current.map((item) => (
+            item.status === "preparing" || item.status === "uploading" || item.status === "analyzing"
+                ? { ...item, status: "queued", progress: 0 }
+                : item
+        )));
+    }, [runRequest, updateItems]);
+
+    return { items, running, add, remove, clear, run, cancel };
+}
@@ -0,0 +1,55 @@
+// src/hooks/useChecklistTemplates.ts
+import { useCallback, useEffect, useState } from "react";
+import type { ApiClient, ChecklistTemplateInput } from "@/api/client";
+import { isAbortError, toApiError } from "@/api/errors";
+import type { ChecklistTemplate } from "@/api/types";
+import { useAbortController } from "@/hooks/useAbortController";
+
+/**
+ * Loads the checklist templates inspections can be started from, and lets
+ * users who manage them save and delete templates. Changes are merged into
+ * the list so pickers update without a refetch.
+ */
+export function useChecklistTemplates(api: ApiClient, enabled = true) {
+    const [templates, setTemplates] = useState<ChecklistTemplate[]>([]);
+    const [canManage, setCanManage] = useState(false);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { renew } = useAbortController();
+
+    const refresh = useCallback(async () => {
+        const signal = renew();
+        try {
+            setLoading(true);
+            setError(null);
+            const json = await api.listChecklistTemplates({ signal });
+            setTemplates(json.templates);
+            setCanManage(json.canManage);
+        } catch (e) {
+            if (!isAbortError(e)) setError(toApiError(e).message);
+        } finally {
+            if (!signal.aborted) setLoading(false);
+        }
+    }, [api, renew]);
+
+    useEffect(() => {
+        if (enabled) refresh();
+    }, [enabled, refresh]);
+
+    const saveTemplate = useCallback(async (input: ChecklistTemplateInput): Promise<ChecklistTemplate> => {
+        const { template } = await api.saveChecklistTemplate(input);
+        setTemplates((current) => (
+            current.some((entry) => entry.id === template.id)
+                ? current.map((entry) => (entry.id === template.id ? template : entry))
+                : [...current, template]
+        ));
+        return template;
+    }, [api]);
+
+    const deleteTemplate = useCallback(async (id: string) => {
+        await api.deleteChecklistTemplate(id);
+        setTemplates((current) => current.filter((entry) => entry.id !== id));
+    }, [api]);
+
+    return { templates, canManage, loading, error, refresh, saveTemplate, deleteTemplate };
+}
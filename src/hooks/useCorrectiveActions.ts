@@ -0,0 +1,78 @@
+// src/hooks/useCorrectiveActions.ts
+import { useCallback, useEffect, useState } from "react";
+import type { ImagePickerAsset } from "expo-image-picker";
+import type { ApiClient, CorrectiveActionChanges, CorrectiveActionInput } from "@/api/client";
+import { isAbortError, toApiError } from "@/api/errors";
+import type { ActionStatus, CorrectiveAction } from "@/api/types";
+import { UPLOAD_BYTE_BUDGET } from "@/api/config";
+import { useAbortController } from "@/hooks/useAbortController";
+import { compressToBudget, getImageSize } from "@/utils/imageProcessing";
+
+const OPEN_STATUSES: readonly ActionStatus[] = ["open", "in_progress"];
+
+interface CorrectiveActionsOptions {
+    /** Only actions raised from this inspection */
+    inspectionId?: string;
+    /** Leave out done and verified actions */
+    openOnly?: boolean;
+    enabled?: boolean;
+}
+
+/**
+ * Loads corrective actions and creates or updates them. Saved actions are
+ * merged into the list so the screen updates without a refetch.
+ */
+export function useCorrectiveActions(api: ApiClient, { inspectionId, openOnly, enabled = true }: CorrectiveActionsOptions = {}) {
+    const [actions, setActions] = useState<CorrectiveAction[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { renew } = useAbortController();
+
+    const refresh = useCallback(async () => {
+        const signal = renew();
+        try {
+            setLoading(true);
+            setError(null);
+            const json = await api.listActions({
+                signal,
+                inspectionId,
+                statuses: openOnly ? OPEN_STATUSES : undefined,
+            });
+            setActions(json.actions);
+        } catch (e) {
+            if (!isAbortError(e)) setError(toApiError(e).message);
+        } finally {
+            if (!signal.aborted) setLoading(false);
+        }
+    }, [api, renew, inspectionId, openOnly]);
+
+    useEffect(() => {
+        if (enabled) refresh();
+    }, [enabled, refresh]);
+
+    const createAction = useCallback(async (input: CorrectiveActionInput): Promise<CorrectiveAction> => {
+        const { action } = await api.createAction(input);
+        setActions((current) => [...current, action]);
+        return action;
+    }, [api]);
+
+    const updateAction = useCallback(async (id: string, changes: CorrectiveActionChanges): Promise<CorrectiveAction> => {
+        const { action } = await api.updateAction(id, changes);
+        setActions((current) => current.map((entry) => (entry.id === id ? action : entry)));
+        return action;
+    }, [api]);
+
+    /** Compresses and uploads an evidence photo, resolving to its URL */
+    const uploadEvidence = useCallback(async (asset: ImagePickerAsset): Promise<string> => {
+        const size = asset.width && asset.height ? { width: asset.width, height: asset.height } : await getImageSize(asset.uri);
+        const compressed = await compressToBudget(asset.uri, size, UPLOAD_BYTE_BUDGET);
+        const { url } = await api.uploadImage(
+            compressed.uri,
+            compressed.uri !== asset.uri ? "image/jpeg" : asset.mimeType || "image/jpeg",
+            { filename: "evidence" },
+        );
+        return url;
+    }, [api]);
+
+    return { actions, loading, error, refresh, createAction, updateAction, uploadEvidence };
+}
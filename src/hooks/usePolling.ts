@@ -0,0 +1,67 @@
+// src/hooks/usePolling.ts
+import { useEffect, useRef, useState } from "react";
+import { AppState, AppStateStatus } from "react-native";
+import { isAbortError } from "@/api/errors";
+
+interface PollingOptions {
+    enabled: boolean;
+    initialInterval?: number;
+    maxInterval?: number;
+    backoffFactor?: number;
+}
+
+/**
+ * Runs `task` repeatedly with exponential backoff while `enabled` is true.
+ * Polling pauses while the app is backgrounded and restarts from the initial
+ * interval when it returns to the foreground. The signal passed to `task`
+ * aborts when polling stops, cancelling any request still in flight.
+ */
+export function usePolling(
+    task: (signal: AbortSignal) => Promise<void>,
+    {
+        enabled,
+        initialInterval = 2000,
+        maxInterval = 30000,
+        backoffFactor = 1.5,
+    }: PollingOptions,
+) {
+    const taskRef = useRef(task);
+    const [appState, setAppState] = useState<AppStateStatus>(AppState.currentState);
+
+    useEffect(() => {
+        taskRef.current = task;
+    }, [task]);
+
+    useEffect(() => {
+        const subscription = AppState.addEventListener("change", setAppState);
+        return () => subscription.remove();
+    }, []);
+
+    const active = enabled && appState === "active";
+
+    useEffect(() => {
+        if (!active) return;
+
+        const controller = new AbortController();
+        let interval = initialInterval;
+        let timer: ReturnType<typeof setTimeout>;
+
+        const tick = async () => {
+            try {
+                await taskRef.current(controller.signal);
+            } catch (error) {
+                if (!isAbortError(error)) console.warn("Polling task failed:", error);
+            }
+            if (controller.signal.aborted) return;
+            interval = Math.min(interval * backoffFactor, maxInterval);
+            timer = setTimeout(tick, interval);
+        };
+
+        timer = setTimeout(tick, interval);
+
+        return () => {
+            controller.abort();
+            clearTimeout(timer);
+        };
+    }, [active, initialInterval, maxInterval, backoffFactor]);
+}
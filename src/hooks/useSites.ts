@@ -0,0 +1,51 @@
+// src/hooks/useSites.ts
+import { useCallback, useEffect, useState } from "react";
+import type { ApiClient } from "@/api/client";
+import { isAbortError, toApiError } from "@/api/errors";
+import type { Area, Site } from "@/api/types";
+import { useAbortController } from "@/hooks/useAbortController";
+
+/**
+ * Loads the user's sites and their areas, and creates new ones. Created
+ * entries are merged into the list so pickers update without a refetch.
+ */
+export function useSites(api: ApiClient, enabled = true) {
+    const [sites, setSites] = useState<Site[]>([]);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { renew } = useAbortController();
+
+    const refresh = useCallback(async () => {
+        const signal = renew();
+        try {
+            setLoading(true);
+            setError(null);
+            const json = await api.listSites({ signal });
+            setSites(json.sites);
+        } catch (e) {
+            if (!isAbortError(e)) setError(toApiError(e).message);
+        } finally {
+            if (!signal.aborted) setLoading(false);
+        }
+    }, [api, renew]);
+
+    useEffect(() => {
+        if (enabled) refresh();
+    }, [enabled, refresh]);
+
+    const createSite = useCallback(async (name: string): Promise<Site> => {
+        const { site } = await api.createSite(name);
+        setSites((current) => [...current, site]);
+        return site;
+    }, [api]);
+
+    const createArea = useCallback(async (siteId: string, name: string): Promise<Area> => {
+        const { area } = await api.createArea(siteId, name);
+        setSites((current) => current.map((site) => (
+            site.id === siteId ? { ...site, areas: [...site.areas, area] } : site
+        )));
+        return area;
+    }, [api]);
+
+    return { sites, loading, error, refresh, createSite, createArea };
+}
@@ -0,0 +1,141 @@
+// src/storage/captureQueue.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+import type { ChecklistSubmission } from "@/api/client";
+import type { FocusRegion, PhotoMetadata, SiteContext } from "@/api/types";
+
+export type QueueItemStatus = "queued" | "uploading" | "analyzing" | "done" | "failed";
+
+export interface QueuedPhoto {
+    /** Persistent copy of the image inside the app's document directory */
+    fileUri: string;
+    mimeType: string;
+    /** Null when the inspector opted out of sharing time and location for this photo */
+    metadata?: PhotoMetadata | null;
+    /** Flattened copy with the inspector's markup, analyzed in place of the original */
+    annotatedFileUri?: string;
+    focusRegions?: FocusRegion[];
+    /** Where the photo was uploaded, so a retry only uploads what is still missing */
+    uploadedUrl?: string;
+    annotatedUploadedUrl?: string;
+}
+
+export interface QueuedCapture {
+    id: string;
+    /** All photos of the inspection, analyzed together once uploaded */
+    photos: QueuedPhoto[];
+    capturedAt: string;
+    siteContext?: SiteContext;
+    siteId?: string;
+    areaId?: string;
+    checklist?: ChecklistSubmission;
+    status: QueueItemStatus;
+    attempts: number;
+    error?: string;
+    inspectionId?: string;
+}
+
+export interface NewCapture {
+    photos: {
+        sourceUri: string;
+        mimeType: string;
+        metadata: PhotoMetadata | null;
+        annotatedSourceUri?: string;
+        focusRegions?: FocusRegion[];
+    }[];
+    capturedAt: string;
+    siteContext?: SiteContext;
+    siteId?: string;
+    areaId?: string;
+    checklist?: ChecklistSubmission;
+}
+
+const QUEUE_STORAGE_PREFIX = "@capture_queue";
+const queueDirectory = () => new Directory(Paths.document, "capture-queue");
+
+const storageKey = (userId: string) => `${QUEUE_STORAGE_PREFIX}:${userId}`;
+
+const extensionFor = (mimeType: string) => {
+    switch (mimeType) {
+        case "image/png": return "png";
+        case "image/webp": return "webp";
+        case "image/heic": return "heic";
+        default: return "jpg";
+    }
+};
+
+export const createCaptureId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export async function loadQueue(userId: string): Promise<QueuedCapture[]> {
+    try {
+        const raw = await AsyncStorage.getItem(storageKey(userId));
+        if (!raw) return [];
+        const items: (QueuedCapture & Partial<QueuedPhoto>)[] = JSON.parse(raw);
+        return items.map(({ fileUri, mimeType, ...item }) => ({
+            ...item,
+            // Items queued before multi-photo support held a single file
+            photos: item.photos ?? (fileUri ? [{ fileUri, mimeType: mimeType ?? "image/jpeg" }] : []),
+            // Anything interrupted mid-flight by an app kill goes back to the queue
+            status: item.status === "uploading" || item.status === "analyzing" ? "queued" : item.status,
+        }));
+    } catch (error) {
+        console.warn("Failed to load capture queue:", error);
+        return [];
+    }
+}
+
+export async function saveQueue(userId: string, items: QueuedCapture[]): Promise<void> {
+    try {
+        await AsyncStorage.setItem(storageKey(userId), JSON.stringify(items));
+    } catch (error) {
+        console.warn("Failed to save capture queue:", error);
+    }
+}
+
+/** Copies the images into the document directory so the OS cannot purge them while queued */
+export function persistCapture(capture: NewCapture): QueuedCapture {
+    const id = createCaptureId();
+    const directory = queueDirectory();
+    directory.create({ intermediates: true, idempotent: true });
+
+    const photos = capture.photos.map(({ sourceUri, mimeType, metadata, annotatedSourceUri, focusRegions }, index) => {
+        const file = new File(directory, `${id}-${index}.${extensionFor(mimeType)}`);
+        new File(sourceUri).copy(file);
+        const photo: QueuedPhoto = { fileUri: file.uri, mimeType, metadata };
+        if (annotatedSourceUri) {
+            // Markup is always flattened to JPEG
+            const annotated = new File(directory, `${id}-${index}-annotated.jpg`);
+            new File(annotatedSourceUri).copy(annotated);
+            photo.annotatedFileUri = annotated.uri;
+            photo.focusRegions = focusRegions;
+        }
+        return photo;
+    });
+
+    return {
+        id,
+        photos,
+        capturedAt: capture.capturedAt,
+        siteContext: capture.siteContext,
+        siteId: capture.siteId,
+        areaId: capture.areaId,
+        checklist: capture.checklist,
+        status: "queued",
+        attempts: 0,
+    };
+}
+
+export function deleteCaptureFiles(item: QueuedCapture) {
+    const uris = item.photos.flatMap((photo) =>
+        photo.annotatedFileUri ? [photo.fileUri, photo.annotatedFileUri] : [photo.fileUri],
+    );
+    for (const uri of uris) {
+        try {
+            const file = new File(uri);
+            if (file.exists) file.delete();
+        } catch (error) {
+            console.warn("Failed to delete queued capture file:", error);
+        }
+    }
+}
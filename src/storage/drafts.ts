@@ -0,0 +1,164 @@
+// src/storage/drafts.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { Directory, File, Paths } from "expo-file-system";
+import type { AnalysisResult, PhotoMetadata, SiteContext } from "@/api/types";
+import type { ChecklistDraft } from "@/utils/checklist";
+import type { MarkupShape } from "@/utils/markup";
+import type { QualityIssue } from "@/utils/photoQuality";
+
+/** A photo attached to the inspection being prepared */
+export type DraftPhoto = {
+    uri: string;
+    mimeType: string;
+    width: number;
+    height: number;
+    metadata: PhotoMetadata;
+    /** Per-photo opt-out for sending capture time and location */
+    includeMetadata: boolean;
+    /** Inspector's markup, kept so it can be edited again */
+    markup?: MarkupShape[];
+    /** Flattened copy with the markup drawn in; `uri` stays the untouched original */
+    annotatedUri?: string | null;
+    /** Set when the photo was compressed to fit the upload budget */
+    compression?: { originalBytes: number; bytes: number };
+    /** Problems found by the pre-upload check; undefined until it has run */
+    qualityIssues?: QualityIssue[];
+    /** The inspector chose to analyze despite the quality issues */
+    qualityAccepted?: boolean;
+};
+
+/** An in-progress capture, saved so it survives the app being killed */
+export interface CaptureDraft {
+    id: string;
+    name: string;
+    createdAt: string;
+    updatedAt: string;
+    photos: DraftPhoto[];
+    capturedAt: string | null;
+    siteContext: SiteContext | null;
+    /** Site and area picked for the inspection; absent on drafts saved before sites existed */
+    siteId?: string | null;
+    areaId?: string | null;
+    /** Template the inspection was started from and the answers given so far */
+    checklist?: ChecklistDraft | null;
+    /** The last analysis of these photos, if one finished */
+    result: AnalysisResult | null;
+}
+
+const DRAFTS_STORAGE_PREFIX = "@capture_drafts";
+const draftDirectory = (id: string) => new Directory(Paths.document, "drafts", id);
+
+const storageKey = (userId: string) => `${DRAFTS_STORAGE_PREFIX}:${userId}`;
+
+export const createDraftId = () =>
+    `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const fileExists = (uri: string) => {
+    try {
+        return new File(uri).exists;
+    } catch {
+        return false;
+    }
+};
+
+async function readDrafts(userId: string): Promise<CaptureDraft[]> {
+    const raw = await AsyncStorage.getItem(storageKey(userId));
+    return raw ? JSON.parse(raw) : [];
+}
+
+// Saves can overlap while the inspector keeps editing, so writes run one at a time
+let pendingWrite: Promise<unknown> = Promise.resolve();
+function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const next = pendingWrite.then(task, task);
+    pendingWrite = next.catch(() => undefined);
+    return next;
+}
+
+/** The user's drafts, most recently updated first; photos whose files are gone are dropped */
+export async function loadDrafts(userId: string): Promise<CaptureDraft[]> {
+    try {
+        const drafts = await readDrafts(userId);
+        return drafts
+            .map((draft) => ({
+                ...draft,
+                photos: draft.photos
+                    .filter((photo) => fileExists(photo.uri))
+                    .map((photo) => ({
+                        ...photo,
+                        annotatedUri: photo.annotatedUri && fileExists(photo.annotatedUri) ? photo.annotatedUri : null,
+                        // Markup without its flattened copy cannot be analyzed, so it is kept for re-editing only
+                        markup: photo.annotatedUri && fileExists(photo.annotatedUri) ? photo.markup : undefined,
+                    })),
+            }))
+            .filter((draft) => draft.photos.length > 0)
+            .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+    } catch (error) {
+        console.warn("Failed to load drafts:", error);
+        return [];
+    }
+}
+
+// Copies a file into the draft's directory unless it is already there. Picker and
+// manipulator outputs have unique names, so an unchanged photo is only copied once.
+function persistFile(directory: Directory, uri: string): string {
+    if (uri.startsWith(directory.uri)) return uri;
+    const name = uri.split("/").pop() || `${createDraftId()}.jpg`;
+    const target = new File(directory, name);
+    if (!target.exists) new File(uri).copy(target);
+    return target.uri;
+}
+
+/**
+ * Creates or replaces a draft. Its photos are copied into the document
+ * directory so the OS cannot purge them from the cache, and files the draft
+ * no longer uses are removed. Returns the draft as stored.
+ */
+export function saveDraft(userId: string, draft: CaptureDraft): Promise<CaptureDraft> {
+    return serialized(async () => {
+        const directory = draftDirectory(draft.id);
+        directory.create({ intermediates: true, idempotent: true });
+
+        const photos = draft.photos.map((photo) => ({
+            ...photo,
+            uri: persistFile(directory, photo.uri),
+            annotatedUri: photo.annotatedUri ? persistFile(directory, photo.annotatedUri) : null,
+        }));
+        const stored: CaptureDraft = { ...draft, photos };
+
+        const used = new Set(photos.flatMap((photo) => (photo.annotatedUri ? [photo.uri, photo.annotatedUri] : [photo.uri])));
+        for (const entry of directory.list()) {
+            if (entry instanceof File && !used.has(entry.uri)) entry.delete();
+        }
+
+        const drafts = await readDrafts(userId);
+        await AsyncStorage.setItem(
+            storageKey(userId),
+            JSON.stringify([stored, ...drafts.filter((existing) => existing.id !== draft.id)]),
+        );
+        return stored;
+    });
+}
+
+export function renameDraft(userId: string, id: string, name: string): Promise<void> {
+    return serialized(async () => {
+        const drafts = await readDrafts(userId);
+        await AsyncStorage.setItem(
+            storageKey(userId),
+            JSON.stringify(drafts.map((draft) => (draft.id === id ? { ...draft, name } : draft))),
+        );
+    });
+}
+
+/** Removes the draft and its copies of the photos */
+export function deleteDraft(userId: string, id: string): Promise<void> {
+    return serialized(async () => {
+        const drafts = await readDrafts(userId);
+        await AsyncStorage.setItem(storageKey(userId), JSON.stringify(drafts.filter((draft) => draft.id !== id)));
+        try {
+            const directory = draftDirectory(id);
+            if (directory.exists) directory.delete();
+        } catch (error) {
+            console.warn("Failed to delete draft files:", error);
+        }
+    });
+}
@@ -0,0 +1,33 @@
+// src/storage/siteContext.ts
+import AsyncStorage from "@react-native-async-storage/async-storage";
+import { siteContextSchema } from "@/api/schemas";
+import type { SiteContext } from "@/api/types";
+
+const SITE_CONTEXT_STORAGE_PREFIX = "@site_context";
+
+const storageKey = (userId: string) => `${SITE_CONTEXT_STORAGE_PREFIX}:${userId}`;
+
+/** The context this user last sent with an analysis, or null if there is none */
+export async function loadSiteContext(userId: string): Promise<SiteContext | null> {
+    try {
+        const raw = await AsyncStorage.getItem(storageKey(userId));
+        if (!raw) return null;
+        const parsed = siteContextSchema.safeParse(JSON.parse(raw));
+        return parsed.success ? parsed.data : null;
+    } catch (error) {
+        console.warn("Failed to load site context:", error);
+        return null;
+    }
+}
+
+export async function saveSiteContext(userId: string, context: SiteContext | null): Promise<void> {
+    try {
+        if (context) {
+            await AsyncStorage.setItem(storageKey(userId), JSON.stringify(context));
+        } else {
+            await AsyncStorage.removeItem(storageKey(userId));
+        }
+    } catch (error) {
+        console.warn("Failed to save site context:", error);
+    }
+}
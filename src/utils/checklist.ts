@@ -0,0 +1,74 @@
+// src/utils/checklist.ts
+import type { ChecklistSubmission } from "@/api/client";
+import type { ChecklistAnswer, ChecklistAnswerEntry, ChecklistSection, Hazard } from "@/api/types";
+import { PRIORITY_BY_SEVERITY } from "@/utils/hazardReview";
+
+export const CHECKLIST_ANSWER_LABELS: Record<ChecklistAnswer, string> = {
+    yes: "Yes",
+    no: "No",
+    na: "N/A",
+};
+
+/** The answers given so far, keyed by item id */
+export type ChecklistAnswers = Record<string, ChecklistAnswerEntry>;
+
+/** A checklist being filled in before the inspection is submitted */
+export interface ChecklistDraft {
+    templateId: string;
+    answers: ChecklistAnswers;
+}
+
+export const toChecklistSubmission = ({ templateId, answers }: ChecklistDraft): ChecklistSubmission => ({
+    templateId,
+    answers: Object.values(answers),
+});
+
+export interface ChecklistProgress {
+    answered: number;
+    total: number;
+    failed: number;
+}
+
+export const checklistItems = (sections: ChecklistSection[]) =>
+    sections.flatMap((section) => section.items.map((item) => ({ section, item })));
+
+export function checklistProgress(sections: ChecklistSection[], answers: ChecklistAnswers): ChecklistProgress {
+    const items = checklistItems(sections);
+    return {
+        answered: items.filter(({ item }) => answers[item.id]).length,
+        total: items.length,
+        failed: items.filter(({ item }) => answers[item.id]?.answer === "no").length,
+    };
+}
+
+export const isChecklistComplete = (progress: ChecklistProgress) =>
+    progress.total > 0 && progress.answered === progress.total;
+
+/** Id of the hazard raised by a "No" answer; stable so the answer and its hazard can be matched up */
+export const checklistHazardId = (itemId: string) => `checklist-${itemId}`;
+
+/** One hazard for every item answered "No", using the severity and category set on the template */
+export function checklistHazards(
+    sections: ChecklistSection[],
+    answers: ChecklistAnswerEntry[],
+): Hazard[] {
+    return checklistItems(sections).flatMap(({ section, item }): Hazard[] => {
+        const entry = answers.find((answer) => answer.itemId === item.id);
+        if (entry?.answer !== "no") return [];
+        const note = entry.note?.trim();
+        return [{
+            id: checklistHazardId(item.id),
+            category: item.category,
+            severity: item.severity,
+            description: note ? `${item.text}: ${note}` : item.text,
+            location: section.title,
+            immediateSolutions: [],
+            longTermSolutions: [],
+            estimatedCost: null,
+            timeToImplement: null,
+            priority: PRIORITY_BY_SEVERITY[item.severity],
+            photoIndex: null,
+            source: "checklist",
+        }];
+    });
+}
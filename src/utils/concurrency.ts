@@ -0,0 +1,23 @@
+// src/utils/concurrency.ts
+
+/**
+ * Runs `worker` over `items` with at most `limit` running at once. Once
+ * `signal` aborts no further items are started; those already running are
+ * left to finish or observe the signal themselves. `worker` should handle its
+ * own errors, since one rejection rejects the whole run.
+ */
+export async function runWithConcurrency<T>(
+    items: readonly T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<void>,
+    signal?: AbortSignal,
+): Promise<void> {
+    let next = 0;
+    const lane = async () => {
+        while (next < items.length && !signal?.aborted) {
+            const index = next++;
+            await worker(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(Math.max(limit, 1), items.length) }, lane));
+}
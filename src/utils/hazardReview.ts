@@ -0,0 +1,121 @@
+// src/utils/hazardReview.ts
+import type { Hazard, HazardReview, SafetyGrade, Severity } from "@/api/types";
+
+/** A hazard as the inspector left it, with the AI's version kept alongside */
+export type ReviewedHazard = Hazard & {
+    review: HazardReview | null;
+    /** The AI's values, before any correction */
+    original: Hazard;
+};
+
+export interface HazardScore {
+    hazardCount: number;
+    riskScore: number;
+    safetyGrade: SafetyGrade;
+}
+
+// Points each hazard adds to the 0-100 risk score; tuned to land close to the model's own scores
+const SEVERITY_WEIGHTS: Record<Severity, number> = {
+    Critical: 35,
+    High: 20,
+    Medium: 12,
+    Low: 6,
+};
+
+// Highest risk score that still earns each grade
+const GRADE_CEILINGS: [SafetyGrade, number][] = [
+    ["A", 20],
+    ["B", 40],
+    ["C", 60],
+    ["D", 80],
+];
+
+// Default 1-10 priority for a hazard of each severity, matching what the model assigns
+export const PRIORITY_BY_SEVERITY: Record<Severity, number> = {
+    Critical: 10,
+    High: 7,
+    Medium: 5,
+    Low: 2,
+};
+
+export const gradeForScore = (riskScore: number): SafetyGrade =>
+    GRADE_CEILINGS.find(([, ceiling]) => riskScore <= ceiling)?.[0] ?? "F";
+
+/** Applies each review to its hazard; dismissed hazards are kept so they can be restored */
+export function applyHazardReviews(hazards: Hazard[], reviews: HazardReview[] | null | undefined): ReviewedHazard[] {
+    return hazards.map((hazard) => {
+        const review = reviews?.find((entry) => entry.hazardId === hazard.id) ?? null;
+        if (!review) return { ...hazard, review: null, original: hazard };
+        return {
+            ...hazard,
+            severity: review.severity ?? hazard.severity,
+            category: review.category ?? hazard.category,
+            description: review.description ?? hazard.description,
+            location: review.location ?? hazard.location,
+            review,
+            original: hazard,
+        };
+    });
+}
+
+const unreviewed = (hazard: Hazard): ReviewedHazard => ({ ...hazard, review: null, original: hazard });
+
+/**
+ * The inspection's full hazard list: the AI's hazards with reviews applied,
+ * then those raised by failed checklist items, then the ones the inspector
+ * added by hand.
+ */
+export function combineHazards(
+    aiHazards: Hazard[],
+    reviews: HazardReview[] | null | undefined,
+    inspectorHazards: Hazard[] | null | undefined,
+    checklistHazards: Hazard[] = [],
+): ReviewedHazard[] {
+    return [
+        ...applyHazardReviews(aiHazards, reviews),
+        ...checklistHazards.map(unreviewed),
+        ...(inspectorHazards ?? []).map((hazard) => unreviewed({ ...hazard, source: "inspector" })),
+    ];
+}
+
+export const isInspectorAdded = (hazard: Hazard) => hazard.source === "inspector";
+
+export const isFromChecklist = (hazard: Hazard) => hazard.source === "checklist";
+
+export const isDismissed = (hazard: ReviewedHazard) => Boolean(hazard.review?.dismissed);
+
+/** True when the review changed what the hazard says, not just dismissed it */
+export const isEdited = (hazard: ReviewedHazard) =>
+    hazard.severity !== hazard.original.severity ||
+    hazard.category !== hazard.original.category ||
+    hazard.description !== hazard.original.description ||
+    hazard.location !== hazard.original.location;
+
+const weightOf = (hazards: Pick<Hazard, "severity">[]) =>
+    hazards.reduce((total, hazard) => total + SEVERITY_WEIGHTS[hazard.severity], 0);
+
+/** Count, risk score and grade of the hazards that still stand */
+export function scoreHazards(hazards: Pick<Hazard, "severity">[]): HazardScore {
+    const riskScore = Math.min(100, weightOf(hazards));
+    return { hazardCount: hazards.length, riskScore, safetyGrade: gradeForScore(riskScore) };
+}
+
+/**
+ * The model's figures adjusted for the inspector's changes, or null when none
+ * of them affect the score. Only a new severity, a dismissal, or a hazard added
+ * by the inspector or a failed checklist item count; rewording a hazard does not.
+ * The weight those changes add or remove is applied to the model's score
+ * instead of replacing it with the weights alone.
+ */
+export function adjustScore(modelRiskScore: number | null | undefined, hazards: ReviewedHazard[]): HazardScore | null {
+    const modelHazards = hazards.filter((hazard) => !isInspectorAdded(hazard) && !isFromChecklist(hazard));
+    const changed = hazards.length > modelHazards.length ||
+        modelHazards.some((hazard) => isDismissed(hazard) || hazard.severity !== hazard.original.severity);
+    if (!changed) return null;
+
+    const standing = hazards.filter((hazard) => !isDismissed(hazard));
+    if (modelRiskScore == null) return scoreHazards(standing);
+    const difference = weightOf(standing) - weightOf(modelHazards.map((hazard) => hazard.original));
+    const riskScore = Math.min(100, Math.max(0, modelRiskScore + difference));
+    return { hazardCount: standing.length, riskScore, safetyGrade: gradeForScore(riskScore) };
+}
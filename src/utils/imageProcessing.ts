@@ -0,0 +1,261 @@
+// src/utils/imageProcessing.ts
+import { Image } from "react-native";
+import * as ImageManipulator from "expo-image-manipulator";
+import { File } from "expo-file-system";
+import type { ImageRegion } from "@/api/types";
+
+export type Size = { width: number; height: number };
+
+/** Longest side of an uploaded photo; enough for the analysis to read signage */
+export const MAX_UPLOAD_SIDE = 1600;
+
+/** Below this longest side, labels and signage stop being legible to the analysis */
+export const MIN_READABLE_SIDE = 1280;
+
+// Last resort when even a readable size cannot meet the budget
+const MIN_UPLOAD_SIDE = 640;
+const MAX_QUALITY = 0.92;
+const MIN_QUALITY = 0.4;
+// Above the readable side a smaller photo at better quality beats a larger, blockier one
+const MIN_QUALITY_ABOVE_READABLE = 0.7;
+// Each step down in size keeps this share of the longest side
+const SIDE_STEP = 0.85;
+
+/** Fine rotation range offered for straightening, in degrees either way */
+export const MAX_STRAIGHTEN = 15;
+
+/** Crop, rotation and straightening chosen in the edit step */
+export interface PhotoEdits {
+    /** Clockwise quarter turns, 0-3 */
+    quarterTurns: number;
+    /** Fine rotation in degrees, clockwise positive */
+    straighten: number;
+    /** Crop of the straightened image, in fractions of its size */
+    crop: ImageRegion;
+}
+
+export const FULL_CROP: ImageRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+export const NO_EDITS: PhotoEdits = { quarterTurns: 0, straighten: 0, crop: FULL_CROP };
+
+export const getImageSize = (uri: string) =>
+    new Promise<Size>((resolve, reject) => Image.getSize(uri, (width, height) => resolve({ width, height }), reject));
+
+/** Scales down so the longest side fits `maxSide`; never scales up */
+export function fitLongestSide({ width, height }: Size, maxSide = MAX_UPLOAD_SIDE): Size {
+    const scale = Math.min(1, maxSide / Math.max(width, height));
+    return { width: Math.round(width * scale), height: Math.round(height * scale) };
+}
+
+/** The resize step for a photo of `size`, or none when it already fits */
+export function resizeActions(size: Size, maxSide = MAX_UPLOAD_SIDE): ImageManipulator.Action[] {
+    if (Math.max(size.width, size.height) <= maxSide) return [];
+    // Resizing by one side keeps the aspect ratio
+    return size.width >= size.height
+        ? [{ resize: { width: maxSide } }]
+        : [{ resize: { height: maxSide } }];
+}
+
+/** Size of the photo after the quarter turns, before straightening */
+export const turnedSize = ({ width, height }: Size, quarterTurns: number): Size =>
+    quarterTurns % 2 === 0 ? { width, height } : { width: height, height: width };
+
+/**
+ * Rotating by a fine angle grows the canvas and leaves empty corners. This
+ * returns how much of the turned photo (as a scale factor) survives when the
+ * corners are trimmed away at the same aspect ratio.
+ */
+export function straightenScale({ width, height }: Size, degrees: number): number {
+    const radians = Math.abs(degrees) * Math.PI / 180;
+    const cos = Math.cos(radians);
+    const sin = Math.sin(radians);
+    return Math.min(
+        width / (width * cos + height * sin),
+        height / (width * sin + height * cos),
+    );
+}
+
+/** Size of the photo that comes out of the edit step, before resizing for upload */
+export function editedSize(size: Size, edits: PhotoEdits): Size {
+    const turned = turnedSize(size, edits.quarterTurns);
+    const scale = straightenScale(turned, edits.straighten);
+    return {
+        width: Math.round(turned.width * scale * edits.crop.width),
+        height: Math.round(turned.height * scale * edits.crop.height),
+    };
+}
+
+export const hasEdits = (edits: PhotoEdits) =>
+    edits.quarterTurns % 4 !== 0 ||
+    edits.straighten !== 0 ||
+    edits.crop.x !== 0 ||
+    edits.crop.y !== 0 ||
+    edits.crop.width !== 1 ||
+    edits.crop.height !== 1;
+
+/**
+ * Applies the edits and resizes by the longest side in one pass, so the photo
+ * is only re-encoded once.
+ */
+export async function applyPhotoEdits(uri: string, size: Size, edits: PhotoEdits, quality = 0.9) {
+    const turned = turnedSize(size, edits.quarterTurns);
+    const degrees = edits.quarterTurns * 90 + edits.straighten;
+    const radians = Math.abs(edits.straighten) * Math.PI / 180;
+    // Canvas of the rotated image, which the crop is measured against
+    const canvas = {
+        width: turned.width * Math.cos(radians) + turned.height * Math.sin(radians),
+        height: turned.width * Math.sin(radians) + turned.height * Math.cos(radians),
+    };
+    const scale = straightenScale(turned, edits.straighten);
+    const inner = { width: turned.width * scale, height: turned.height * scale };
+    const originX = Math.round((canvas.width - inner.width) / 2 + edits.crop.x * inner.width);
+    const originY = Math.round((canvas.height - inner.height) / 2 + edits.crop.y * inner.height);
+    // Rounding must not push the crop past the rotated canvas, which the manipulator rejects
+    const crop = {
+        originX,
+        originY,
+        width: Math.min(Math.round(inner.width * edits.crop.width), Math.floor(canvas.width) - originX),
+        height: Math.min(Math.round(inner.height * edits.crop.height), Math.floor(canvas.height) - originY),
+    };
+
+    const actions: ImageManipulator.Action[] = [];
+    if (degrees !== 0) actions.push({ rotate: degrees });
+    if (hasEdits({ ...edits, quarterTurns: 0 })) actions.push({ crop });
+    actions.push(...resizeActions({ width: crop.width, height: crop.height }));
+
+    return ImageManipulator.manipulateAsync(uri, actions, {
+        compress: quality,
+        format: ImageManipulator.SaveFormat.JPEG,
+    });
+}
+
+/** Carries a crop across a clockwise quarter turn so it still frames the same area */
+export const turnCropClockwise = ({ x, y, width, height }: ImageRegion): ImageRegion => ({
+    x: 1 - (y + height),
+    y: x,
+    width: height,
+    height: width,
+});
+
+export interface CompressionResult {
+    uri: string;
+    width: number;
+    height: number;
+    bytes: number;
+    /** Size of the file before compression */
+    originalBytes: number;
+    /** False when even the smallest attempt was over budget */
+    withinBudget: boolean;
+}
+
+/** Size of the file at `uri` in bytes, or 0 when it cannot be read */
+export const fileSize = (uri: string) => {
+    try {
+        return new File(uri).size ?? 0;
+    } catch {
+        return 0;
+    }
+};
+
+const discard = (uri: string) => {
+    try {
+        const file = new File(uri);
+        if (file.exists) file.delete();
+    } catch {
+        // Leftover cache files are cleaned up by the OS
+    }
+};
+
+// Longest sides to try, largest first: down to the readable side itself, then below it only if nothing else fits
+function sideLadder(longest: number): number[] {
+    const top = Math.min(longest, MAX_UPLOAD_SIDE);
+    const sides: number[] = [];
+    for (let side = top; side > MIN_READABLE_SIDE; side = Math.round(side * SIDE_STEP)) {
+        sides.push(side);
+    }
+    for (let side = Math.min(top, MIN_READABLE_SIDE); side > MIN_UPLOAD_SIDE; side = Math.round(side * SIDE_STEP)) {
+        sides.push(side);
+    }
+    sides.push(Math.min(longest, MIN_UPLOAD_SIDE));
+    return sides;
+}
+
+/**
+ * Compresses a photo to fit `targetBytes` while keeping as much detail as
+ * possible. Photos already within budget are left untouched. Otherwise each
+ * size on the ladder is tried, largest first, with a binary search for the
+ * highest JPEG quality that fits; the first size that fits wins. Sizes above
+ * the readable side only count as fitting at a good quality, and sizes below
+ * it are only tried when the readable side does not fit even at the lowest.
+ */
+export async function compressToBudget(uri: string, size: Size, targetBytes: number): Promise<CompressionResult> {
+    const originalBytes = fileSize(uri);
+    const longest = Math.max(size.width, size.height);
+    if (originalBytes > 0 && originalBytes <= targetBytes) {
+        return { uri, ...size, bytes: originalBytes, originalBytes, withinBudget: true };
+    }
+
+    let smallest: CompressionResult | null = null;
+    const keepSmallest = (candidate: CompressionResult) => {
+        if (smallest && smallest.bytes <= candidate.bytes) {
+            discard(candidate.uri);
+            return;
+        }
+        if (smallest) discard(smallest.uri);
+        smallest = candidate;
+    };
+
+    for (const side of sideLadder(longest)) {
+        const qualityFloor = side > MIN_READABLE_SIDE ? MIN_QUALITY_ABOVE_READABLE : MIN_QUALITY;
+        const fitted = fitLongestSide(size, side);
+        const context = ImageManipulator.ImageManipulator.manipulate(uri);
+        if (side < longest) context.resize(size.width >= size.height ? { width: side } : { height: side });
+        const image = await context.renderAsync();
+
+        const encode = async (quality: number): Promise<CompressionResult> => {
+            const result = await image.saveAsync({ compress: quality, format: ImageManipulator.SaveFormat.JPEG });
+            const bytes = fileSize(result.uri);
+            return {
+                uri: result.uri,
+                width: result.width || fitted.width,
+                height: result.height || fitted.height,
+                bytes,
+                originalBytes,
+                withinBudget: bytes <= targetBytes,
+            };
+        };
+
+        const best = await encode(MAX_QUALITY);
+        if (best.withinBudget) return best;
+
+        const worst = await encode(qualityFloor);
+        if (!worst.withinBudget) {
+            discard(best.uri);
+            keepSmallest(worst);
+            continue;
+        }
+
+        // Two halvings narrow the quality to within a quarter of the range of the best that fits
+        let fits = worst;
+        let low = qualityFloor;
+        let high = MAX_QUALITY;
+        discard(best.uri);
+        for (let step = 0; step < 2; step++) {
+            const quality = (low + high) / 2;
+            const attempt = await encode(quality);
+            if (attempt.withinBudget) {
+                discard(fits.uri);
+                fits = attempt;
+                low = quality;
+            } else {
+                discard(attempt.uri);
+                high = quality;
+            }
+        }
+        if (smallest) discard((smallest as CompressionResult).uri);
+        return fits;
+    }
+
+    // Nothing met the budget; upload the smallest attempt and let the server decide
+    return smallest!;
+}
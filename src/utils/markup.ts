@@ -0,0 +1,66 @@
+// src/utils/markup.ts
+import type { FocusRegion } from "@/api/types";
+
+/** Coordinates are fractions of the image size, so markup survives resizing */
+export interface MarkupPoint {
+    x: number;
+    y: number;
+}
+
+export type MarkupTool = "pen" | "arrow" | "rect" | "text";
+
+export type MarkupShape =
+    | { type: "pen"; color: string; points: MarkupPoint[] }
+    | { type: "arrow"; color: string; from: MarkupPoint; to: MarkupPoint }
+    | { type: "rect"; color: string; from: MarkupPoint; to: MarkupPoint }
+    | { type: "text"; color: string; at: MarkupPoint; text: string };
+
+// Size of the region around an arrow tip or label, as a fraction of the image
+const POINT_REGION = 0.12;
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+const boundsOf = (points: MarkupPoint[]): FocusRegion => {
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    const x = clamp01(Math.min(...xs));
+    const y = clamp01(Math.min(...ys));
+    return {
+        x,
+        y,
+        width: clamp01(Math.max(...xs)) - x,
+        height: clamp01(Math.max(...ys)) - y,
+    };
+};
+
+const aroundPoint = ({ x, y }: MarkupPoint): FocusRegion => {
+    const half = POINT_REGION / 2;
+    const left = clamp01(x - half);
+    const top = clamp01(y - half);
+    return {
+        x: left,
+        y: top,
+        width: clamp01(x + half) - left,
+        height: clamp01(y + half) - top,
+    };
+};
+
+/**
+ * Turns the inspector's markup into regions the analysis should focus on.
+ * Rectangles and strokes use their bounds, arrows the area around the tip,
+ * and text labels name the area they were placed on.
+ */
+export function focusRegionsFromMarkup(shapes: MarkupShape[]): FocusRegion[] {
+    return shapes.flatMap((shape): FocusRegion[] => {
+        switch (shape.type) {
+            case "pen":
+                return shape.points.length > 1 ? [boundsOf(shape.points)] : [];
+            case "rect":
+                return [boundsOf([shape.from, shape.to])];
+            case "arrow":
+                return [aroundPoint(shape.to)];
+            case "text":
+                return [{ ...aroundPoint(shape.at), label: shape.text }];
+        }
+    });
+}
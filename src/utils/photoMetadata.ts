@@ -0,0 +1,103 @@
+// src/utils/photoMetadata.ts
+import * as Location from "expo-location";
+import type { PhotoLocation, PhotoMetadata } from "@/api/types";
+
+type Exif = Record<string, any>;
+
+// EXIF dates look like "2024:05:01 14:03:22" and carry no zone, so read them as device time
+const parseExifDate = (value: unknown): string | null => {
+    if (typeof value !== "string") return null;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return null;
+    const [, y, mo, d, h, mi, s] = match.map(Number);
+    const date = new Date(y, mo - 1, d, h, mi, s);
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+// Android reports "51/1,30/1,2584/100" rationals; iOS reports decimal degrees
+const parseCoordinate = (value: unknown, ref: unknown): number | null => {
+    let degrees: number | null = null;
+    if (typeof value === "number") {
+        degrees = value;
+    } else if (typeof value === "string") {
+        const parts = value.split(",").map((part) => {
+            const [num, den = "1"] = part.split("/");
+            return Number(num) / Number(den);
+        });
+        if (parts.every(Number.isFinite)) {
+            const [deg = 0, min = 0, sec = 0] = parts;
+            degrees = deg + min / 60 + sec / 3600;
+        }
+    }
+    if (degrees === null || !Number.isFinite(degrees)) return null;
+    return ref === "S" || ref === "W" ? -Math.abs(degrees) : degrees;
+};
+
+/** Reads capture time and GPS position from an image picker EXIF dictionary */
+export function metadataFromExif(exif: Exif | null | undefined): PhotoMetadata {
+    if (!exif) return { capturedAt: null, location: null };
+
+    // iOS nests values in "{Exif}" and "{GPS}" dictionaries; Android keeps them flat
+    const exifDict: Exif = exif["{Exif}"] ?? exif;
+    const gps: Exif = exif["{GPS}"] ?? exif;
+
+    const capturedAt = parseExifDate(exifDict.DateTimeOriginal ?? exif.DateTime);
+    const latitude = parseCoordinate(gps.Latitude ?? gps.GPSLatitude, gps.LatitudeRef ?? gps.GPSLatitudeRef);
+    const longitude = parseCoordinate(gps.Longitude ?? gps.GPSLongitude, gps.LongitudeRef ?? gps.GPSLongitudeRef);
+
+    return {
+        capturedAt,
+        location: latitude !== null && longitude !== null ? { latitude, longitude } : null,
+    };
+}
+
+/**
+ * Looks up the device position for a photo taken just now. Returns null when
+ * permission is refused or no fix arrives quickly, so capture is never blocked.
+ */
+export async function lookupCurrentLocation(): Promise<PhotoLocation | null> {
+    try {
+        const permission = await Location.requestForegroundPermissionsAsync();
+        if (permission.status !== "granted") return null;
+
+        const position =
+            (await Location.getLastKnownPositionAsync({ maxAge: 60_000, requiredAccuracy: 100 })) ??
+            (await Promise.race([
+                Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced }),
+                new Promise<null>((resolve) => setTimeout(() => resolve(null), 5000)),
+            ]));
+        if (!position) return null;
+
+        return {
+            latitude: position.coords.latitude,
+            longitude: position.coords.longitude,
+            accuracy: position.coords.accuracy,
+        };
+    } catch (error) {
+        console.warn("Failed to look up location:", error);
+        return null;
+    }
+}
+
+export const formatCoordinates = ({ latitude, longitude }: PhotoLocation) =>
+    `${Math.abs(latitude).toFixed(5)}°${latitude >= 0 ? "N" : "S"}, ` +
+    `${Math.abs(longitude).toFixed(5)}°${longitude >= 0 ? "E" : "W"}`;
+
+export const formatCapturedAt = (iso: string) =>
+    new Date(iso).toLocaleString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+        hour: "2-digit",
+        minute: "2-digit",
+    });
+
+/** One-line description for shares and exports, or null when nothing was recorded */
+export function describePhotoMetadata(metadata: PhotoMetadata | null | undefined): string | null {
+    if (!metadata) return null;
+    const parts = [
+        metadata.capturedAt ? formatCapturedAt(metadata.capturedAt) : null,
+        metadata.location ? formatCoordinates(metadata.location) : null,
+    ].filter(Boolean);
+    return parts.length ? parts.join(" · ") : null;
+}
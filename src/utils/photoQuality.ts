@@ -0,0 +1,98 @@
+// src/utils/photoQuality.ts
+import * as ImageManipulator from "expo-image-manipulator";
+import { File } from "expo-file-system";
+import { decode } from "jpeg-js";
+import type { Size } from "@/utils/imageProcessing";
+
+export type QualityIssueKind = "blurry" | "dark" | "overexposed" | "lowResolution";
+
+export interface QualityIssue {
+    kind: QualityIssueKind;
+    message: string;
+}
+
+// Measured on the downscaled copy, so they do not depend on the camera's resolution
+const SAMPLE_SIDE = 256;
+const MIN_SHARPNESS = 60;
+const MIN_BRIGHTNESS = 45;
+const MAX_BRIGHTNESS = 215;
+// Share of blown-out pixels above which highlights have lost their detail
+const MAX_CLIPPED = 0.3;
+const MIN_LONGEST_SIDE = 800;
+
+/** Grayscale pixels of a small copy of the photo, decoded on the device */
+async function sampleLuminance(uri: string, size: Size) {
+    const context = ImageManipulator.ImageManipulator.manipulate(uri);
+    if (Math.max(size.width, size.height) > SAMPLE_SIDE) {
+        context.resize(size.width >= size.height ? { width: SAMPLE_SIDE } : { height: SAMPLE_SIDE });
+    }
+    const image = await context.renderAsync();
+    // Full quality keeps JPEG block artifacts from passing for sharp edges
+    const sample = await image.saveAsync({ compress: 1, format: ImageManipulator.SaveFormat.JPEG });
+    const file = new File(sample.uri);
+    try {
+        const { width, height, data } = decode(await file.bytes(), { useTArray: true, formatAsRGBA: false });
+        const luminance = new Float32Array(width * height);
+        for (let i = 0; i < luminance.length; i++) {
+            luminance[i] = 0.299 * data[i * 3] + 0.587 * data[i * 3 + 1] + 0.114 * data[i * 3 + 2];
+        }
+        return { width, height, luminance };
+    } finally {
+        if (file.exists) file.delete();
+    }
+}
+
+// Variance of the 4-neighbour Laplacian: low when edges are soft
+function laplacianVariance(luminance: Float32Array, width: number, height: number) {
+    let sum = 0;
+    let sumSquares = 0;
+    let count = 0;
+    for (let y = 1; y < height - 1; y++) {
+        for (let x = 1; x < width - 1; x++) {
+            const i = y * width + x;
+            const value = luminance[i - width] + luminance[i + width] + luminance[i - 1] + luminance[i + 1] - 4 * luminance[i];
+            sum += value;
+            sumSquares += value * value;
+            count++;
+        }
+    }
+    if (count === 0) return 0;
+    const mean = sum / count;
+    return sumSquares / count - mean * mean;
+}
+
+/**
+ * Checks sharpness, exposure and resolution before a photo is sent for
+ * analysis. Returns the problems found, most serious first; an empty list
+ * means the photo looks usable.
+ */
+export async function checkPhotoQuality(uri: string, size: Size): Promise<QualityIssue[]> {
+    const issues: QualityIssue[] = [];
+    const { width, height, luminance } = await sampleLuminance(uri, size);
+
+    if (laplacianVariance(luminance, width, height) < MIN_SHARPNESS) {
+        issues.push({ kind: "blurry", message: "Image is too blurry" });
+    }
+
+    let total = 0;
+    let clipped = 0;
+    for (const value of luminance) {
+        total += value;
+        if (value >= 250) clipped++;
+    }
+    const brightness = total / luminance.length;
+    if (brightness < MIN_BRIGHTNESS) {
+        issues.push({ kind: "dark", message: "Image is too dark" });
+    } else if (brightness > MAX_BRIGHTNESS || clipped / luminance.length > MAX_CLIPPED) {
+        issues.push({ kind: "overexposed", message: "Image is overexposed" });
+    }
+
+    if (Math.max(size.width, size.height) < MIN_LONGEST_SIDE) {
+        issues.push({
+            kind: "lowResolution",
+            message: `Image resolution is too low (${size.width} × ${size.height} px)`,
+        });
+    }
+
+    return issues;
+}